@@ -0,0 +1,89 @@
+import { SanityIssue } from '../types';
+
+interface AnnotatedMessageProps {
+  text: string;
+  issues: SanityIssue[];
+  activeIssue: number | null;
+  onHoverIssue: (index: number | null) => void;
+  onSelectIssue: (index: number) => void;
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  issueIndexes: number[];
+}
+
+const SEVERITY_RANK = { high: 3, medium: 2, low: 1 };
+
+// Splits the text at every span boundary so overlapping issues can share a
+// highlighted segment.
+function buildSegments(text: string, issues: SanityIssue[]): Segment[] {
+  const clamp = (value: number) => Math.max(0, Math.min(text.length, value));
+  const boundaries = new Set<number>([0, text.length]);
+
+  issues.forEach(issue => {
+    issue.spans?.forEach(span => {
+      boundaries.add(clamp(span.start));
+      boundaries.add(clamp(span.end));
+    });
+  });
+
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+  const segments: Segment[] = [];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    const issueIndexes = issues
+      .map((issue, index) => ({ issue, index }))
+      .filter(({ issue }) => issue.spans?.some(span => span.start <= start && span.end >= end))
+      .map(({ index }) => index);
+    segments.push({ start, end, issueIndexes });
+  }
+
+  return segments;
+}
+
+export function AnnotatedMessage({
+  text,
+  issues,
+  activeIssue,
+  onHoverIssue,
+  onSelectIssue,
+}: AnnotatedMessageProps) {
+  const segments = buildSegments(text, issues);
+
+  return (
+    <div className="annotated-message" dir="auto">
+      {segments.map(segment => {
+        const content = text.slice(segment.start, segment.end);
+        if (segment.issueIndexes.length === 0) {
+          return <span key={segment.start}>{content}</span>;
+        }
+
+        const severity = segment.issueIndexes
+          .map(index => issues[index].severity)
+          .reduce((highest, current) =>
+            SEVERITY_RANK[current] > SEVERITY_RANK[highest] ? current : highest
+          );
+        const isActive = activeIssue !== null && segment.issueIndexes.includes(activeIssue);
+        const primaryIssue = segment.issueIndexes[0];
+
+        return (
+          <mark
+            key={segment.start}
+            data-issues={segment.issueIndexes.join(' ')}
+            className={`highlight highlight-${severity} ${isActive ? 'highlight-active' : ''}`}
+            title={segment.issueIndexes.map(index => issues[index].problem).join('\n')}
+            onMouseEnter={() => onHoverIssue(primaryIssue)}
+            onMouseLeave={() => onHoverIssue(null)}
+            onClick={() => onSelectIssue(primaryIssue)}
+          >
+            {content}
+          </mark>
+        );
+      })}
+    </div>
+  );
+}
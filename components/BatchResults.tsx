@@ -0,0 +1,79 @@
+import { Fragment, useState } from 'react';
+import { BatchItem, BatchItemResult, ISSUE_CATEGORY_LABELS } from '../types';
+import { needsAttention } from '../utils/batchFormat';
+
+interface BatchResultsProps {
+  items: BatchItem[];
+  results: BatchItemResult[];
+}
+
+function scoreClass(score: number): string {
+  if (score >= 80) return 'score-good';
+  if (score >= 60) return 'score-medium';
+  return 'score-bad';
+}
+
+export function BatchResults({ items, results }: BatchResultsProps) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  return (
+    <table className="batch-table">
+      <thead>
+        <tr>
+          <th>#</th>
+          <th></th>
+          <th>Message</th>
+          <th>Score</th>
+          <th>Issues</th>
+          <th>Summary</th>
+        </tr>
+      </thead>
+      <tbody>
+        {results.map(item => {
+          const message = items[item.index]?.message || '';
+          const issues = item.result?.issues || [];
+          return (
+            <Fragment key={item.index}>
+              <tr
+                className={item.status === 'error' ? 'batch-row-error' : 'batch-row'}
+                onClick={() => setExpanded(expanded === item.index ? null : item.index)}
+              >
+                <td>{item.id || item.index + 1}</td>
+                <td title={needsAttention(item) ? 'Needs attention' : 'No high-severity issues'}>
+                  {needsAttention(item) ? '✗' : '✓'}
+                </td>
+                <td className="batch-message">{message.slice(0, 80)}{message.length > 80 ? '…' : ''}</td>
+                <td>
+                  {item.result && (
+                    <span className={scoreClass(item.result.overallScore)}>{item.result.overallScore}</span>
+                  )}
+                </td>
+                <td>
+                  {item.status === 'error'
+                    ? item.code
+                    : `${issues.length} (${issues.filter(issue => issue.severity === 'high').length} high)`}
+                </td>
+                <td>{item.status === 'error' ? item.error : item.result?.summary}</td>
+              </tr>
+              {expanded === item.index && issues.length > 0 && (
+                <tr className="batch-issues">
+                  <td colSpan={6}>
+                    <ul>
+                      {issues.map((issue, index) => (
+                        <li key={index}>
+                          <span className={`severity-badge severity-${issue.severity}`}>{issue.severity}</span>{' '}
+                          <strong>{ISSUE_CATEGORY_LABELS[issue.category]}:</strong> {issue.problem}
+                          {issue.suggestion && <em> — {issue.suggestion}</em>}
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                </tr>
+              )}
+            </Fragment>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { ContactInfo, MessageContext, Relationship, RELATIONSHIPS } from '../types';
+import { RELATIONSHIP_LABELS } from '../utils/messageContext';
+
+interface ContextDetailsProps {
+  context: MessageContext;
+  onContextChange: (context: MessageContext) => void;
+}
+
+function parseAttachments(text: string): string[] {
+  return text.split(',').map(name => name.trim()).filter(Boolean);
+}
+
+export function ContextDetails({ context, onContextChange }: ContextDetailsProps) {
+  const [attachmentText, setAttachmentText] = useState((context.attachments || []).join(', '));
+
+  // Keep the text in sync when attachments are set elsewhere (e.g. .eml import)
+  useEffect(() => {
+    const names = (context.attachments || []).join(', ');
+    if (names !== parseAttachments(attachmentText).join(', ')) setAttachmentText(names);
+  }, [context.attachments]);
+
+  const updateContact = (key: 'recipient' | 'sender', field: keyof ContactInfo, value: string) => {
+    const contact = { ...context[key], [field]: value || undefined };
+    const isEmpty = !contact.name && !contact.role && !contact.company;
+    onContextChange({ ...context, [key]: isEmpty ? undefined : contact });
+  };
+
+  // An empty list means "nothing is attached"; undefined means "not stated"
+  const updateAttachments = (text: string) => {
+    setAttachmentText(text);
+    const names = parseAttachments(text);
+    onContextChange({
+      ...context,
+      attachments: names.length > 0 ? names : context.attachments?.length === 0 ? [] : undefined
+    });
+  };
+
+  const toggleNothingAttached = (checked: boolean) => {
+    setAttachmentText('');
+    onContextChange({ ...context, attachments: checked ? [] : undefined });
+  };
+
+  const addAttachmentFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    // Only the names are used; the files themselves never leave the browser
+    const names = [...parseAttachments(attachmentText), ...Array.from(files).map(file => file.name)];
+    setAttachmentText(names.join(', '));
+    onContextChange({ ...context, attachments: names });
+  };
+
+  return (
+    <details className="context-details">
+      <summary>Recipient, relationship and attachments</summary>
+
+      <div className="context-details-grid">
+        <div className="context-field">
+          <label htmlFor="recipient-name">Recipient name</label>
+          <input
+            id="recipient-name"
+            value={context.recipient?.name || ''}
+            onChange={(e) => updateContact('recipient', 'name', e.target.value)}
+            placeholder="Jane Doe"
+          />
+        </div>
+        <div className="context-field">
+          <label htmlFor="recipient-role">Recipient role</label>
+          <input
+            id="recipient-role"
+            value={context.recipient?.role || ''}
+            onChange={(e) => updateContact('recipient', 'role', e.target.value)}
+            placeholder="Engineering Manager"
+          />
+        </div>
+        <div className="context-field">
+          <label htmlFor="recipient-company">Recipient company</label>
+          <input
+            id="recipient-company"
+            value={context.recipient?.company || ''}
+            onChange={(e) => updateContact('recipient', 'company', e.target.value)}
+            placeholder="Acme Corp"
+          />
+        </div>
+        <div className="context-field">
+          <label htmlFor="sender-role">Your role</label>
+          <input
+            id="sender-role"
+            value={context.sender?.role || ''}
+            onChange={(e) => updateContact('sender', 'role', e.target.value)}
+            placeholder="Software Engineer"
+          />
+        </div>
+        <div className="context-field">
+          <label htmlFor="relationship">Relationship</label>
+          <select
+            id="relationship"
+            value={context.relationship || ''}
+            onChange={(e) =>
+              onContextChange({ ...context, relationship: (e.target.value as Relationship) || undefined })
+            }
+          >
+            <option value="">Not specified</option>
+            {RELATIONSHIPS.map(relationship => (
+              <option key={relationship} value={relationship}>
+                {RELATIONSHIP_LABELS[relationship]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="context-field">
+        <label htmlFor="attachments">Files attached to the message</label>
+        <div className="attachment-row">
+          <input
+            id="attachments"
+            value={attachmentText}
+            onChange={(e) => updateAttachments(e.target.value)}
+            placeholder="resume.pdf, portfolio.pdf"
+          />
+          <label className="attachment-picker">
+            Choose files
+            <input type="file" multiple onChange={(e) => addAttachmentFiles(e.target.files)} />
+          </label>
+        </div>
+        <label className="attachment-none">
+          <input
+            type="checkbox"
+            checked={context.attachments?.length === 0}
+            onChange={(e) => toggleNothingAttached(e.target.checked)}
+          />
+          Nothing is attached
+        </label>
+      </div>
+    </details>
+  );
+}
@@ -1,13 +1,21 @@
-import { useState } from 'react';
+import { Dispatch, SetStateAction, useState } from 'react';
+import { MessageContext, Platform, PLATFORMS } from '../types';
 import { isValidUrl, extractDomain } from '../utils/urlDetection';
+import { formatExtractedFields } from '../utils/extractors/fields';
+import { addExtractedSource } from '../utils/messageContext';
+import { PLATFORM_PROFILES } from '../utils/platforms';
+import { ContextDetails } from './ContextDetails';
 
 interface ContextInputProps {
-  context: string;
-  onContextChange: (context: string) => void;
-  platform: string;
-  onPlatformChange: (platform: string) => void;
+  context: MessageContext;
+  onContextChange: Dispatch<SetStateAction<MessageContext>>;
+  platform: Platform | '';
+  onPlatformChange: (platform: Platform | '') => void;
 }
 
+// Matches the API's limit on source documents
+const MAX_SOURCES = 5;
+
 export function ContextInput({
   context,
   onContextChange,
@@ -18,9 +26,10 @@ export function ContextInput({
   const [extractionError, setExtractionError] = useState('');
   const [showManualEntry, setShowManualEntry] = useState(false);
   const [originalUrl, setOriginalUrl] = useState('');
+  const sources = context.sources || [];
 
-  const handleContextChange = async (value: string) => {
-    onContextChange(value);
+  const handleNotesChange = async (value: string) => {
+    onContextChange({ ...context, notes: value || undefined });
     setExtractionError('');
     setShowManualEntry(false);
 
@@ -32,6 +41,11 @@ export function ContextInput({
   };
 
   const extractUrlContent = async (url: string) => {
+    if (sources.length >= MAX_SOURCES) {
+      setExtractionError(`You can add up to ${MAX_SOURCES} sources. Remove one to add another.`);
+      return;
+    }
+
     setIsExtracting(true);
     setOriginalUrl(url);
 
@@ -47,9 +61,9 @@ export function ContextInput({
       const data = await response.json();
 
       if (data.success) {
-        // Replace the URL with extracted content
-        const extractedContext = `Content from ${data.source}:\n\n${data.content}`;
-        onContextChange(extractedContext);
+        // The URL moves out of the notes and becomes a source with provenance.
+        // Applied to the latest context, since fields may change meanwhile.
+        onContextChange(current => ({ ...addExtractedSource(current, url, data), notes: undefined }));
         setExtractionError('');
       } else {
         // Show error and prompt for manual entry
@@ -65,7 +79,7 @@ export function ContextInput({
   };
 
   const handleManualEntry = () => {
-    onContextChange('');
+    onContextChange({ ...context, notes: undefined });
     setShowManualEntry(false);
     setExtractionError('');
     setOriginalUrl('');
@@ -77,10 +91,48 @@ export function ContextInput({
     }
   };
 
+  const removeSource = (index: number) => {
+    const remaining = sources.filter((_, i) => i !== index);
+    onContextChange({ ...context, sources: remaining.length > 0 ? remaining : undefined });
+  };
+
   return (
     <div className="context-input-container">
       <label htmlFor="context">Additional Context</label>
 
+      {sources.length > 0 && (
+        <ul className="context-sources">
+          {sources.map((source, index) => (
+            <li key={`${source.url || source.label}-${index}`} className="context-source">
+              <div className="context-source-header">
+                <strong>{source.label || 'Document'}</strong>
+                <button
+                  type="button"
+                  onClick={() => removeSource(index)}
+                  className="context-source-remove"
+                  aria-label={`Remove ${source.label || 'source'}`}
+                >
+                  ×
+                </button>
+              </div>
+              {source.url && (
+                <div className="context-source-provenance">
+                  <a href={source.url} target="_blank" rel="noopener noreferrer">
+                    {extractDomain(source.url)}
+                  </a>
+                  {source.retrievedAt && (
+                    <span> · retrieved {new Date(source.retrievedAt).toLocaleString()}</span>
+                  )}
+                </div>
+              )}
+              {source.fields && (
+                <pre className="context-source-fields">{formatExtractedFields(source.fields)}</pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {isExtracting && (
         <div className="extraction-status">
           <span className="loading-spinner"></span>
@@ -112,8 +164,8 @@ export function ContextInput({
 
       <textarea
         id="context"
-        value={context}
-        onChange={(e) => handleContextChange(e.target.value)}
+        value={context.notes || ''}
+        onChange={(e) => handleNotesChange(e.target.value)}
         placeholder={
           showManualEntry
             ? 'Please paste the content here manually...'
@@ -125,23 +177,23 @@ export function ContextInput({
       />
 
       <div className="context-help">
-        💡 <strong>Tip:</strong> You can paste a URL and we'll automatically
-        extract the content, or paste the actual text content for best results.
+        💡 <strong>Tip:</strong> Paste a URL and we'll add its content as a
+        source, or paste the actual text content. You can add several sources.
       </div>
 
+      <ContextDetails context={context} onContextChange={onContextChange} />
+
       <div className="platform-select">
         <label htmlFor="platform">Platform (optional)</label>
         <select
           id="platform"
           value={platform}
-          onChange={(e) => onPlatformChange(e.target.value)}
+          onChange={(e) => onPlatformChange(e.target.value as Platform | '')}
         >
           <option value="">Select platform...</option>
-          <option value="LinkedIn">LinkedIn</option>
-          <option value="Gmail">Gmail</option>
-          <option value="Slack">Slack</option>
-          <option value="Email">Email</option>
-          <option value="Other">Other</option>
+          {PLATFORMS.map(id => (
+            <option key={id} value={id}>{PLATFORM_PROFILES[id].label}</option>
+          ))}
         </select>
       </div>
     </div>
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { MessageContext } from '../types';
+import { emailToDraft, looksLikeEmail, parseEmail } from '../utils/emlParser';
+
+interface EmailImportProps {
+  context: MessageContext;
+  onContextChange: (context: MessageContext) => void;
+  onImport: (draft: { message: string; context: MessageContext }) => void;
+}
+
+// Loads a draft from an .eml file. The file is parsed in the browser; only
+// the text and the header/attachment metadata are used.
+export function EmailImport({ context, onContextChange, onImport }: EmailImportProps) {
+  const [importError, setImportError] = useState('');
+  const headers = context.headers;
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setImportError('');
+    try {
+      const raw = await file.text();
+      if (!looksLikeEmail(raw)) {
+        setImportError('That file does not look like an email message.');
+        return;
+      }
+      const draft = emailToDraft(parseEmail(raw));
+      if (!draft.message) {
+        setImportError('No readable message text was found in that email.');
+        return;
+      }
+      onImport(draft);
+    } catch (error) {
+      setImportError('That file could not be read.');
+    }
+  };
+
+  return (
+    <div className="email-import">
+      <label className="eml-upload">
+        Import draft from .eml
+        <input
+          type="file"
+          accept=".eml,message/rfc822"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      {importError && <div className="error-message">⚠️ {importError}</div>}
+
+      {headers && (
+        <div className="email-headers">
+          <div className="email-header-row">
+            <span className="email-header-name">To</span>
+            <span>{headers.to && headers.to.length > 0 ? headers.to.join(', ') : '(nobody)'}</span>
+          </div>
+          {headers.cc && headers.cc.length > 0 && (
+            <div className="email-header-row">
+              <span className="email-header-name">Cc</span>
+              <span>{headers.cc.join(', ')}</span>
+            </div>
+          )}
+          <div className="email-header-row">
+            <label htmlFor="email-subject" className="email-header-name">Subject</label>
+            <input
+              id="email-subject"
+              value={headers.subject || ''}
+              onChange={(e) => onContextChange({ ...context, headers: { ...headers, subject: e.target.value } })}
+              placeholder="(no subject)"
+            />
+          </div>
+          <button
+            type="button"
+            className="manual-button"
+            onClick={() => onContextChange({ ...context, headers: undefined })}
+          >
+            Forget email headers
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
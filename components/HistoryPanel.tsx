@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { HistoryEntry, ISSUE_CATEGORY_LABELS, SanityIssue } from '../types';
+import { compareRuns, exportHistory, matchesHistoryQuery, previousRun } from '../utils/history';
+import { HistoryBackend } from '../utils/historyClient';
+import { getPlatformProfile } from '../utils/platforms';
+import { diffWords } from '../utils/textDiff';
+
+interface HistoryPanelProps {
+  history: HistoryBackend;
+  // Changes whenever an entry was saved, to reload the list
+  refreshKey: number;
+  // Loads the entry into the editor with its result
+  onOpen: (entry: HistoryEntry) => void;
+  // Checks the entry's message again with the current model and prompt
+  onRerun: (entry: HistoryEntry) => void;
+  disabled?: boolean;
+}
+
+function scoreClass(score: number): string {
+  if (score >= 80) return 'score-good';
+  if (score >= 60) return 'score-medium';
+  return 'score-bad';
+}
+
+function downloadExport(entries: HistoryEntry[]) {
+  const url = URL.createObjectURL(new Blob([exportHistory(entries)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'sanity-check-history.json';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function IssueList({ title, issues }: { title: string; issues: SanityIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <div className="history-compare-issues">
+      <h4>{title} ({issues.length})</h4>
+      <ul>
+        {issues.map((issue, index) => (
+          <li key={index}>
+            <span className={`severity-${issue.severity}`}>{ISSUE_CATEGORY_LABELS[issue.category] || issue.category}</span>{' '}
+            <bdi>{issue.problem}</bdi>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function HistoryCompare({ older, newer, onClose }: { older: HistoryEntry; newer: HistoryEntry; onClose: () => void }) {
+  const comparison = compareRuns(older, newer);
+  const { scoreChange } = comparison;
+
+  return (
+    <div className="history-compare">
+      <div className="diff-toolbar">
+        <h3>
+          {new Date(older.createdAt).toLocaleString()} → {new Date(newer.createdAt).toLocaleString()}
+        </h3>
+        <button type="button" className="manual-button" onClick={onClose}>Close</button>
+      </div>
+      <p>
+        Score {older.result.overallScore} → {newer.result.overallScore}{' '}
+        <span className={scoreChange > 0 ? 'score-good' : scoreChange < 0 ? 'score-bad' : ''}>
+          ({scoreChange > 0 ? '+' : ''}{scoreChange})
+        </span>
+        {older.promptVersion !== newer.promptVersion && ` · prompt ${older.promptVersion || '?'} → ${newer.promptVersion || '?'}`}
+      </p>
+      {comparison.messageChanged ? (
+        <div className="diff-text" dir="auto">
+          {diffWords(older.message, newer.message).map((part, index) => (
+            <span key={index} className={`diff-${part.type}`}>{part.text}</span>
+          ))}
+        </div>
+      ) : (
+        <p className="history-note">The message is unchanged.</p>
+      )}
+      <IssueList title="Resolved" issues={comparison.resolved} />
+      <IssueList title="New" issues={comparison.introduced} />
+      <IssueList title="Still reported" issues={comparison.remaining} />
+    </div>
+  );
+}
+
+export function HistoryPanel({ history, refreshKey, onOpen, onRerun, disabled = false }: HistoryPanelProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [comparing, setComparing] = useState<{ older: HistoryEntry; newer: HistoryEntry } | null>(null);
+  const [error, setError] = useState('');
+
+  const reload = async () => {
+    try {
+      setEntries(await history.list());
+      setError('');
+    } catch (err) {
+      console.error('Failed to load history:', err);
+      setError('Could not load your history.');
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [history, refreshKey]);
+
+  const remove = async (entry: HistoryEntry) => {
+    try {
+      await history.remove(entry.id);
+      if (comparing && [comparing.older.id, comparing.newer.id].includes(entry.id)) setComparing(null);
+      await reload();
+    } catch (err) {
+      console.error('Failed to delete history entry:', err);
+      setError('Could not delete the entry.');
+    }
+  };
+
+  const clearAll = async () => {
+    if (!window.confirm('Delete all saved checks?')) return;
+    try {
+      await history.clear();
+      setComparing(null);
+      await reload();
+    } catch (err) {
+      console.error('Failed to clear history:', err);
+      setError('Could not delete your history.');
+    }
+  };
+
+  const visible = entries.filter(entry => matchesHistoryQuery(entry, query));
+
+  return (
+    <details className="history-panel">
+      <summary>
+        History ({entries.length}) · saved {history.name === 'server' ? 'on the server' : 'in this browser'}
+      </summary>
+
+      <div className="history-toolbar">
+        <input
+          type="search"
+          className="history-search"
+          placeholder="Search messages, recipients, findings..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <button type="button" className="manual-button" onClick={() => downloadExport(visible)} disabled={visible.length === 0}>
+          Export
+        </button>
+        <button type="button" className="manual-button" onClick={clearAll} disabled={entries.length === 0}>
+          Delete all
+        </button>
+      </div>
+
+      {error && <div className="error">{error}</div>}
+
+      {comparing && <HistoryCompare {...comparing} onClose={() => setComparing(null)} />}
+
+      {visible.length === 0 ? (
+        <p className="history-note">{entries.length === 0 ? 'Checks you run are saved here.' : 'No saved checks match.'}</p>
+      ) : (
+        <ul className="history-list">
+          {visible.map(entry => {
+            const earlier = previousRun(entries, entry);
+            const platform = getPlatformProfile(entry.platform);
+            return (
+              <li key={entry.id} className="history-entry">
+                <div className="history-entry-header">
+                  <span className={scoreClass(entry.result.overallScore)}>{entry.result.overallScore}</span>
+                  <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                  {platform && <span>{platform.label}</span>}
+                  {entry.context?.recipient?.name && <bdi>to {entry.context.recipient.name}</bdi>}
+                  {entry.promptVersion && <span>prompt {entry.promptVersion}</span>}
+                </div>
+                <div className="history-message" dir="auto">
+                  {entry.message.slice(0, 120)}{entry.message.length > 120 ? '…' : ''}
+                </div>
+                <div className="history-actions">
+                  <button type="button" className="manual-button" onClick={() => onOpen(entry)} disabled={disabled}>Open</button>
+                  <button type="button" className="manual-button" onClick={() => onRerun(entry)} disabled={disabled}>Re-run</button>
+                  {earlier && (
+                    <button type="button" className="manual-button" onClick={() => setComparing({ older: earlier, newer: entry })}>
+                      Compare with previous run
+                    </button>
+                  )}
+                  <button type="button" className="manual-button" onClick={() => remove(entry)}>Delete</button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </details>
+  );
+}
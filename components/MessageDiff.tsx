@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { diffWords } from '../utils/textDiff';
+
+interface MessageDiffProps {
+  original: string;
+  corrected: string;
+}
+
+export function MessageDiff({ original, corrected }: MessageDiffProps) {
+  const [view, setView] = useState<'inline' | 'side-by-side'>('inline');
+  const [copied, setCopied] = useState(false);
+  const parts = diffWords(original, corrected);
+
+  const copyCorrected = async () => {
+    try {
+      await navigator.clipboard.writeText(corrected);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Copy failed:', error);
+    }
+  };
+
+  return (
+    <div className="diff-section">
+      <div className="diff-toolbar">
+        <h3>Corrected Message</h3>
+        <div className="diff-actions">
+          <button
+            type="button"
+            className={`diff-toggle ${view === 'inline' ? 'diff-toggle-active' : ''}`}
+            onClick={() => setView('inline')}
+          >
+            Inline
+          </button>
+          <button
+            type="button"
+            className={`diff-toggle ${view === 'side-by-side' ? 'diff-toggle-active' : ''}`}
+            onClick={() => setView('side-by-side')}
+          >
+            Side by side
+          </button>
+          <button type="button" className="apply-button" onClick={copyCorrected}>
+            {copied ? 'Copied!' : 'Copy corrected'}
+          </button>
+        </div>
+      </div>
+
+      {view === 'inline' ? (
+        <div className="diff-text">
+          {parts.map((part, index) => (
+            <span key={index} className={`diff-${part.type}`}>{part.text}</span>
+          ))}
+        </div>
+      ) : (
+        <div className="diff-columns">
+          <div className="diff-text">
+            <div className="diff-column-label">Original</div>
+            {parts
+              .filter(part => part.type !== 'insert')
+              .map((part, index) => (
+                <span key={index} className={`diff-${part.type}`}>{part.text}</span>
+              ))}
+          </div>
+          <div className="diff-text">
+            <div className="diff-column-label">Corrected</div>
+            {parts
+              .filter(part => part.type !== 'delete')
+              .map((part, index) => (
+                <span key={index} className={`diff-${part.type}`}>{part.text}</span>
+              ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,37 @@
+import { LengthLimit } from '../utils/platforms';
+
 interface MessageInputProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  label?: string;
+  // The chosen platform's length limit, shown as a character counter
+  limit?: LengthLimit;
 }
 
-export function MessageInput({ value, onChange, placeholder }: MessageInputProps) {
+export function MessageInput({ value, onChange, placeholder, label = 'Message to Check', limit }: MessageInputProps) {
+  const length = Array.from(value.replace(/\s+$/, '')).length;
+  const shownLimit = limit && (limit.max ?? limit.recommended);
+  const overLimit = limit?.max !== undefined && length > limit.max;
+  const overRecommended = limit?.recommended !== undefined && length > limit.recommended;
+
   return (
     <div className="input-group">
-      <label htmlFor="message">Message to Check</label>
+      <label htmlFor="message">{label}</label>
       <textarea
         id="message"
         value={value}
         onChange={(e) => onChange(e.target.value)}
         placeholder={placeholder}
         rows={6}
+        dir="auto"
         className="message-textarea"
       />
+      {shownLimit !== undefined && (
+        <div className={`character-count${overLimit ? ' over-limit' : overRecommended ? ' over-recommended' : ''}`}>
+          {length} / {shownLimit} characters
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
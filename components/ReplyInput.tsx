@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { MessageContext, ThreadMessage } from '../types';
+import { displayName, emailToThreadMessage, formatEmail, looksLikeEmail, parseEmail } from '../utils/emlParser';
+
+interface ReplyInputProps {
+  context: MessageContext;
+  onContextChange: (context: MessageContext) => void;
+}
+
+// Several earlier messages can be pasted, separated by a line of dashes
+const THREAD_SEPARATOR = /^\s*-{3,}\s*$/m;
+
+function parseThread(text: string): ThreadMessage[] | undefined {
+  const messages = text
+    .split(THREAD_SEPARATOR)
+    .map(chunk => chunk.trim())
+    .filter(Boolean)
+    .map(chunk => (looksLikeEmail(chunk) ? emailToThreadMessage(parseEmail(chunk)) : { body: chunk }))
+    .filter(message => message.body);
+  return messages.length > 0 ? messages : undefined;
+}
+
+function formatThread(thread: ThreadMessage[] = []): string {
+  return thread
+    .map(message => {
+      const headers = [message.from && `From: ${message.from}`, message.sentAt && `Date: ${message.sentAt}`]
+        .filter(Boolean);
+      return headers.length > 0 ? `${headers.join('\n')}\n\n${message.body}` : message.body;
+    })
+    .join('\n---\n');
+}
+
+export function ReplyInput({ context, onContextChange }: ReplyInputProps) {
+  const [threadText, setThreadText] = useState(formatThread(context.thread));
+  const [uploadError, setUploadError] = useState('');
+
+  const updateThread = (text: string) => {
+    setThreadText(text);
+    const thread = parseThread(text);
+    // The person being replied to is the sender of the last message
+    const repliedTo = displayName(thread?.[thread.length - 1].from);
+    onContextChange({
+      ...context,
+      thread,
+      recipient: context.recipient?.name || !repliedTo
+        ? context.recipient
+        : { ...context.recipient, name: repliedTo },
+    });
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setUploadError('');
+    try {
+      const emails = await Promise.all(Array.from(files).map(async file => parseEmail(await file.text())));
+      const readable = emails.filter(email => email.body).map(formatEmail);
+      if (readable.length === 0) {
+        setUploadError('No readable message text was found in that file.');
+        return;
+      }
+      updateThread([threadText.trim(), ...readable].filter(Boolean).join('\n---\n'));
+    } catch (error) {
+      setUploadError('That file could not be read.');
+    }
+  };
+
+  return (
+    <div className="input-group reply-input">
+      <label htmlFor="thread">Message you're replying to</label>
+      <textarea
+        id="thread"
+        value={threadText}
+        onChange={(e) => updateThread(e.target.value)}
+        placeholder={'Paste the message (or the whole .eml source) you are replying to.\nFor a longer thread, paste earlier messages first, separated by a line containing ---'}
+        rows={6}
+        className="context-textarea"
+      />
+      <div className="reply-actions">
+        <label className="eml-upload">
+          Upload .eml
+          <input
+            type="file"
+            accept=".eml,message/rfc822"
+            multiple
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {context.thread && (
+          <span className="reply-summary">
+            {context.thread.length === 1
+              ? 'Replying to 1 message'
+              : `Replying to the last of ${context.thread.length} messages`}
+            {context.thread[context.thread.length - 1].from &&
+              ` from ${displayName(context.thread[context.thread.length - 1].from)}`}
+          </span>
+        )}
+      </div>
+      {uploadError && <div className="error-message">⚠️ {uploadError}</div>}
+    </div>
+  );
+}
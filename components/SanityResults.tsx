@@ -1,10 +1,42 @@
-import { SanityResult } from '../types';
+import { useState } from 'react';
+import { ISSUE_CATEGORY_LABELS, REPLY_CATEGORIES, SanityIssue, SanityResult } from '../types';
+import { getLanguage } from '../utils/languages';
+import { replacementsOverlap } from '../utils/textReplacement';
+import { AnnotatedMessage } from './AnnotatedMessage';
+import { MessageDiff } from './MessageDiff';
 
 interface SanityResultsProps {
-  result: SanityResult;
+  // Null while a streamed analysis is still running
+  result: SanityResult | null;
+  streamingIssues?: SanityIssue[];
+  // The message that was checked, used to highlight issue spans
+  message?: string;
+  // Issue indexes whose replacements have been applied, in order
+  appliedIssues?: number[];
+  correctedMessage?: string;
+  // False once the message has been edited by hand since the check
+  canApply?: boolean;
+  onApply?: (index: number) => void;
+  onApplyAll?: () => void;
+  onUndo?: () => void;
+  // Runs the check again without the result cache
+  onRecheck?: () => void;
 }
 
-export function SanityResults({ result }: SanityResultsProps) {
+export function SanityResults({
+  result,
+  streamingIssues = [],
+  message,
+  appliedIssues = [],
+  correctedMessage,
+  canApply = false,
+  onApply,
+  onApplyAll,
+  onUndo,
+  onRecheck,
+}: SanityResultsProps) {
+  const [activeIssue, setActiveIssue] = useState<number | null>(null);
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'score-good';
     if (score >= 60) return 'score-medium';
@@ -20,42 +52,185 @@ export function SanityResults({ result }: SanityResultsProps) {
     }
   };
 
+  const issues = result ? result.issues : streamingIssues;
+  const hasSpans = issues.some(issue => issue.spans && issue.spans.length > 0);
+
+  const fixableIssues = issues.filter(issue => issue.replacement).length;
+  const messageLanguage = getLanguage(result?.meta?.language?.code);
+
+  const isApplyBlocked = (index: number) => {
+    const replacement = issues[index].replacement!;
+    return appliedIssues.some(applied =>
+      applied === index || replacementsOverlap(issues[applied].replacement!, replacement)
+    );
+  };
+
+  const scrollToIssue = (index: number) => {
+    setActiveIssue(index);
+    document.getElementById(`issue-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const scrollToHighlight = (index: number) => {
+    setActiveIssue(index);
+    document
+      .querySelector(`.annotated-message [data-issues~="${index}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
   return (
     <div className="results-container">
-      <div className="score-section">
-        <h2>Overall Score</h2>
-        <div className={`score ${getScoreColor(result.overallScore)}`}>
-          {result.overallScore}/100
+      {result ? (
+        <div className="score-section">
+          <h2>Overall Score</h2>
+          <div className={`score ${getScoreColor(result.overallScore)}`}>
+            {result.overallScore}/100
+          </div>
+          <p className="summary" dir="auto">{result.summary}</p>
+          {messageLanguage && messageLanguage.code !== 'en' && (
+            <div className="language-notice">Checked as {messageLanguage.name}</div>
+          )}
+          {result.meta?.redacted && (
+            <div className="redaction-notice">
+              {result.meta.redacted} sensitive {result.meta.redacted === 1 ? 'value was' : 'values were'} hidden from the AI model
+            </div>
+          )}
+          {result.meta?.warnings?.map(warning => (
+            <div key={warning} className="analysis-warning">⚠️ {warning}</div>
+          ))}
+          {result.meta?.cached && (
+            <div className="cache-notice">
+              Cached result from {result.meta.cachedAt ? new Date(result.meta.cachedAt).toLocaleString() : 'an earlier check'}
+              {onRecheck && (
+                <button type="button" className="manual-button" onClick={onRecheck}>
+                  Check again
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="score-section streaming-status">
+          <span className="loading-spinner"></span>
+          Still checking your message...
+        </div>
+      )}
+
+      {message && hasSpans && (
+        <div className="annotated-section">
+          <h3>Your Message</h3>
+          <AnnotatedMessage
+            text={message}
+            issues={issues}
+            activeIssue={activeIssue}
+            onHoverIssue={setActiveIssue}
+            onSelectIssue={scrollToIssue}
+          />
         </div>
-        <p className="summary">{result.summary}</p>
-      </div>
+      )}
 
-      {result.hasIssues && result.issues.length > 0 && (
+      {issues.length > 0 && (
         <div className="issues-section">
-          <h3>Issues Found</h3>
-          {result.issues.map((issue, index) => (
-            <div key={index} className="issue-item">
+          <div className="issues-header">
+            <h3>Issues Found</h3>
+            {onApply && fixableIssues > 0 && (
+              <div className="apply-actions">
+                <button
+                  type="button"
+                  className="apply-button"
+                  onClick={onApplyAll}
+                  disabled={!canApply || issues.every((issue, index) => !issue.replacement || isApplyBlocked(index))}
+                >
+                  Apply all
+                </button>
+                <button
+                  type="button"
+                  className="apply-button"
+                  onClick={onUndo}
+                  disabled={!canApply || appliedIssues.length === 0}
+                >
+                  Undo
+                </button>
+              </div>
+            )}
+          </div>
+          {onApply && fixableIssues > 0 && !canApply && (
+            <p className="apply-note">
+              The message was edited after this check. Run the check again to apply suggestions.
+            </p>
+          )}
+          {issues.map((issue, index) => (
+            <div
+              key={index}
+              id={`issue-${index}`}
+              className={`issue-item ${activeIssue === index ? 'issue-active' : ''}`}
+              onMouseEnter={() => setActiveIssue(index)}
+              onMouseLeave={() => setActiveIssue(null)}
+            >
               <div className="issue-header">
                 <span className={`severity-badge ${getSeverityColor(issue.severity)}`}>
                   {issue.severity.toUpperCase()}
                 </span>
-                <span className="category-badge">
-                  {issue.category.replace('_', ' ').toUpperCase()}
+                <span
+                  className={`category-badge ${REPLY_CATEGORIES.includes(issue.category) ? 'category-reply' : ''}`}
+                >
+                  {ISSUE_CATEGORY_LABELS[issue.category] || issue.category}
                 </span>
+                {issue.rule ? (
+                  <span className="source-badge" title={`Rule id: ${issue.rule.id}`}>
+                    Rule: {issue.rule.name}
+                  </span>
+                ) : issue.source === 'local' && (
+                  <span className="source-badge">Built-in check</span>
+                )}
                 <span className="confidence">
                   {Math.round(issue.confidence * 100)}% confident
                 </span>
               </div>
               <div className="issue-content">
-                <p className="problem"><strong>Problem:</strong> {issue.problem}</p>
-                <p className="suggestion"><strong>Suggestion:</strong> {issue.suggestion}</p>
+                <p className="problem"><strong>Problem:</strong> <bdi>{issue.problem}</bdi></p>
+                <p className="suggestion"><strong>Suggestion:</strong> <bdi>{issue.suggestion}</bdi></p>
+                {issue.spans && issue.spans.length > 0 && (
+                  <div className="issue-quotes">
+                    {issue.spans.map(span => (
+                      <button
+                        key={span.start}
+                        type="button"
+                        className="quote-link"
+                        onClick={() => scrollToHighlight(index)}
+                      >
+                        “{span.quote}”
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {issue.replacement && (
+                  <div className="replacement">
+                    <span className="replacement-preview">
+                      <del>{issue.replacement.quote}</del> → <ins>{issue.replacement.text || '(remove)'}</ins>
+                    </span>
+                    {onApply && (
+                      <button
+                        type="button"
+                        className="apply-button"
+                        onClick={() => onApply(index)}
+                        disabled={!canApply || isApplyBlocked(index)}
+                      >
+                        {appliedIssues.includes(index) ? 'Applied' : 'Apply'}
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           ))}
         </div>
       )}
 
-      {!result.hasIssues && (
+      {message && correctedMessage !== undefined && appliedIssues.length > 0 && (
+        <MessageDiff original={message} corrected={correctedMessage} />
+      )}
+
+      {result && !result.hasIssues && (
         <div className="no-issues">
           <h3>✅ No Issues Found</h3>
           <p>Your message looks good to go!</p>
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Platform, PLATFORMS } from '../types';
+import { parseCsv, parseCsvRecords } from '../utils/csv';
+import { PLATFORM_PROFILES } from '../utils/platforms';
+import { checkTemplate, renderTemplate } from '../utils/template';
+
+interface TemplateInputProps {
+  template: string;
+  onTemplateChange: (template: string) => void;
+  platform: Platform | '';
+  onPlatformChange: (platform: Platform | '') => void;
+  rows: Array<Record<string, string>>;
+  columns: string[];
+  onRowsChange: (rows: Array<Record<string, string>>, columns: string[]) => void;
+}
+
+export function TemplateInput({
+  template,
+  onTemplateChange,
+  platform,
+  onPlatformChange,
+  rows,
+  columns,
+  onRowsChange,
+}: TemplateInputProps) {
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState('');
+  const report = checkTemplate(template, columns);
+  const preview = rows.length > 0 ? renderTemplate(template, rows[0]) : null;
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setFileError('');
+    setFileName(file.name);
+    const text = await file.text();
+    const header = parseCsv(text)[0] || [];
+    const records = parseCsvRecords(text);
+    if (records.length === 0) {
+      setFileError('The CSV needs a header row and at least one recipient');
+    }
+    onRowsChange(records, header.map(column => column.trim().toLowerCase()).filter(Boolean));
+  };
+
+  return (
+    <div className="template-input">
+      <div className="input-group">
+        <label htmlFor="template">Template</label>
+        <textarea
+          id="template"
+          value={template}
+          onChange={(e) => onTemplateChange(e.target.value)}
+          placeholder={"Hi {{first_name}},\n\nI loved {{company}}'s work on..."}
+          rows={8}
+          className="context-textarea"
+        />
+      </div>
+
+      <div className="platform-select">
+        <label htmlFor="template-platform">Platform (optional)</label>
+        <select
+          id="template-platform"
+          value={platform}
+          onChange={(e) => onPlatformChange(e.target.value as Platform | '')}
+        >
+          <option value="">Select platform...</option>
+          {PLATFORMS.map(id => (
+            <option key={id} value={id}>{PLATFORM_PROFILES[id].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="eml-upload batch-upload">
+        {fileName ? `Recipients: ${fileName} (${rows.length} rows)` : 'Choose recipients CSV'}
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      {fileError && <div className="error-message">⚠️ {fileError}</div>}
+
+      {template.trim() && (
+        <ul className="template-report">
+          {report.variables.length === 0 && (
+            <li className="template-warning">The template has no {'{{variables}}'}</li>
+          )}
+          {columns.length > 0 && report.missing.length > 0 && (
+            <li className="template-problem">
+              No column for: {report.missing.map(name => `{{${name}}}`).join(', ')}
+            </li>
+          )}
+          {report.malformed.length > 0 && (
+            <li className="template-problem">Broken placeholders: {report.malformed.join(', ')}</li>
+          )}
+          {report.unused.length > 0 && (
+            <li className="template-warning">Unused columns: {report.unused.join(', ')}</li>
+          )}
+          {columns.length > 0 && report.variables.length > 0 && report.missing.length === 0 && report.malformed.length === 0 && (
+            <li className="template-ok">Every variable has a column</li>
+          )}
+        </ul>
+      )}
+
+      {preview && template.trim() && (
+        <div className="template-preview">
+          <div className="template-preview-label">Preview (row 1)</div>
+          <pre>{preview.text}</pre>
+        </div>
+      )}
+    </div>
+  );
+}
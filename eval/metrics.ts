@@ -0,0 +1,147 @@
+// Scoring for the eval harness: per-category precision and recall of the
+// issues an analysis reports against the labelled corpus
+
+import { IssueCategory, IssueSeverity, MessageContext, SanityIssue } from '../types';
+
+export interface EvalCase {
+  id: string;
+  message: string;
+  context?: MessageContext;
+  platform?: string;
+  // The issues a careful reviewer would raise; empty for a clean message
+  expected: Array<{ category: IssueCategory; severity: IssueSeverity }>;
+}
+
+export interface CategoryMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  // Null when nothing was predicted (precision) or expected (recall)
+  precision: number | null;
+  recall: number | null;
+  // Matched issues whose severity agreed with the label
+  severityAccuracy: number | null;
+}
+
+export interface EvalMetrics {
+  overall: CategoryMetrics;
+  categories: Record<string, CategoryMetrics>;
+}
+
+export interface CaseOutcome {
+  id: string;
+  expected: IssueCategory[];
+  predicted: IssueCategory[];
+  // e.g. "tone: expected high, got medium"
+  severityMismatches: string[];
+  error?: string;
+}
+
+interface Counts {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  severityMatches: number;
+}
+
+const SEVERITY_RANK: Record<IssueSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+function toMetrics(counts: Counts): CategoryMetrics {
+  return {
+    truePositives: counts.truePositives,
+    falsePositives: counts.falsePositives,
+    falseNegatives: counts.falseNegatives,
+    precision: ratio(counts.truePositives, counts.truePositives + counts.falsePositives),
+    recall: ratio(counts.truePositives, counts.truePositives + counts.falseNegatives),
+    severityAccuracy: ratio(counts.severityMatches, counts.truePositives)
+  };
+}
+
+// Issues are compared by category. Several issues of one category count once,
+// at the highest severity reported.
+export function scoreCase(evalCase: EvalCase, issues: SanityIssue[]): CaseOutcome {
+  const predicted = new Map<IssueCategory, IssueSeverity>();
+  for (const issue of issues) {
+    const current = predicted.get(issue.category);
+    if (!current || SEVERITY_RANK[issue.severity] > SEVERITY_RANK[current]) {
+      predicted.set(issue.category, issue.severity);
+    }
+  }
+
+  const severityMismatches = evalCase.expected
+    .filter(label => predicted.has(label.category) && predicted.get(label.category) !== label.severity)
+    .map(label => `${label.category}: expected ${label.severity}, got ${predicted.get(label.category)}`);
+
+  return {
+    id: evalCase.id,
+    expected: Array.from(new Set(evalCase.expected.map(label => label.category))),
+    predicted: Array.from(predicted.keys()),
+    severityMismatches
+  };
+}
+
+export function computeMetrics(outcomes: CaseOutcome[]): EvalMetrics {
+  const empty = (): Counts => ({ truePositives: 0, falsePositives: 0, falseNegatives: 0, severityMatches: 0 });
+  const overall = empty();
+  const byCategory = new Map<string, Counts>();
+  const countsFor = (category: string) => {
+    if (!byCategory.has(category)) byCategory.set(category, empty());
+    return byCategory.get(category)!;
+  };
+
+  for (const outcome of outcomes) {
+    // Errored cases count as predicting nothing
+    const predicted = outcome.error ? [] : outcome.predicted;
+    const mismatched = new Set(outcome.severityMismatches.map(mismatch => mismatch.split(':')[0]));
+
+    for (const category of new Set([...outcome.expected, ...predicted])) {
+      const counts = countsFor(category);
+      const isExpected = outcome.expected.includes(category);
+      const isPredicted = predicted.includes(category);
+      const field = isExpected && isPredicted ? 'truePositives' : isPredicted ? 'falsePositives' : 'falseNegatives';
+      counts[field]++;
+      overall[field]++;
+      if (isExpected && isPredicted && !mismatched.has(category)) {
+        counts.severityMatches++;
+        overall.severityMatches++;
+      }
+    }
+  }
+
+  const categories: Record<string, CategoryMetrics> = {};
+  for (const category of Array.from(byCategory.keys()).sort()) {
+    categories[category] = toMetrics(byCategory.get(category)!);
+  }
+  return { overall: toMetrics(overall), categories };
+}
+
+// A metric regresses when it drops more than `tolerance` below the baseline.
+// Metrics that are null on either side are not compared.
+export function findRegressions(current: EvalMetrics, baseline: EvalMetrics, tolerance: number): string[] {
+  const regressions: string[] = [];
+  const compare = (name: string, now?: CategoryMetrics, before?: CategoryMetrics) => {
+    for (const metric of ['precision', 'recall'] as const) {
+      const was = before?.[metric];
+      // A category that disappeared entirely was no longer found at all
+      const is = now ? now[metric] : metric === 'recall' ? 0 : null;
+      if (was === null || was === undefined || is === null) continue;
+      if (is < was - tolerance) {
+        regressions.push(`${name} ${metric}: ${formatRatio(was)} -> ${formatRatio(is)}`);
+      }
+    }
+  };
+
+  compare('overall', current.overall, baseline.overall);
+  for (const [category, metrics] of Object.entries(baseline.categories)) {
+    compare(category, current.categories[category], metrics);
+  }
+  return regressions;
+}
+
+export function formatRatio(value: number | null): string {
+  return value === null ? '  -  ' : value.toFixed(3);
+}
@@ -0,0 +1,71 @@
+// Offline providers for the eval harness. A recording maps a hash of the
+// exact request (all messages, so prompt changes invalidate it) to the
+// model's reply; `--record` captures one from a live provider. The random
+// id of the input blocks is left out of the hash.
+
+import crypto from 'crypto';
+import { CompletionRequest, CompletionResponse, LLMProvider } from '../utils/llmProvider';
+import { BOUNDARY_PATTERN } from '../utils/promptSecurity';
+
+export interface Recording {
+  promptVersion: string;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  responses: Record<string, { caseId: string; content: string }>;
+}
+
+export class MissingRecordingError extends Error {
+  constructor(caseId: string) {
+    super(`No recorded response for case "${caseId}" with this prompt; re-record with --record`);
+    this.name = 'MissingRecordingError';
+  }
+}
+
+export function requestHash(request: CompletionRequest): string {
+  const messages = JSON.stringify(request.messages).replace(BOUNDARY_PATTERN, 'untrusted-boundary');
+  return crypto.createHash('sha256').update(messages).digest('hex');
+}
+
+// Plays back a recording. `currentCase` names the case being run, for errors.
+export function createReplayProvider(recording: Recording, currentCase: () => string): LLMProvider {
+  const complete = async (request: CompletionRequest): Promise<CompletionResponse> => {
+    const entry = recording.responses[requestHash(request)];
+    if (!entry) throw new MissingRecordingError(currentCase());
+    return { content: entry.content, model: recording.model };
+  };
+
+  return {
+    name: 'mock',
+    model: recording.model,
+    complete,
+    async completeStream(request, onDelta) {
+      const response = await complete(request);
+      onDelta(response.content);
+      return response;
+    }
+  };
+}
+
+// Passes requests through to `provider` and adds every reply to `recording`
+export function createRecordingProvider(
+  provider: LLMProvider,
+  recording: Recording,
+  currentCase: () => string
+): LLMProvider {
+  const record = (request: CompletionRequest, response: CompletionResponse) => {
+    recording.responses[requestHash(request)] = { caseId: currentCase(), content: response.content };
+    return response;
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(request) {
+      return record(request, await provider.complete(request));
+    },
+    async completeStream(request, onDelta) {
+      return record(request, await provider.completeStream(request, onDelta));
+    }
+  };
+}
@@ -0,0 +1,204 @@
+// Offline evaluation of the analysis pipeline on the labelled corpus.
+//
+//   npm run eval                          # recorded replies if present, else mock
+//   npm run eval -- --provider mock       # built-in checks only, fully deterministic
+//   npm run eval -- --record              # call the configured LLM and save its replies
+//   npm run eval -- --prompt-version v1   # evaluate another prompt version
+//   npm run eval -- --analysis multi      # the checkers instead of one model call
+//   npm run eval -- --update-baseline     # accept the current metrics
+//
+// Exits non-zero when precision or recall drops below the baseline by more
+// than --tolerance (default 0.02), or when a case could not be run.
+
+import fs from 'fs';
+import path from 'path';
+import { AnalysisMode, resolveAnalysisMode, runAnalysis } from '../utils/analysisOrchestrator';
+import { createMockProvider, getLLMProvider, LLMProvider } from '../utils/llmProvider';
+import { validateMessageContext } from '../utils/messageContext';
+import { parsePlatform } from '../utils/platforms';
+import { getPromptTemplate } from '../utils/prompts';
+import { CaseOutcome, computeMetrics, EvalCase, EvalMetrics, findRegressions, formatRatio, scoreCase } from './metrics';
+import { createRecordingProvider, createReplayProvider, Recording } from './providers';
+
+type ProviderMode = 'mock' | 'recorded';
+
+interface Baseline {
+  promptVersion: string;
+  updatedAt: string;
+  metrics: EvalMetrics;
+}
+
+const EVAL_DIR = __dirname;
+const CORPUS_PATH = path.join(EVAL_DIR, 'corpus.json');
+const BASELINE_PATH = path.join(EVAL_DIR, 'baseline.json');
+
+function parseArgs(argv: string[]) {
+  const value = (name: string) => {
+    const index = argv.indexOf(name);
+    return index === -1 ? undefined : argv[index + 1];
+  };
+  return {
+    provider: value('--provider') as ProviderMode | undefined,
+    promptVersion: value('--prompt-version'),
+    analysis: value('--analysis') as AnalysisMode | undefined,
+    tolerance: Number(value('--tolerance') ?? 0.02),
+    record: argv.includes('--record'),
+    updateBaseline: argv.includes('--update-baseline'),
+    verbose: argv.includes('--verbose')
+  };
+}
+
+function readJson<T>(filePath: string): T | null {
+  return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : null;
+}
+
+function writeJson(filePath: string, value: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(value, null, 2) + '\n');
+}
+
+function printMetrics(metrics: EvalMetrics) {
+  const row = (name: string, m: EvalMetrics['overall']) =>
+    [
+      name.padEnd(28),
+      formatRatio(m.precision).padStart(9),
+      formatRatio(m.recall).padStart(8),
+      formatRatio(m.severityAccuracy).padStart(10),
+      String(m.truePositives).padStart(5),
+      String(m.falsePositives).padStart(5),
+      String(m.falseNegatives).padStart(5)
+    ].join(' ');
+
+  console.log(`${'category'.padEnd(28)} precision   recall   severity    TP    FP    FN`);
+  for (const [category, m] of Object.entries(metrics.categories)) console.log(row(category, m));
+  console.log(row('overall', metrics.overall));
+}
+
+function printOutcome(outcome: CaseOutcome) {
+  if (outcome.error) {
+    console.log(`  ${outcome.id}: ERROR ${outcome.error}`);
+    return;
+  }
+  const missed = outcome.expected.filter(category => !outcome.predicted.includes(category));
+  const extra = outcome.predicted.filter(category => !outcome.expected.includes(category));
+  const notes = [
+    missed.length > 0 && `missed ${missed.join(', ')}`,
+    extra.length > 0 && `unexpected ${extra.join(', ')}`,
+    ...outcome.severityMismatches
+  ].filter(Boolean);
+  console.log(`  ${outcome.id}: ${notes.length > 0 ? notes.join('; ') : 'ok'}`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const promptVersion = getPromptTemplate(args.promptVersion).version;
+  const analysisMode = resolveAnalysisMode(promptVersion, args.analysis);
+  // The two modes send different requests, so they are recorded separately
+  const recordingPath = path.join(EVAL_DIR, 'recordings', `${promptVersion}-${analysisMode}.json`);
+  const cases = readJson<EvalCase[]>(CORPUS_PATH) || [];
+
+  let mode: ProviderMode = args.record ? 'recorded' : args.provider || (fs.existsSync(recordingPath) ? 'recorded' : 'mock');
+  let currentCase = '';
+  let provider: LLMProvider;
+  let recording: Recording | null = null;
+
+  if (args.record) {
+    const live = getLLMProvider();
+    recording = {
+      promptVersion,
+      provider: live.name,
+      model: live.model,
+      recordedAt: new Date().toISOString(),
+      responses: {}
+    };
+    provider = createRecordingProvider(live, recording, () => currentCase);
+  } else if (mode === 'recorded') {
+    const saved = readJson<Recording>(recordingPath);
+    if (!saved) {
+      console.error(`No recording for prompt ${promptVersion} at ${recordingPath}. Run with --record first.`);
+      process.exit(1);
+    }
+    provider = createReplayProvider(saved, () => currentCase);
+  } else {
+    mode = 'mock';
+    provider = createMockProvider();
+  }
+
+  console.log(`Prompt ${promptVersion} · ${analysisMode}-pass · ${mode} provider (${provider.model}) · ${cases.length} cases\n`);
+
+  const outcomes: CaseOutcome[] = [];
+  for (const evalCase of cases) {
+    currentCase = evalCase.id;
+    const { context, errors } = validateMessageContext(evalCase.context ?? {});
+    if (!context) {
+      outcomes.push({ ...scoreCase(evalCase, []), error: `invalid context: ${errors.join('; ')}` });
+      continue;
+    }
+    try {
+      const analysis = await runAnalysis(
+        { message: evalCase.message, context, platform: parsePlatform(evalCase.platform), promptVersion },
+        provider,
+        { mode: analysisMode }
+      );
+      outcomes.push(analysis.success
+        ? scoreCase(evalCase, analysis.result!.issues)
+        : { ...scoreCase(evalCase, []), error: analysis.errorCode || analysis.error });
+    } catch (error) {
+      outcomes.push({ ...scoreCase(evalCase, []), error: (error as Error).message });
+    }
+  }
+
+  if (recording) {
+    writeJson(recordingPath, recording);
+    console.log(`Recorded ${Object.keys(recording.responses).length} responses to ${recordingPath}\n`);
+  }
+
+  const metrics = computeMetrics(outcomes);
+  printMetrics(metrics);
+
+  const failed = outcomes.filter(outcome => outcome.error);
+  const imperfect = outcomes.filter(outcome =>
+    outcome.error ||
+    outcome.severityMismatches.length > 0 ||
+    outcome.expected.length !== outcome.predicted.length ||
+    outcome.expected.some(category => !outcome.predicted.includes(category))
+  );
+  if (args.verbose || imperfect.length > 0) {
+    console.log(args.verbose ? '\nCases:' : '\nCases that did not match their labels:');
+    (args.verbose ? outcomes : imperfect).forEach(printOutcome);
+  }
+
+  const baselines = readJson<Record<string, Baseline>>(BASELINE_PATH) || {};
+  const baselineKey = `${mode}-${analysisMode}`;
+  if (args.updateBaseline) {
+    if (failed.length > 0) {
+      console.error(`\nNot updating the baseline: ${failed.length} case(s) failed to run.`);
+      process.exit(1);
+    }
+    baselines[baselineKey] = { promptVersion, updatedAt: new Date().toISOString(), metrics };
+    writeJson(BASELINE_PATH, baselines);
+    console.log(`\nBaseline ${baselineKey} updated.`);
+    return;
+  }
+
+  const baseline = baselines[baselineKey];
+  if (!baseline) {
+    console.log(`\nNo ${baselineKey} baseline yet; run with --update-baseline to create one.`);
+    process.exit(failed.length > 0 ? 1 : 0);
+  }
+
+  const regressions = findRegressions(metrics, baseline.metrics, args.tolerance);
+  console.log(`\nCompared with the ${baselineKey} baseline (prompt ${baseline.promptVersion}, tolerance ${args.tolerance}):`);
+  if (regressions.length > 0) {
+    regressions.forEach(regression => console.log(`  REGRESSION ${regression}`));
+  } else {
+    console.log('  no regressions');
+  }
+  if (failed.length > 0) console.log(`  ${failed.length} case(s) could not be run`);
+  process.exit(regressions.length > 0 || failed.length > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+// Checks prompt-injection handling on labelled benign and adversarial samples.
+//
+//   npm run eval:security
+//   npm run eval:security -- --verbose   # list every sample with its signals
+//
+// Each sample is expected to "pass" (analyzed without a warning), "flag"
+// (analyzed with a warning) or "reject" (refused) under the default
+// PROMPT_RISK_REJECT_LEVEL. Benign samples must also survive sanitization
+// unchanged. Exits non-zero when a benign sample is flagged or altered, or
+// an adversarial one scores below its label.
+
+import fs from 'fs';
+import path from 'path';
+import { assessRisk, RiskAssessment, sanitizeInput, shouldRejectRisk } from '../utils/promptSecurity';
+
+type Outcome = 'pass' | 'flag' | 'reject';
+
+interface SecuritySample {
+  id: string;
+  kind: 'benign' | 'adversarial';
+  // Where the text is submitted, e.g. "message" or "context.notes"
+  field: string;
+  text: string;
+  expected: Outcome;
+}
+
+const OUTCOMES: Outcome[] = ['pass', 'flag', 'reject'];
+const CORPUS_PATH = path.join(__dirname, 'security-corpus.json');
+
+function outcomeOf(risk: RiskAssessment): Outcome {
+  // Labels assume the default configuration, whatever the environment says
+  if (shouldRejectRisk(risk, {} as NodeJS.ProcessEnv)) return 'reject';
+  return risk.level === 'high' || risk.level === 'critical' ? 'flag' : 'pass';
+}
+
+function main() {
+  const verbose = process.argv.includes('--verbose');
+  const samples: SecuritySample[] = JSON.parse(fs.readFileSync(CORPUS_PATH, 'utf8'));
+  const failures: string[] = [];
+  const counts = { benign: 0, adversarial: 0, falsePositives: 0, falseNegatives: 0 };
+
+  for (const sample of samples) {
+    counts[sample.kind]++;
+    const risk = assessRisk([[sample.field, sample.text]]);
+    const outcome = outcomeOf(risk);
+    const rank = OUTCOMES.indexOf(outcome) - OUTCOMES.indexOf(sample.expected);
+    const line = `${sample.id.padEnd(38)} ${sample.expected.padEnd(6)} -> ${outcome.padEnd(6)} ${String(risk.score).padStart(3)}  ${risk.signals.join(', ')}`;
+
+    if (sample.kind === 'benign' && outcome !== 'pass') {
+      counts.falsePositives++;
+      failures.push(`FALSE POSITIVE ${line}`);
+    } else if (sample.kind === 'adversarial' && rank < 0) {
+      counts.falseNegatives++;
+      failures.push(`FALSE NEGATIVE ${line}`);
+    } else if (sample.kind === 'benign' && sanitizeInput(sample.text) !== sample.text.trim()) {
+      failures.push(`ALTERED        ${sample.id}: sanitization changed a benign sample`);
+    } else if (verbose || rank !== 0) {
+      // Stricter than labelled is allowed but worth seeing
+      console.log(`${rank === 0 ? 'ok            ' : 'STRICTER      '} ${line}`);
+    }
+  }
+
+  console.log(`\n${counts.benign} benign, ${counts.adversarial} adversarial samples`);
+  console.log(`False positives: ${counts.falsePositives}/${counts.benign}`);
+  console.log(`False negatives: ${counts.falseNegatives}/${counts.adversarial}`);
+  if (failures.length > 0) {
+    console.log('');
+    failures.forEach(failure => console.log(failure));
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,10 +1,37 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import * as cheerio from 'cheerio';
+import { extractPage } from '../../utils/extractors';
 import {
   validateUrlExtractionInput,
   handleValidationError,
+  setRateLimitHeaders,
   validateUrl,
 } from '../../utils/inputValidation';
+import { safeFetch, SafeFetchError, SafeFetchResponse } from '../../utils/safeFetch';
+import { cacheKey, CacheStatus, readCache, readTtl, wantsCacheBypass, writeCache } from '../../utils/cacheStore';
+import { canonicalizeUrl } from '../../utils/urlDetection';
+
+// Extractions are served from the cache while fresh, then revalidated with
+// the page's ETag/Last-Modified. Entries are kept longer than they are fresh
+// so there is something to revalidate.
+const EXTRACTION_CACHE_TTL_MS = readTtl('EXTRACTION_CACHE_TTL_MS', 60 * 60 * 1000);
+const EXTRACTION_RETAIN_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface CachedExtraction {
+  // The successful response body
+  body: Record<string, unknown>;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number;
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function sendExtraction(res: NextApiResponse, body: Record<string, unknown>, cache: CacheStatus) {
+  res.setHeader('X-Cache', cache);
+  res.status(200).json({ ...body, cached: cache === 'HIT' || cache === 'REVALIDATED' });
+}
 
 // Helper function to detect login redirects
 const isLoginRedirect = (url: string): boolean => {
@@ -24,6 +51,25 @@ const isLoginRedirect = (url: string): boolean => {
   return loginPatterns.some((pattern) => urlLower.includes(pattern));
 };
 
+// What users see when the fetcher refuses or fails; the errorType tells them apart
+const SAFE_FETCH_MESSAGES: Partial<Record<SafeFetchError['errorType'], string>> = {
+  blocked_protocol: 'Please enter a valid URL starting with http:// or https://',
+  blocked_port: 'URLs on non-standard ports cannot be fetched',
+  blocked_credentials: 'URLs containing a username or password cannot be fetched',
+  blocked_hostname: 'Internal hostnames cannot be fetched',
+  blocked_private_address: 'This URL points to a private network address and cannot be fetched',
+  blocked_loopback_address: 'This URL points to the local machine and cannot be fetched',
+  blocked_link_local_address: 'This URL points to a link-local address and cannot be fetched',
+  blocked_metadata_address: 'This URL points to a cloud metadata service and cannot be fetched',
+  blocked_reserved_address: 'This URL points to a reserved address and cannot be fetched',
+  dns_resolution_failed: 'Could not find that website - please check the URL',
+  too_many_redirects: 'The page redirected too many times',
+  invalid_redirect: 'The page redirected to an invalid address',
+  response_too_large: 'The page is too large to extract',
+  unsupported_content_type: 'This URL is not a web page that can be read',
+  timeout: 'Request timed out - the page took too long to load',
+};
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -33,10 +79,11 @@ export default async function handler(
   }
 
   // Unified input validation
-  const validation = validateUrlExtractionInput(req, req.body);
+  const validation = await validateUrlExtractionInput(req, req.body);
   if (!validation.isValid) {
     return handleValidationError(res, validation);
   }
+  setRateLimitHeaders(res, validation.rateLimit);
 
   const { url } = validation.sanitizedInputs!;
 
@@ -46,23 +93,35 @@ export default async function handler(
     return res.status(400).json({ error: urlValidation.error });
   }
 
+  const key = cacheKey('extraction', canonicalizeUrl(url));
+  const bypassCache = wantsCacheBypass(req.headers, req.body);
+  const cached = bypassCache ? null : await readCache<CachedExtraction>(key);
+  if (cached && Date.now() - cached.fetchedAt < EXTRACTION_CACHE_TTL_MS) {
+    return sendExtraction(res, cached.body, 'HIT');
+  }
+
   try {
     const urlObj = new URL(url);
 
-    // Fetch the page with timeout and user agent
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-    const response = await fetch(url, {
-      signal: controller.signal,
+    // Fetch the page without letting the URL (or its redirects) reach
+    // private, loopback or metadata addresses
+    const response: SafeFetchResponse = await safeFetch(url, {
+      timeoutMs: 10000,
       headers: {
         'User-Agent': 'Mozilla/5.0 (compatible; SanityCheck/1.0)',
         Accept:
-          'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+          'text/html,application/xhtml+xml,text/plain;q=0.9',
+        ...(cached?.etag ? { 'If-None-Match': cached.etag } : {}),
+        ...(cached?.lastModified ? { 'If-Modified-Since': cached.lastModified } : {}),
       },
     });
 
-    clearTimeout(timeoutId);
+    // Unchanged since it was cached
+    if (response.status === 304 && cached) {
+      const body = { ...cached.body, retrievedAt: new Date().toISOString() };
+      await writeCache(key, { ...cached, body, fetchedAt: Date.now() }, EXTRACTION_RETAIN_MS);
+      return sendExtraction(res, body, 'REVALIDATED');
+    }
 
     // Handle authentication and authorization responses
     if (response.status === 401 || response.status === 403) {
@@ -102,37 +161,9 @@ export default async function handler(
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
-    const html = await response.text();
-
-    // Use cheerio for better HTML parsing
-    const $ = cheerio.load(html);
-
-    // Remove unwanted elements
-    $(
-      'script, style, nav, header, footer, aside, .advertisement, .ads'
-    ).remove();
-
-    // Extract meaningful content with priority
-    let content = '';
-
-    // Try to get job posting specific content first
-    const jobContent = $(
-      '.job-description, .job-details, .posting-description, [data-testid="job-description"]'
-    ).text();
-    if (jobContent && jobContent.length > 100) {
-      content = jobContent;
-    } else {
-      // Fallback to main content areas
-      const mainContent = $(
-        'main, .main-content, .content, article, .post-content'
-      ).text();
-      if (mainContent && mainContent.length > 100) {
-        content = mainContent;
-      } else {
-        // Last resort - body text
-        content = $('body').text();
-      }
-    }
+    // Site-specific and structured-data extractors, with a generic fallback
+    const page = extractPage(response.body, response.url);
+    const content = page.text;
 
     // Clean up the text
     const cleanContent = content
@@ -147,20 +178,36 @@ export default async function handler(
     // Limit content size to avoid token limits
     const truncatedContent = cleanContent.slice(0, 4000);
 
-    res.status(200).json({
+    const body = {
       success: true,
       content: truncatedContent,
       source: urlObj.hostname,
+      // Provenance for the context source: where the content actually came from
+      url: response.url,
+      retrievedAt: new Date().toISOString(),
       contentLength: cleanContent.length,
-    });
+      fields: page.fields,
+      extractors: page.extractors,
+    };
+    const entry: CachedExtraction = {
+      body,
+      etag: firstHeader(response.headers.etag),
+      lastModified: firstHeader(response.headers['last-modified']),
+      fetchedAt: Date.now(),
+    };
+    await writeCache(key, entry, EXTRACTION_RETAIN_MS);
+    sendExtraction(res, body, bypassCache ? 'BYPASS' : 'MISS');
   } catch (error) {
     console.error('URL extraction error:', error);
 
     // Return structured error for frontend handling
     let errorMessage = 'Failed to extract content from URL';
-    let errorType = 'network';
+    let errorType: string = 'network';
 
-    if ((error as Error).name === 'AbortError') {
+    if (error instanceof SafeFetchError) {
+      errorType = error.errorType;
+      errorMessage = SAFE_FETCH_MESSAGES[error.errorType] || error.message;
+    } else if ((error as Error).name === 'AbortError') {
       errorMessage = 'Request timed out - the page took too long to load';
       errorType = 'timeout';
     } else if ((error as Error).message.includes('HTTP')) {
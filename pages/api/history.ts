@@ -0,0 +1,85 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleValidationError, setRateLimitHeaders, validateHistoryInput } from '../../utils/inputValidation';
+import { MAX_HISTORY_ENTRIES, searchHistory, validateHistoryEntry } from '../../utils/history';
+import { getHistoryStore, resolveHistoryOwner } from '../../utils/historyStore';
+
+function parseLimit(value: unknown): number {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_HISTORY_ENTRIES) : MAX_HISTORY_ENTRIES;
+}
+
+// GET    /api/history?q=...&draftId=...&limit=50  - entries, newest first
+// GET    /api/history?id=...                      - one entry
+// POST   /api/history                             - save an entry (replaces one with the same id)
+// DELETE /api/history?id=...                      - delete an entry; without id, delete them all
+// Requests are scoped to the API key, or else to the X-History-Token header.
+// Returns 404 HISTORY_DISABLED unless HISTORY_STORE is set. Rate limited
+// per client like the other endpoints.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const store = getHistoryStore();
+  if (!store) {
+    return res.status(404).json({ error: 'Server-side history is not enabled', code: 'HISTORY_DISABLED' });
+  }
+
+  const validation = await validateHistoryInput(req);
+  if (!validation.isValid) {
+    return handleValidationError(res, validation);
+  }
+  setRateLimitHeaders(res, validation.rateLimit);
+
+  const owner = await resolveHistoryOwner(req);
+  if (owner.status === 'none') {
+    return res.status(401).json({ error: 'An API key or X-History-Token header is required', code: 'HISTORY_TOKEN_REQUIRED' });
+  }
+  if (owner.status === 'invalid') {
+    return res.status(401).json({ error: 'Invalid API key or history token', code: 'UNAUTHORIZED' });
+  }
+
+  const id = typeof req.query.id === 'string' ? req.query.id : '';
+  try {
+    if (req.method === 'GET') {
+      const entries = await store.list(owner.owner);
+      if (id) {
+        const entry = entries.find(item => item.id === id);
+        return entry
+          ? res.status(200).json(entry)
+          : res.status(404).json({ error: 'History entry not found', code: 'NOT_FOUND' });
+      }
+      const query = typeof req.query.q === 'string' ? req.query.q : '';
+      const draftId = typeof req.query.draftId === 'string' ? req.query.draftId : '';
+      const matching = searchHistory(
+        entries.filter(entry => !draftId || entry.draftId === draftId),
+        query,
+        parseLimit(req.query.limit)
+      );
+      return res.status(200).json({ entries: matching, store: store.name });
+    }
+
+    if (req.method === 'POST') {
+      const { entry, errors } = validateHistoryEntry(req.body);
+      if (!entry) {
+        return res.status(400).json({ error: 'Invalid history entry', code: 'INVALID_HISTORY_ENTRY', violations: errors });
+      }
+      await store.save(owner.owner, entry);
+      return res.status(201).json(entry);
+    }
+
+    if (!id) {
+      return res.status(200).json({ deleted: await store.clear(owner.owner) });
+    }
+    if (!(await store.remove(owner.owner, id))) {
+      return res.status(404).json({ error: 'History entry not found', code: 'NOT_FOUND' });
+    }
+    res.status(200).json({ deleted: 1 });
+  } catch (error) {
+    console.error('History store error:', error);
+    res.status(500).json({ error: 'Failed to access history' });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { emailToDraft, looksLikeEmail, parseEmail } from '../../utils/emlParser';
+import {
+  validateEmailImportInput,
+  handleValidationError,
+  setRateLimitHeaders,
+} from '../../utils/inputValidation';
+
+// .eml files carry their attachments base64-encoded
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '10mb' },
+  },
+};
+
+// Parses an .eml draft into the message to check and its structured context.
+// Accepts the raw message (`Content-Type: message/rfc822` or `text/plain`) or
+// JSON `{ "eml": "..." }`.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const validation = await validateEmailImportInput(req);
+  if (!validation.isValid) {
+    return handleValidationError(res, validation);
+  }
+  setRateLimitHeaders(res, validation.rateLimit);
+
+  const raw = typeof req.body === 'string' ? req.body : req.body?.eml;
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return res.status(400).json({ error: 'eml is required', code: 'MISSING_REQUIRED_FIELD' });
+  }
+  if (!looksLikeEmail(raw)) {
+    return res.status(400).json({
+      error: 'This does not look like an email message (no From or Subject header found)',
+      code: 'INVALID_EMAIL',
+    });
+  }
+
+  try {
+    const email = parseEmail(raw);
+    const draft = emailToDraft(email);
+    if (!draft.message) {
+      return res.status(422).json({ error: 'The email has no readable text', code: 'EMPTY_EMAIL' });
+    }
+
+    // The body is already in `message`; return only the metadata
+    const { body, ...metadata } = email;
+    res.status(200).json({ success: true, ...draft, email: metadata });
+  } catch (error) {
+    console.error('Email import error:', error);
+    res.status(400).json({
+      error: 'Failed to parse email',
+      code: 'INVALID_EMAIL',
+      details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
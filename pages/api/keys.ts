@@ -0,0 +1,70 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ApiKeyOptions, createApiKey, listApiKeys, revokeApiKey } from '../../utils/apiKeys';
+import { isAdminRequest } from '../../utils/sessionManager';
+
+function optionalPositiveInteger(value: unknown, field: string, errors: string[]): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    errors.push(`${field} must be a positive integer`);
+    return undefined;
+  }
+  return value;
+}
+
+function parseKeyOptions(body: any): { options?: ApiKeyOptions; errors: string[] } {
+  const errors: string[] = [];
+  if (!body || typeof body.name !== 'string' || !body.name.trim() || body.name.length > 100) {
+    errors.push('name is required (at most 100 characters)');
+  }
+
+  const options: ApiKeyOptions = {
+    name: typeof body?.name === 'string' ? body.name.trim() : '',
+    rateLimitMax: optionalPositiveInteger(body?.rateLimitMax, 'rateLimitMax', errors),
+    rateLimitWindowMs: optionalPositiveInteger(body?.rateLimitWindowMs, 'rateLimitWindowMs', errors),
+    monthlyTokenQuota: optionalPositiveInteger(body?.monthlyTokenQuota, 'monthlyTokenQuota', errors)
+  };
+
+  return errors.length > 0 ? { errors } : { options, errors };
+}
+
+// GET    /api/keys         - list keys (never includes the key itself)
+// POST   /api/keys         - issue a key; the response is the only time it is shown
+// DELETE /api/keys?id=...  - revoke a key
+// All methods require the admin token.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Admin token required', code: 'UNAUTHORIZED' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ keys: await listApiKeys() });
+    }
+
+    if (req.method === 'POST') {
+      const { options, errors } = parseKeyOptions(req.body);
+      if (!options) {
+        return res.status(400).json({ error: 'Invalid key options', code: 'INVALID_KEY_OPTIONS', violations: errors });
+      }
+      const { key, info } = await createApiKey(options);
+      return res.status(201).json({ key, ...info });
+    }
+
+    const id = typeof req.query.id === 'string' ? req.query.id : '';
+    const revoked = id ? await revokeApiKey(id) : null;
+    if (!revoked) {
+      return res.status(404).json({ error: 'API key not found', code: 'NOT_FOUND' });
+    }
+    res.status(200).json(revoked);
+  } catch (error) {
+    console.error('API key store error:', error);
+    res.status(500).json({ error: 'Failed to update API keys' });
+  }
+}
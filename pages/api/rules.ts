@@ -0,0 +1,52 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { parseRulesDocument, validateRules } from '../../utils/customRules';
+import { getWorkspaceRules, resolveWorkspace, saveWorkspaceRules } from '../../utils/ruleStore';
+import { isAdminRequest } from '../../utils/sessionManager';
+
+// GET  /api/rules?workspace=team  - rules for a workspace
+// PUT  /api/rules?workspace=team  - replace them (JSON or YAML body, admin only)
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const workspace = resolveWorkspace(req);
+  if (!workspace) {
+    return res.status(400).json({ error: 'Invalid workspace id', code: 'INVALID_WORKSPACE' });
+  }
+
+  if (req.method === 'GET') {
+    const rules = await getWorkspaceRules(workspace);
+    return res.status(200).json({ workspace, rules });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Admin token required', code: 'UNAUTHORIZED' });
+  }
+
+  let document: unknown;
+  try {
+    // Non-JSON bodies (e.g. text/yaml) arrive as a raw string
+    document = typeof req.body === 'string' ? parseRulesDocument(req.body) : req.body;
+  } catch (error) {
+    return res.status(400).json({
+      error: `Could not parse rules: ${(error as Error).message}`,
+      code: 'INVALID_RULES'
+    });
+  }
+
+  const validation = validateRules(document);
+  if (validation.errors.length > 0) {
+    return res.status(400).json({
+      error: 'Invalid rules',
+      code: 'INVALID_RULES',
+      violations: validation.errors
+    });
+  }
+
+  const storage = await saveWorkspaceRules(workspace, validation.rules);
+  res.status(200).json({ workspace, rules: validation.rules, storage });
+}
@@ -1,34 +1,50 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import OpenAI from 'openai';
-import { validateSanityCheckInput, handleValidationError } from '../../utils/inputValidation';
+import { validateSanityCheckInput, handleValidationError, setRateLimitHeaders } from '../../utils/inputValidation';
+import { getLLMProvider } from '../../utils/llmProvider';
+import { AnalysisInput, AnalysisResult } from '../../utils/sanityAnalysis';
+import { analyzeWithCache } from '../../utils/analysisCache';
+import { wantsCacheBypass } from '../../utils/cacheStore';
+import { wantsRedaction } from '../../utils/sensitiveData';
+import { getPromptTemplate } from '../../utils/prompts';
+import { sendEvent, startEventStream, wantsEventStream } from '../../utils/eventStream';
+import { getWorkspaceRules, resolveWorkspace } from '../../utils/ruleStore';
+import { recordUsage, UsageContext } from '../../utils/analysisUsage';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-const SANITY_CHECK_PROMPT = `
-You are a communication sanity checker. Analyze messages for common mistakes:
+// Streaming variant, selected with `Accept: text/event-stream`. Emits one
+// `issue` event per validated issue, then a final `result` event carrying the
+// complete SanityResult (or an `error` event). Cached results are replayed
+// the same way.
+async function streamAnalysis(
+  res: NextApiResponse,
+  input: AnalysisInput,
+  usageContext: UsageContext,
+  bypassCache: boolean
+) {
+  startEventStream(res);
 
-1. ENTITY MISMATCHES: Company names, person names, job titles that don't match context
-2. TONE ISSUES: Inappropriate formality for the situation
-3. ATTACHMENT PROBLEMS: References attachments but context suggests none present
-4. BASIC ERRORS: Grammar, spelling, unclear references
+  let analysis: AnalysisResult | null = null;
+  try {
+    analysis = await analyzeWithCache(input, getLLMProvider(), {
+      bypassCache,
+      onIssue: issue => sendEvent(res, 'issue', issue),
+    });
 
-Respond in JSON format:
-{
-  "overallScore": 0-100,
-  "hasIssues": boolean,
-  "issues": [
-    {
-      "category": "entity_mismatch" | "tone" | "attachment" | "grammar" | "other",
-      "severity": "high" | "medium" | "low",
-      "problem": "what's wrong",
-      "suggestion": "how to fix it",
-      "confidence": 0.0-1.0
+    if (analysis.success) {
+      sendEvent(res, 'result', analysis.result);
+    } else {
+      sendEvent(res, 'error', { error: analysis.error, code: analysis.errorCode, promptVersion: analysis.promptVersion });
     }
-  ],
-  "summary": "brief overall assessment"
-}`;
+  } catch (error) {
+    console.error('LLM provider error:', error);
+    sendEvent(res, 'error', {
+      error: 'Failed to analyze message',
+      details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+    });
+  } finally {
+    await recordUsage(usageContext, analysis);
+    res.end();
+  }
+}
 
 export default async function handler(
   req: NextApiRequest,
@@ -39,55 +55,65 @@ export default async function handler(
   }
 
   // Unified input validation
-  const validation = validateSanityCheckInput(req, req.body);
+  const validation = await validateSanityCheckInput(req, req.body);
   if (!validation.isValid) {
     return handleValidationError(res, validation);
   }
+  setRateLimitHeaders(res, validation.rateLimit);
 
-  const { message, context, platform } = validation.sanitizedInputs!;
+  const workspace = resolveWorkspace(req);
+  if (!workspace) {
+    return res.status(400).json({ error: 'Invalid workspace id', code: 'INVALID_WORKSPACE' });
+  }
 
-  try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        { role: "system", content: SANITY_CHECK_PROMPT },
-        { 
-          role: "user", 
-          content: `MESSAGE TO CHECK:
-"""
-${message}
-"""
+  const usageContext: UsageContext = {
+    clientId: validation.clientId!,
+    apiKeyId: validation.apiKey?.id,
+    startedAt: Date.now(),
+    streaming: false
+  };
 
-CONTEXT:
-- Platform: ${platform || 'Unknown'}
-- Context: ${context || 'No additional context provided'}
+  const { message } = validation.sanitizedInputs!;
+  const input: AnalysisInput = {
+    message,
+    context: validation.messageContext,
+    platform: validation.platform,
+    originalMessage: typeof req.body.message === 'string' ? req.body.message : message,
+    workspace,
+    rules: await getWorkspaceRules(workspace),
+    risk: validation.risk,
+    language: validation.language,
+    uiLanguage: validation.uiLanguage,
+    redact: wantsRedaction(req.body)
+  };
 
-Please analyze this message for any issues.`
-        }
-      ],
-      temperature: 0.1,
-      max_tokens: 1000,
-    });
+  const bypassCache = wantsCacheBypass(req.headers, req.body);
+  res.setHeader('X-Prompt-Version', getPromptTemplate().version);
+  if (wantsEventStream(req.headers.accept)) {
+    return streamAnalysis(res, input, { ...usageContext, streaming: true }, bypassCache);
+  }
+
+  try {
+    const analysis = await analyzeWithCache(input, getLLMProvider(), { bypassCache });
+    await recordUsage(usageContext, analysis);
+    if (analysis.cache) res.setHeader('X-Cache', analysis.cache);
 
-    const result = completion.choices[0].message?.content;
-    
-    try {
-      const parsedResult = JSON.parse(result || '{}');
-      res.status(200).json(parsedResult);
-    } catch (parseError) {
-      res.status(200).json({
-        overallScore: 50,
-        hasIssues: false,
-        issues: [],
-        summary: "Analysis completed but results couldn't be parsed properly."
+    if (!analysis.success) {
+      return res.status(analysis.httpStatus || 502).json({
+        error: analysis.error,
+        code: analysis.errorCode,
+        promptVersion: analysis.promptVersion,
+        details: process.env.NODE_ENV === 'development' ? analysis.validationErrors : undefined
       });
     }
 
+    res.status(200).json(analysis.result);
   } catch (error) {
-    console.error('OpenAI API error:', error);
-    res.status(500).json({ 
+    console.error('LLM provider error:', error);
+    await recordUsage(usageContext, null);
+    res.status(500).json({
       error: 'Failed to analyze message',
       details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
     });
   }
-}
\ No newline at end of file
+}
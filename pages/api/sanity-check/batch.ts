@@ -0,0 +1,187 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { BatchItem, BatchItemResult, BatchResponse } from '../../../types';
+import {
+  admitRequest,
+  handleValidationError,
+  SANITY_CHECK_CONFIG,
+  setRateLimitHeaders,
+  validateBatchInput,
+  validateLanguages,
+  validateSanityCheckItem,
+  ValidationResult,
+} from '../../../utils/inputValidation';
+import { getLLMProvider } from '../../../utils/llmProvider';
+import { AnalysisResult } from '../../../utils/sanityAnalysis';
+import { analyzeWithCache } from '../../../utils/analysisCache';
+import { wantsCacheBypass } from '../../../utils/cacheStore';
+import { wantsRedaction } from '../../../utils/sensitiveData';
+import { getWorkspaceRules, resolveWorkspace } from '../../../utils/ruleStore';
+import { recordUsage } from '../../../utils/analysisUsage';
+import { mapWithConcurrency } from '../../../utils/concurrency';
+import {
+  BATCH_CONTENT_TYPES,
+  BatchFormat,
+  detectBatchFormat,
+  formatBatchResults,
+  parseBatchItems,
+} from '../../../utils/batchFormat';
+
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '5mb' },
+  },
+};
+
+// The default when the variable is unset or not a positive integer
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const MAX_ITEMS = readPositiveInt('BATCH_MAX_ITEMS', 50);
+const CONCURRENCY = readPositiveInt('BATCH_CONCURRENCY', 3);
+
+// JSON bodies arrive parsed; CSV and JSONL uploads arrive as text
+function readItems(req: NextApiRequest): { items: unknown[]; errors: string[] } {
+  if (typeof req.body !== 'string') {
+    const items = Array.isArray(req.body) ? req.body : req.body?.items;
+    return Array.isArray(items) ? { items, errors: [] } : { items: [], errors: [] };
+  }
+
+  const text = req.body.trim();
+  const format: BatchFormat =
+    detectBatchFormat(req.headers['content-type']) ||
+    (text.startsWith('[') ? 'json' : text.startsWith('{') ? 'jsonl' : 'csv');
+  return parseBatchItems(text, format);
+}
+
+function itemError(index: number, id: string | undefined, result: ValidationResult): BatchItemResult {
+  return {
+    index,
+    id,
+    status: 'error',
+    error: result.error,
+    code: result.errorCode,
+    retryAfter: result.errorCode === 'RATE_LIMIT_EXCEEDED' && result.rateLimit
+      ? Math.max(1, Math.ceil(result.rateLimit.retryAfterMs / 1000))
+      : undefined
+  };
+}
+
+// Checks up to BATCH_MAX_ITEMS messages in one request. Items run
+// BATCH_CONCURRENCY at a time and each one counts against the caller's
+// sanity-check rate limit, token quota and budget exactly like a single
+// request, so a batch cannot be used to get around them. Failures are
+// reported per item; the response itself is 200 once the batch is accepted.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const outputFormat = typeof req.query.format === 'string' ? detectBatchFormat(req.query.format) : 'json';
+  if (!outputFormat) {
+    return res.status(400).json({ error: 'format must be json, jsonl or csv', code: 'INVALID_FORMAT' });
+  }
+  // ?uiLanguage= sets the result language of items that don't set their own
+  const batchLanguages = validateLanguages(undefined, req.query.uiLanguage);
+  if (!batchLanguages.isValid) {
+    return handleValidationError(res, batchLanguages);
+  }
+
+  const validation = await validateBatchInput(req);
+  if (!validation.isValid) {
+    return handleValidationError(res, validation);
+  }
+  setRateLimitHeaders(res, validation.rateLimit);
+
+  const workspace = resolveWorkspace(req);
+  if (!workspace) {
+    return res.status(400).json({ error: 'Invalid workspace id', code: 'INVALID_WORKSPACE' });
+  }
+
+  const { items, errors } = readItems(req);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: `Could not read the batch: ${errors.join('; ')}`, code: 'INVALID_BATCH' });
+  }
+  if (items.length === 0) {
+    return res.status(400).json({ error: 'items is required', code: 'MISSING_ITEMS' });
+  }
+  if (items.length > MAX_ITEMS) {
+    return res.status(400).json({
+      error: `A batch can contain at most ${MAX_ITEMS} items`,
+      code: 'TOO_MANY_ITEMS'
+    });
+  }
+
+  const clientId = validation.clientId!;
+  const apiKey = validation.apiKey;
+  const rules = await getWorkspaceRules(workspace);
+  const bypassCache = wantsCacheBypass(req.headers, req.body);
+  // Items can set `redact` themselves; otherwise ?redact= or REDACT_SENSITIVE_DATA
+  const batchRedact = wantsRedaction(typeof req.query.redact === 'string' ? { redact: req.query.redact === 'true' } : undefined);
+
+  const results = await mapWithConcurrency(items, CONCURRENCY, async (raw, index): Promise<BatchItemResult> => {
+    const item = raw as Partial<BatchItem>;
+    const id = item && item.id !== undefined && item.id !== null ? String(item.id) : undefined;
+
+    // Accounting and rate-limit failures cost only this item
+    try {
+      const checked = validateSanityCheckItem(raw, clientId);
+      if (!checked.isValid) return itemError(index, id, checked);
+
+      const admission = await admitRequest(clientId, apiKey, SANITY_CHECK_CONFIG);
+      if (!admission.isValid) return itemError(index, id, admission);
+
+      const { message } = checked.sanitizedInputs!;
+      const startedAt = Date.now();
+      let analysis: AnalysisResult | null = null;
+      try {
+        analysis = await analyzeWithCache({
+          message,
+          context: checked.messageContext,
+          platform: checked.platform,
+          originalMessage: typeof item.message === 'string' ? item.message : message,
+          workspace,
+          rules,
+          risk: checked.risk,
+          language: checked.language,
+          uiLanguage: checked.uiLanguage || batchLanguages.uiLanguage,
+          redact: typeof item.redact === 'boolean' ? item.redact : batchRedact
+        }, getLLMProvider(), { bypassCache });
+      } catch (error) {
+        console.error('LLM provider error:', error);
+      }
+      await recordUsage({ clientId, apiKeyId: apiKey?.id, startedAt, streaming: false }, analysis);
+
+      if (!analysis?.success) {
+        return {
+          index,
+          id,
+          status: 'error',
+          error: analysis?.error || 'Failed to analyze message',
+          code: analysis?.errorCode || 'ANALYSIS_FAILED'
+        };
+      }
+      return { index, id, status: 'ok', result: analysis.result };
+    } catch (error) {
+      console.error('Batch item failed:', error);
+      return itemError(index, id, { isValid: false, error: 'Failed to analyze message', errorCode: 'ANALYSIS_FAILED' });
+    }
+  });
+
+  const succeeded = results.filter(result => result.status === 'ok').length;
+  if (outputFormat !== 'json') {
+    res.setHeader('Content-Type', BATCH_CONTENT_TYPES[outputFormat]);
+    res.setHeader('Content-Disposition', `attachment; filename="sanity-check-results.${outputFormat}"`);
+    return res.status(200).send(formatBatchResults(results, outputFormat));
+  }
+
+  const response: BatchResponse = {
+    items: results,
+    summary: { total: results.length, succeeded, failed: results.length - succeeded }
+  };
+  res.status(200).json(response);
+}
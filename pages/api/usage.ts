@@ -0,0 +1,48 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { checkBudget, getUsageSummary } from '../../utils/usageLedger';
+import { isAdminRequest } from '../../utils/sessionManager';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_RANGE_DAYS = 30;
+
+// GET /api/usage?from=2024-05-01&to=2024-05-31 - token and cost totals by
+// day and by client (admin only). Defaults to the last 30 days.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Admin token required', code: 'UNAUTHORIZED' });
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const defaultFrom = new Date(Date.now() - (DEFAULT_RANGE_DAYS - 1) * 86400000).toISOString().slice(0, 10);
+  const from = typeof req.query.from === 'string' ? req.query.from : defaultFrom;
+  const to = typeof req.query.to === 'string' ? req.query.to : today;
+
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+    return res.status(400).json({
+      error: 'from and to must be dates (YYYY-MM-DD) with from <= to',
+      code: 'INVALID_DATE_RANGE'
+    });
+  }
+
+  try {
+    const [summary, budget] = await Promise.all([getUsageSummary(from, to), checkBudget()]);
+    res.status(200).json({
+      ...summary,
+      budget: {
+        ...budget,
+        dailyLimitUsd: process.env.BUDGET_DAILY_USD ? Number(process.env.BUDGET_DAILY_USD) : null,
+        monthlyLimitUsd: process.env.BUDGET_MONTHLY_USD ? Number(process.env.BUDGET_MONTHLY_USD) : null
+      }
+    });
+  } catch (error) {
+    console.error('Usage report error:', error);
+    res.status(500).json({ error: 'Failed to build usage report' });
+  }
+}
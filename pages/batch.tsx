@@ -0,0 +1,303 @@
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { BatchResults } from '../components/BatchResults';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { TemplateInput } from '../components/TemplateInput';
+import { BatchItem, BatchItemResult, BatchResponse, MessageContext, Platform } from '../types';
+import {
+  BATCH_CONTENT_TYPES,
+  BatchFormat,
+  detectBatchFormat,
+  formatBatchResults,
+  needsAttention,
+  parseBatchItems,
+} from '../utils/batchFormat';
+import { checkTemplate, RenderedRow, renderRows } from '../utils/template';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { addExtractedSource } from '../utils/messageContext';
+
+function download(content: string, format: BatchFormat) {
+  const url = URL.createObjectURL(new Blob([content], { type: BATCH_CONTENT_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `sanity-check-results.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+type ExtractionOutcome = { data: any } | { error: string };
+
+// Each distinct URL is extracted once, a few at a time
+async function extractUrls(urls: string[]): Promise<Map<string, ExtractionOutcome>> {
+  const unique = Array.from(new Set(urls));
+  const outcomes = await mapWithConcurrency(unique, 3, async (url): Promise<ExtractionOutcome> => {
+    try {
+      const response = await fetch('/api/extract-url', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+      });
+      const data = await response.json();
+      return data.success ? { data } : { error: data.error || 'Failed to extract content from URL' };
+    } catch (error) {
+      return { error: 'Failed to extract content from URL' };
+    }
+  });
+  return new Map(unique.map((url, index) => [url, outcomes[index]]));
+}
+
+// Adds each row's extracted page to its context. Rows with empty variables
+// or a page that could not be read fail locally and are not sent.
+async function prepareRows(rendered: RenderedRow[]): Promise<{ items: BatchItem[]; failures: BatchItemResult[] }> {
+  const extractions = await extractUrls(
+    rendered.filter(row => row.url && row.emptyVariables.length === 0).map(row => row.url!)
+  );
+  const items: BatchItem[] = [];
+  const failures: BatchItemResult[] = [];
+
+  for (const row of rendered) {
+    const { index, item, url } = row;
+    if (row.emptyVariables.length > 0) {
+      failures.push({
+        index,
+        id: item.id,
+        status: 'error',
+        error: `Empty in this row: ${row.emptyVariables.join(', ')}`,
+        code: 'MISSING_VARIABLE'
+      });
+      continue;
+    }
+    const outcome = url ? extractions.get(url) : undefined;
+    if (outcome && 'error' in outcome) {
+      failures.push({ index, id: item.id, status: 'error', error: `${url}: ${outcome.error}`, code: 'EXTRACTION_FAILED' });
+      continue;
+    }
+    if (outcome) {
+      const base: MessageContext = typeof item.context === 'string' ? { notes: item.context } : item.context || {};
+      items.push({ ...item, context: addExtractedSource(base, url!, outcome.data) });
+    } else {
+      items.push(item);
+    }
+  }
+  return { items, failures };
+}
+
+export default function Batch() {
+  const router = useRouter();
+  const workspace = typeof router.query.workspace === 'string' ? router.query.workspace : undefined;
+  // Upload ready-made messages, or render a template once per CSV row
+  const [mode, setMode] = useState<'upload' | 'template'>('upload');
+  const [fileName, setFileName] = useState('');
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [template, setTemplate] = useState('');
+  const [platform, setPlatform] = useState<Platform | ''>('');
+  const [rows, setRows] = useState<Array<Record<string, string>>>([]);
+  const [columns, setColumns] = useState<string[]>([]);
+  // The messages that were checked, by index, for the results table
+  const [checkedItems, setCheckedItems] = useState<BatchItem[]>([]);
+  const [response, setResponse] = useState<BatchResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setError('');
+    setResponse(null);
+    setFileName(file.name);
+
+    const format = detectBatchFormat(file.name);
+    if (!format) {
+      setItems([]);
+      setError('Upload a .csv, .jsonl or .json file');
+      return;
+    }
+    const parsed = parseBatchItems(await file.text(), format);
+    setItems(parsed.items);
+    if (parsed.errors.length > 0) {
+      setError(parsed.errors.join('; '));
+    } else if (parsed.items.length === 0) {
+      setError('No messages were found in that file');
+    }
+  };
+
+  const report = checkTemplate(template, columns);
+  const templateReady = template.trim() !== '' && rows.length > 0 &&
+    report.missing.length === 0 && report.malformed.length === 0;
+
+  const runBatch = async (batch: BatchItem[]): Promise<BatchResponse | null> => {
+    const res = await fetch('/api/sanity-check/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items: batch, workspace }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(
+        data.code === 'RATE_LIMIT_EXCEEDED' && data.retryAfter
+          ? `Too many requests. Try again in ${data.retryAfter} seconds.`
+          : data.error || 'Failed to check the batch'
+      );
+      return null;
+    }
+    return data;
+  };
+
+  const handleRun = async () => {
+    setLoading(true);
+    setError('');
+    setResponse(null);
+
+    try {
+      if (mode === 'upload') {
+        setCheckedItems(items);
+        setResponse(await runBatch(items));
+        return;
+      }
+
+      const rendered = renderRows(template, rows, platform || undefined);
+      setCheckedItems(rendered.map(row => row.item));
+      const prepared = await prepareRows(rendered);
+      const checked = prepared.items.length > 0 ? await runBatch(prepared.items) : null;
+      if (prepared.items.length > 0 && !checked) return;
+
+      // Map the batch's indexes back to row numbers
+      const rowIndexes = rendered
+        .filter(row => !prepared.failures.some(failure => failure.index === row.index))
+        .map(row => row.index);
+      const results = [
+        ...prepared.failures,
+        ...(checked?.items || []).map(result => ({ ...result, index: rowIndexes[result.index] }))
+      ].sort((a, b) => a.index - b.index);
+      const succeeded = results.filter(result => result.status === 'ok').length;
+      setResponse({
+        items: results,
+        summary: { total: results.length, succeeded, failed: results.length - succeeded }
+      });
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rateLimited = response?.items.filter(item => item.code === 'RATE_LIMIT_EXCEEDED').length || 0;
+  const failing = response?.items.filter(needsAttention).length || 0;
+
+  return (
+    <div className="container">
+      <header className="header">
+        <h1>Batch Sanity Check</h1>
+        <p>Check a whole file of messages at once</p>
+      </header>
+
+      <main className="main">
+        <div className="mode-toggle" role="tablist">
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mode === 'upload'}
+            className={mode === 'upload' ? 'mode-active' : ''}
+            onClick={() => { setMode('upload'); setResponse(null); }}
+          >
+            Messages file
+          </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mode === 'template'}
+            className={mode === 'template' ? 'mode-active' : ''}
+            onClick={() => { setMode('template'); setResponse(null); }}
+          >
+            Template
+          </button>
+        </div>
+
+        {mode === 'upload' ? (
+          <>
+            <p className="batch-help">
+              Upload a CSV with a <code>message</code> column (and optionally <code>id</code>, <code>platform</code>,{' '}
+              <code>recipient_name</code>, <code>recipient_company</code>, <code>recipient_role</code>,{' '}
+              <code>relationship</code>, <code>attachments</code> and <code>notes</code>), or a JSONL/JSON file of{' '}
+              <code>{'{ "message", "context", "platform" }'}</code> objects.{' '}
+              <Link href={{ pathname: '/', query: workspace ? { workspace } : {} }}>Back to single check</Link>
+            </p>
+
+            <label className="eml-upload batch-upload">
+              {fileName ? `Loaded ${fileName}` : 'Choose a file'}
+              <input
+                type="file"
+                accept=".csv,.jsonl,.ndjson,.json,text/csv,application/json"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+
+            {items.length > 0 && !response && (
+              <p className="batch-summary">
+                {items.length} {items.length === 1 ? 'message' : 'messages'} ready to check
+              </p>
+            )}
+          </>
+        ) : (
+          <>
+            <p className="batch-help">
+              Write the message once with <code>{'{{column}}'}</code> placeholders and upload a CSV with one row per
+              recipient. Columns named <code>first_name</code>, <code>company</code> or <code>title</code> also tell
+              the checks who each variant is for, and a <code>url</code> column adds that row&apos;s page as context.
+            </p>
+            <TemplateInput
+              template={template}
+              onTemplateChange={setTemplate}
+              platform={platform}
+              onPlatformChange={setPlatform}
+              rows={rows}
+              columns={columns}
+              onRowsChange={(records, header) => {
+                setRows(records);
+                setColumns(header);
+                setResponse(null);
+              }}
+            />
+          </>
+        )}
+
+        <button
+          onClick={handleRun}
+          disabled={loading || (mode === 'upload' ? items.length === 0 : !templateReady)}
+          className="check-button"
+        >
+          {loading
+            ? 'Checking...'
+            : mode === 'template' && rows.length > 0 ? `Check all ${rows.length} variants` : 'Check all'}
+        </button>
+
+        {error && <div className="error">{error}</div>}
+
+        {loading && <LoadingSpinner />}
+
+        {response && (
+          <div className="batch-results">
+            <div className="batch-summary">
+              {response.summary.succeeded} of {response.summary.total} checked
+              {response.summary.failed > 0 && `, ${response.summary.failed} failed`}
+              {failing > 0 && ` · ${failing} need attention`}
+              {rateLimited > 0 && ` (${rateLimited} hit the rate limit; run them again shortly)`}
+            </div>
+            <div className="batch-downloads">
+              <button type="button" className="manual-button" onClick={() => download(formatBatchResults(response.items, 'csv'), 'csv')}>
+                Download CSV
+              </button>
+              <button type="button" className="manual-button" onClick={() => download(formatBatchResults(response.items, 'jsonl'), 'jsonl')}>
+                Download JSONL
+              </button>
+            </div>
+            <BatchResults items={checkedItems} results={response.items} />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
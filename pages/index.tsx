@@ -1,20 +1,69 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
 import { MessageInput } from '../components/MessageInput';
 import { ContextInput } from '../components/ContextInput';
+import { ReplyInput } from '../components/ReplyInput';
+import { EmailImport } from '../components/EmailImport';
 import { SanityResults } from '../components/SanityResults';
 import { LoadingSpinner } from '../components/LoadingSpinner';
-import { SanityResult } from '../types';
+import { HistoryPanel } from '../components/HistoryPanel';
+import { HistoryEntry, MessageContext, Platform, SanityIssue, SanityResult } from '../types';
+import { createHistoryEntry, HistoryDraft, newHistoryId } from '../utils/history';
+import { HistoryBackend, openHistory } from '../utils/historyClient';
+import { LANGUAGES } from '../utils/languages';
+import { getPlatformProfile } from '../utils/platforms';
+import { readEventStream } from '../utils/eventStream';
+import { applyReplacements, replacementsOverlap } from '../utils/textReplacement';
 
 export default function Home() {
+  const router = useRouter();
+  // Teams link to /?workspace=<id> to get their style rules applied
+  const workspace = typeof router.query.workspace === 'string' ? router.query.workspace : undefined;
   const [message, setMessage] = useState('');
-  const [context, setContext] = useState('');
-  const [platform, setPlatform] = useState('');
+  const [context, setContext] = useState<MessageContext>({});
+  // Reply mode checks the draft against the message it answers
+  const [mode, setMode] = useState<'compose' | 'reply'>('compose');
+  const [platform, setPlatform] = useState<Platform | ''>('');
+  // Empty: the server's UI_LANGUAGE
+  const [uiLanguage, setUiLanguage] = useState('');
+  // Hide secrets and personal data from the model
+  const [redact, setRedact] = useState(false);
   const [result, setResult] = useState<SanityResult | null>(null);
+  const [streamingIssues, setStreamingIssues] = useState<SanityIssue[]>([]);
+  const [checkedMessage, setCheckedMessage] = useState('');
+  const [appliedIssues, setAppliedIssues] = useState<number[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  // Null until it is known where history is kept, or when it can't be
+  const [history, setHistory] = useState<HistoryBackend | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  // Checks of the same draft share it; clearing the message starts a new one
+  const [draftId, setDraftId] = useState(() => newHistoryId());
 
-  const handleCheck = async () => {
-    if (!message.trim()) {
+  useEffect(() => {
+    openHistory().then(setHistory);
+  }, []);
+
+  const saveToHistory = async (runDraftId: string, draft: HistoryDraft, checked: SanityResult) => {
+    if (!history) return;
+    try {
+      await history.save(createHistoryEntry(runDraftId, draft, checked));
+      setHistoryVersion(version => version + 1);
+    } catch (err) {
+      // History is a convenience; the result is still shown
+      console.error('Failed to save history:', err);
+    }
+  };
+
+  // `bypassCache` asks for a fresh analysis instead of a cached one. Re-runs
+  // from the history pass their draft, since state updates aren't visible yet.
+  const handleCheck = async (
+    bypassCache: boolean = false,
+    draft: HistoryDraft = { message: message.trim(), context, platform: platform || undefined },
+    runDraftId: string = draftId
+  ) => {
+    if (!draft.message) {
       setError('Please enter a message to check');
       return;
     }
@@ -22,26 +71,59 @@ export default function Home() {
     setLoading(true);
     setError('');
     setResult(null);
+    setStreamingIssues([]);
+    setCheckedMessage(draft.message);
+    setAppliedIssues([]);
 
     try {
       const response = await fetch('/api/sanity-check', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
         },
         body: JSON.stringify({
-          message: message.trim(),
-          context: context.trim(),
-          platform: platform.trim(),
+          message: draft.message,
+          context: draft.context,
+          platform: draft.platform,
+          uiLanguage: uiLanguage || undefined,
+          redact: redact || undefined,
+          workspace,
+          noCache: bypassCache || undefined,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to check message');
+        const data = await response.json().catch(() => ({}));
+        // Unparseable analyses must surface as errors, never as a clean result
+        setError(
+          data.code === 'RATE_LIMIT_EXCEEDED' && data.retryAfter
+            ? `Too many requests. Please try again in ${data.retryAfter} seconds.`
+            : ['ANALYSIS_UNPARSEABLE', 'RATE_LIMIT_EXCEEDED', 'BUDGET_EXCEEDED', 'INVALID_CONTEXT', 'INVALID_LANGUAGE', 'INVALID_PLATFORM'].includes(data.code)
+              ? data.error
+              : 'Failed to analyze message. Please try again.'
+        );
+        return;
       }
 
-      const data = await response.json();
-      setResult(data);
+      let finalResult: SanityResult | null = null;
+      let streamError = '';
+      await readEventStream(response, ({ event, data }) => {
+        if (event === 'issue') {
+          setStreamingIssues(prev => [...prev, data]);
+        } else if (event === 'result') {
+          finalResult = data;
+        } else if (event === 'error') {
+          streamError = data.code === 'ANALYSIS_UNPARSEABLE' ? data.error : '';
+        }
+      });
+
+      if (!finalResult) {
+        setError(streamError || 'Failed to analyze message. Please try again.');
+        return;
+      }
+      setResult(finalResult);
+      saveToHistory(runDraftId, draft, finalResult);
     } catch (err) {
       setError('Failed to analyze message. Please try again.');
       console.error('Error:', err);
@@ -50,6 +132,79 @@ export default function Home() {
     }
   };
 
+  const patchMessage = (indexes: number[]) =>
+    applyReplacements(
+      checkedMessage,
+      indexes.map(index => result!.issues[index].replacement!)
+    );
+
+  const correctedMessage = result ? patchMessage(appliedIssues) : checkedMessage;
+
+  // Suggestions patch the message in the editor, so keep them disabled once
+  // the user has edited it by hand.
+  const canApply = message.trim() === correctedMessage;
+
+  const updateAppliedIssues = (indexes: number[]) => {
+    setAppliedIssues(indexes);
+    setMessage(patchMessage(indexes));
+  };
+
+  const handleApplyAll = () => {
+    const indexes = [...appliedIssues];
+    result!.issues.forEach((issue, index) => {
+      const replacement = issue.replacement;
+      if (!replacement || indexes.includes(index)) return;
+      if (indexes.some(applied => replacementsOverlap(result!.issues[applied].replacement!, replacement))) return;
+      indexes.push(index);
+    });
+    updateAppliedIssues(indexes);
+  };
+
+  // An imported .eml replaces the draft and everything its headers say;
+  // details the user entered by hand are kept
+  const handleImport = (draft: { message: string; context: MessageContext }) => {
+    setMessage(draft.message);
+    setContext(current => ({
+      ...current,
+      headers: draft.context.headers,
+      attachments: draft.context.attachments,
+      recipient: current.recipient?.name ? current.recipient : { ...current.recipient, ...draft.context.recipient },
+    }));
+    if (!platform) setPlatform('email');
+    setDraftId(newHistoryId());
+  };
+
+  const updateMessage = (value: string) => {
+    setMessage(value);
+    if (!value.trim()) setDraftId(newHistoryId());
+  };
+
+  // Shows a saved check as if it had just run
+  const openEntry = (entry: HistoryEntry) => {
+    setMessage(entry.message);
+    setContext(entry.context || {});
+    setPlatform(entry.platform || '');
+    setMode(entry.context?.thread && entry.context.thread.length > 0 ? 'reply' : 'compose');
+    setDraftId(entry.draftId);
+    setError('');
+    setStreamingIssues([]);
+    setCheckedMessage(entry.message);
+    setAppliedIssues([]);
+    setResult(entry.result);
+  };
+
+  const rerunEntry = (entry: HistoryEntry) => {
+    openEntry(entry);
+    handleCheck(false, { message: entry.message, context: entry.context || {}, platform: entry.platform }, entry.draftId);
+  };
+
+  const changeMode = (next: 'compose' | 'reply') => {
+    setMode(next);
+    if (next === 'compose') {
+      setContext(current => ({ ...current, thread: undefined }));
+    }
+  };
+
   return (
     <div className="container">
       <header className="header">
@@ -58,12 +213,41 @@ export default function Home() {
       </header>
 
       <main className="main">
+        <div className="mode-toggle" role="tablist">
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mode === 'compose'}
+            className={mode === 'compose' ? 'mode-active' : ''}
+            onClick={() => changeMode('compose')}
+          >
+            New message
+          </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mode === 'reply'}
+            className={mode === 'reply' ? 'mode-active' : ''}
+            onClick={() => changeMode('reply')}
+          >
+            Reply
+          </button>
+        </div>
+
+        {mode === 'reply' && (
+          <ReplyInput context={context} onContextChange={setContext} />
+        )}
+
         <MessageInput
           value={message}
-          onChange={setMessage}
-          placeholder="Paste your message here..."
+          onChange={updateMessage}
+          label={mode === 'reply' ? 'Your reply' : undefined}
+          placeholder={mode === 'reply' ? 'Paste your draft reply here...' : 'Paste your message here...'}
+          limit={getPlatformProfile(platform || undefined)?.limits.message}
         />
 
+        <EmailImport context={context} onContextChange={setContext} onImport={handleImport} />
+
         <ContextInput
           context={context}
           onContextChange={setContext}
@@ -71,8 +255,23 @@ export default function Home() {
           onPlatformChange={setPlatform}
         />
 
+        <div className="platform-select">
+          <label htmlFor="ui-language">Results language</label>
+          <select id="ui-language" value={uiLanguage} onChange={(e) => setUiLanguage(e.target.value)}>
+            <option value="">Default</option>
+            {LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>{language.nativeName}</option>
+            ))}
+          </select>
+        </div>
+
+        <label className="redact-option">
+          <input type="checkbox" checked={redact} onChange={(e) => setRedact(e.target.checked)} />
+          Hide keys, card numbers and contact details from the AI model
+        </label>
+
         <button
-          onClick={handleCheck}
+          onClick={() => handleCheck()}
           disabled={loading || !message.trim()}
           className="check-button"
         >
@@ -81,9 +280,44 @@ export default function Home() {
 
         {error && <div className="error">{error}</div>}
 
-        {loading && <LoadingSpinner />}
+        {loading && streamingIssues.length === 0 && <LoadingSpinner />}
+
+        {loading && streamingIssues.length > 0 && (
+          <SanityResults
+            result={null}
+            streamingIssues={streamingIssues}
+            message={checkedMessage}
+          />
+        )}
+
+        {result && (
+          <SanityResults
+            result={result}
+            message={checkedMessage}
+            appliedIssues={appliedIssues}
+            correctedMessage={correctedMessage}
+            canApply={canApply}
+            onApply={index => updateAppliedIssues([...appliedIssues, index])}
+            onApplyAll={handleApplyAll}
+            onUndo={() => updateAppliedIssues(appliedIssues.slice(0, -1))}
+            onRecheck={() => handleCheck(true)}
+          />
+        )}
+
+        {history && (
+          <HistoryPanel
+            history={history}
+            refreshKey={historyVersion}
+            onOpen={openEntry}
+            onRerun={rerunEntry}
+            disabled={loading}
+          />
+        )}
 
-        {result && <SanityResults result={result} />}
+        <p className="batch-link">
+          Checking many messages?{' '}
+          <Link href={{ pathname: '/batch', query: workspace ? { workspace } : {} }}>Upload a CSV or JSONL file</Link>
+        </p>
       </main>
     </div>
   );
@@ -1,12 +1,296 @@
+export const ISSUE_CATEGORIES = [
+  'entity_mismatch',
+  'tone',
+  'attachment',
+  'grammar',
+  // Email subject lines
+  'subject',
+  // Reply checks, used when the message answers an earlier one in a thread
+  'unanswered_question',
+  'factual_contradiction',
+  'wrong_recipient_reference',
+  // Secrets and personal data the recipient shouldn't get
+  'sensitive_data',
+  'other'
+] as const;
+export const ISSUE_SEVERITIES = ['high', 'medium', 'low'] as const;
+
+export type IssueCategory = typeof ISSUE_CATEGORIES[number];
+export type IssueSeverity = typeof ISSUE_SEVERITIES[number];
+
+export const ISSUE_CATEGORY_LABELS: Record<IssueCategory, string> = {
+  entity_mismatch: 'Entity mismatch',
+  tone: 'Tone',
+  attachment: 'Attachment',
+  grammar: 'Grammar',
+  subject: 'Subject line',
+  unanswered_question: 'Unanswered question',
+  factual_contradiction: 'Contradicts thread',
+  wrong_recipient_reference: 'Wrong recipient',
+  sensitive_data: 'Sensitive data',
+  other: 'Other'
+};
+
+// Categories that compare the draft with the message it replies to
+export const REPLY_CATEGORIES: IssueCategory[] = [
+  'unanswered_question',
+  'factual_contradiction',
+  'wrong_recipient_reference'
+];
+
+// 'local' issues come from deterministic checks that run before the model
+export type IssueSource = 'local' | 'model';
+
+// A character range in the submitted message. `end` is exclusive and
+// `quote` is always the exact text of that range.
+export interface IssueSpan {
+  start: number;
+  end: number;
+  quote: string;
+}
+
+// A machine-applicable fix: replace the span with `text`
+export interface TextReplacement extends IssueSpan {
+  text: string;
+}
+
+export type StyleRuleType = 'regex' | 'keyword' | 'instruction';
+
+// A team/house rule. Regex and keyword rules run locally; instruction rules
+// are natural-language guidance passed to the model.
+export interface StyleRule {
+  id: string;
+  name: string;
+  type: StyleRuleType;
+  category: IssueCategory;
+  severity: IssueSeverity;
+  // regex rules
+  pattern?: string;
+  flags?: string;
+  // keyword rules
+  keywords?: string[];
+  caseSensitive?: boolean;
+  // instruction rules
+  instruction?: string;
+  // Problem/suggestion text for local hits
+  message?: string;
+  suggestion?: string;
+  // Optional fix for local hits; regex rules may use $1-style references
+  replacement?: string;
+  enabled?: boolean;
+}
+
+export interface SanityIssue {
+  category: IssueCategory;
+  severity: IssueSeverity;
+  problem: string;
+  suggestion: string;
+  confidence: number;
+  spans?: IssueSpan[];
+  replacement?: TextReplacement;
+  source?: IssueSource;
+  // The custom rule that produced this issue
+  rule?: { id: string; name: string };
+}
+
+export type CheckerStatus = 'ok' | 'failed' | 'timeout';
+
+// How one specialized checker of a multi-pass analysis went
+export interface CheckerReport {
+  id: string;
+  status: CheckerStatus;
+  durationMs: number;
+  // Issues it contributed before merging
+  issueCount: number;
+  // Including repair attempts
+  attempts: number;
+  error?: string;
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+// How much the input looks like an attempt to instruct the model. It is
+// analyzed as data either way; this only flags it.
+export interface PromptRisk {
+  // 0-100
+  score: number;
+  level: RiskLevel;
+  // Ids of the patterns found, e.g. "instruction_override"
+  signals: string[];
+}
+
+export interface MessageLanguage {
+  // ISO 639-1 code, or 'und' when it couldn't be told
+  code: string;
+  // 0-1; always 1 when specified
+  confidence: number;
+  // 'specified' when the client said which language the message is in
+  source: 'detected' | 'specified';
+}
+
+export interface AnalysisMeta {
+  // 'partial' when some checkers of a multi-pass analysis failed;
+  // 'degraded' when the model could not be used and only local checks ran
+  status: 'complete' | 'partial' | 'degraded';
+  warnings?: string[];
+  // The prompt template version the analysis used, e.g. "v1"
+  promptVersion?: string;
+  // Served from the result cache; `cachedAt` is when it was first computed
+  cached?: boolean;
+  cachedAt?: string;
+  // Multi-pass analyses only
+  checkers?: CheckerReport[];
+  // Set when the input scored above 'low'
+  risk?: PromptRisk;
+  // The language the message is written in
+  language?: MessageLanguage;
+  // How many distinct sensitive values were replaced by placeholders before
+  // the model saw the message
+  redacted?: number;
+}
+
 export interface SanityResult {
   overallScore: number;
   hasIssues: boolean;
-  issues: Array<{
-    category: 'entity_mismatch' | 'tone' | 'attachment' | 'grammar' | 'other';
-    severity: 'high' | 'medium' | 'low';
-    problem: string;
-    suggestion: string;
-    confidence: number;
-  }>;
+  issues: SanityIssue[];
   summary: string;
-}
\ No newline at end of file
+  meta?: AnalysisMeta;
+}
+
+// Structured details pulled from a job posting or company page
+export interface ExtractedFields {
+  company?: string;
+  title?: string;
+  location?: string;
+  hiringManager?: string;
+  employmentType?: string;
+  datePosted?: string;
+}
+
+export const RELATIONSHIPS = [
+  'cold_outreach',
+  'recruiter',
+  'hiring_manager',
+  'colleague',
+  'manager',
+  'direct_report',
+  'client',
+  'vendor',
+  'friend',
+  'other'
+] as const;
+
+export type Relationship = typeof RELATIONSHIPS[number];
+
+// Where the message will be sent. Each has a profile in utils/platforms.ts.
+export const PLATFORMS = [
+  'email',
+  'gmail',
+  'linkedin',
+  'linkedin_connection',
+  'linkedin_inmail',
+  'slack',
+  'teams',
+  'sms',
+  'other'
+] as const;
+
+export type Platform = typeof PLATFORMS[number];
+
+export interface ContactInfo {
+  name?: string;
+  role?: string;
+  company?: string;
+}
+
+// Envelope of an email draft. Addresses are "Name <address>" strings.
+export interface MessageHeaders {
+  from?: string;
+  to?: string[];
+  cc?: string[];
+  // '' when the draft has no subject
+  subject?: string;
+}
+
+// An earlier message in the same conversation, oldest first
+export interface ThreadMessage {
+  from?: string;
+  sentAt?: string;
+  body: string;
+}
+
+export type ContextSourceKind = 'url' | 'pasted' | 'file';
+
+// A document the message relates to (job posting, company page, brief...)
+// and where it came from
+export interface ContextSource {
+  kind: ContextSourceKind;
+  label?: string;
+  url?: string;
+  retrievedAt?: string;
+  fields?: ExtractedFields;
+  content: string;
+}
+
+// Everything known about the situation a message is written for
+export interface MessageContext {
+  recipient?: ContactInfo;
+  sender?: ContactInfo;
+  relationship?: Relationship;
+  // Set when the message is an email whose headers are known
+  headers?: MessageHeaders;
+  thread?: ThreadMessage[];
+  // Filenames actually attached. Undefined when unknown, [] when none.
+  attachments?: string[];
+  sources?: ContextSource[];
+  // Free-form context that doesn't fit the fields above
+  notes?: string;
+}
+
+// One message in a batch request. `id` is echoed back so results can be
+// matched to rows; `context` may be structured or free text.
+export interface BatchItem {
+  id?: string;
+  message: string;
+  context?: MessageContext | string;
+  // A Platform id, or a label or alias ("LinkedIn InMail") that
+  // parsePlatform in utils/platforms.ts resolves; anything else is refused
+  platform?: Platform | string;
+  // "auto" (the default) or the code of the language the message is in
+  language?: string;
+  // The language to write the result in
+  uiLanguage?: string;
+  // Redact sensitive values before the model sees them
+  redact?: boolean;
+}
+
+export interface BatchItemResult {
+  // Position of the item in the request
+  index: number;
+  id?: string;
+  status: 'ok' | 'error';
+  result?: SanityResult;
+  error?: string;
+  code?: string;
+  // Seconds, for items rejected by the rate limit
+  retryAfter?: number;
+}
+
+export interface BatchResponse {
+  items: BatchItemResult[];
+  summary: { total: number; succeeded: number; failed: number };
+}
+
+// One completed check, as kept in the history
+export interface HistoryEntry {
+  id: string;
+  // Runs of the same draft share it, so they can be compared
+  draftId: string;
+  createdAt: string;
+  message: string;
+  context?: MessageContext;
+  platform?: Platform;
+  result: SanityResult;
+  // From result.meta, kept separately so old entries can be found by it
+  promptVersion?: string;
+}
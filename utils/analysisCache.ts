@@ -0,0 +1,134 @@
+// Cached analyses, keyed by the normalized message, context, platform,
+// workspace rules, model and prompt. Re-running an unchanged draft costs no model call.
+
+import crypto from 'crypto';
+import { MessageContext, SanityIssue, SanityResult, StyleRule } from '../types';
+import { cacheKey, CacheStatus, readCache, readTtl, stableStringify, writeCache } from './cacheStore';
+import { anchorQuote, anchorQuotes } from './issueAnchoring';
+import { resolveAnalysisMode, runAnalysis } from './analysisOrchestrator';
+import { LLMProvider } from './llmProvider';
+import { mapContextStrings } from './messageContext';
+import { getPromptTemplate } from './prompts';
+import { AnalysisInput, AnalysisOptions, AnalysisResult, buildSystemPrompt } from './sanityAnalysis';
+
+const ANALYSIS_CACHE_TTL_MS = readTtl('ANALYSIS_CACHE_TTL_MS', 24 * 60 * 60 * 1000);
+
+interface CachedAnalysis {
+  result: SanityResult;
+  promptVersion: string;
+  // The exact text the spans were anchored against
+  message: string;
+  model: string;
+  cachedAt: string;
+}
+
+export interface CachedAnalysisOptions extends AnalysisOptions {
+  // Skip the lookup, but still store the fresh result
+  bypassCache?: boolean;
+}
+
+// Line endings, trailing spaces and Unicode composition don't change what a
+// message says
+function normalizeText(text: string): string {
+  return text.normalize('NFC').replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').trim();
+}
+
+function normalizeContext(context: MessageContext = {}): MessageContext {
+  const normalized = mapContextStrings(context, normalizeText);
+  // When a page was fetched doesn't change what it says
+  return {
+    ...normalized,
+    sources: normalized.sources?.map(({ retrievedAt, ...source }) => source)
+  };
+}
+
+// Everything about the enabled rules that changes their hits, so editing or
+// disabling a rule invalidates results computed with it
+function rulesFingerprint(rules: StyleRule[] = []): string {
+  const enabled = rules
+    .filter(rule => rule.enabled !== false)
+    .map(({ id, type, category, severity, pattern, flags, keywords, caseSensitive, instruction, message, suggestion, replacement }) =>
+      ({ id, type, category, severity, pattern, flags, keywords, caseSensitive, instruction, message, suggestion, replacement }));
+  return crypto.createHash('sha256').update(stableStringify(enabled)).digest('hex');
+}
+
+export function analysisCacheKey(input: AnalysisInput, provider: LLMProvider): string {
+  return cacheKey('analysis', {
+    message: normalizeText(input.originalMessage ?? input.message),
+    context: normalizeContext(input.context),
+    platform: input.platform || '',
+    provider: provider.name,
+    model: provider.model,
+    promptVersion: getPromptTemplate(input.promptVersion).version,
+    mode: resolveAnalysisMode(input.promptVersion),
+    redact: Boolean(input.redact),
+    // Local rule hits are part of the result, so results aren't shared
+    // between workspaces or across rule changes
+    workspace: input.workspace || '',
+    rules: rulesFingerprint(input.rules),
+    // The system prompt also covers reply mode and instruction rules
+    prompt: crypto.createHash('sha256').update(buildSystemPrompt(input)).digest('hex')
+  });
+}
+
+// Spans point into the text the entry was computed for; when the new text
+// differs only in whitespace they are found again by their quotes
+function reanchor(issue: SanityIssue, text: string): SanityIssue {
+  const { spans, replacement, ...rest } = issue;
+  const anchored = anchorQuotes(text, (spans || []).map(span => span.quote));
+  const replacementSpan = replacement && anchorQuote(text, replacement.quote, { allowFuzzy: false });
+  return {
+    ...rest,
+    spans: anchored.length > 0 ? anchored : undefined,
+    replacement: replacementSpan ? { ...replacementSpan, text: replacement!.text } : undefined
+  };
+}
+
+export async function analyzeWithCache(
+  input: AnalysisInput,
+  provider: LLMProvider,
+  options: CachedAnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const key = analysisCacheKey(input, provider);
+  const message = input.originalMessage ?? input.message;
+
+  if (!options.bypassCache) {
+    const cached = await readCache<CachedAnalysis>(key);
+    if (cached) {
+      const issues = cached.message === message
+        ? cached.result.issues
+        : cached.result.issues.map(issue => reanchor(issue, message));
+      issues.forEach(issue => options.onIssue?.(issue));
+      return {
+        success: true,
+        result: {
+          ...cached.result,
+          issues,
+          meta: { status: 'complete', ...cached.result.meta, cached: true, cachedAt: cached.cachedAt }
+        },
+        attempts: 0,
+        model: cached.model,
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        promptVersion: cached.promptVersion,
+        cache: 'HIT'
+      };
+    }
+  }
+
+  const analysis = await runAnalysis(input, provider, options);
+  const cache: CacheStatus = options.bypassCache ? 'BYPASS' : 'MISS';
+
+  // Partial and degraded results are only a stand-in for a full answer;
+  // don't keep them
+  if (analysis.success && analysis.result?.meta?.status === 'complete') {
+    const entry: CachedAnalysis = {
+      result: analysis.result!,
+      promptVersion: analysis.promptVersion,
+      message,
+      model: analysis.model,
+      cachedAt: new Date().toISOString()
+    };
+    await writeCache(key, entry, ANALYSIS_CACHE_TTL_MS);
+  }
+  return { ...analysis, cache };
+}
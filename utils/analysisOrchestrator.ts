@@ -0,0 +1,389 @@
+// Multi-pass analysis: focused checkers run in parallel, each with its own
+// prompt, token budget and timeout, and their issues are merged into one
+// SanityResult. A checker that fails or times out costs only its own
+// categories; the others are still returned as a partial result.
+
+import { CheckerReport, IssueCategory, MessageLanguage, REPLY_CATEGORIES, SanityIssue, SanityResult } from '../types';
+import { buildRulesPrompt, getInstructionRules } from './customRules';
+import { isDuplicateIssue, mergeIssues, scoreFromIssues } from './issueMerge';
+import { CompletionUsage, LLMProvider } from './llmProvider';
+import { runLocalChecks } from './localChecks';
+import { contextStrings } from './messageContext';
+import { buildPlatformPrompt } from './platforms';
+import { getPromptTemplate } from './prompts';
+import { RiskAssessment } from './promptSecurity';
+import { createRedaction } from './sensitiveData';
+import {
+  addUsage,
+  AnalysisInput,
+  AnalysisOptions,
+  AnalysisResult,
+  analyzeMessage,
+  buildLanguageSection,
+  degradedResult,
+  ModelAnalysis,
+  requestModelAnalysis,
+  resolveMessageLanguage
+} from './sanityAnalysis';
+
+export type AnalysisMode = 'single' | 'multi';
+
+const ANALYSIS_MODES: AnalysisMode[] = ['single', 'multi'];
+
+const RISK_WARNING =
+  'Parts of this message read like instructions to an AI model. They were checked as ordinary text; make sure they are meant to be there.';
+
+// One repair attempt: a checker that can't answer in two tries is dropped
+// rather than holding up the others
+const CHECKER_MAX_ATTEMPTS = 2;
+
+interface Checker {
+  id: string;
+  // Completes "The ... check timed out"
+  label: string;
+  maxTokens: number;
+  // Scales the model's confidence; subjective checks are less certain
+  confidenceWeight?: number;
+  applies(input: AnalysisInput): boolean;
+  // Issues outside the checker's area are dropped; another checker owns them
+  accepts(issue: SanityIssue): boolean;
+}
+
+const inCategories = (...categories: IssueCategory[]) =>
+  (issue: SanityIssue) => categories.includes(issue.category);
+
+// In merge order: earlier checkers win duplicates
+const CHECKERS: Checker[] = [
+  {
+    id: 'entities',
+    label: 'names and companies',
+    maxTokens: 600,
+    applies: () => true,
+    accepts: inCategories('entity_mismatch')
+  },
+  {
+    id: 'reply',
+    label: 'reply',
+    maxTokens: 600,
+    applies: ({ context }) => Boolean(context?.thread && context.thread.length > 0),
+    accepts: inCategories(...REPLY_CATEGORIES)
+  },
+  {
+    id: 'attachments',
+    label: 'attachments',
+    maxTokens: 300,
+    applies: () => true,
+    accepts: inCategories('attachment')
+  },
+  {
+    id: 'rules',
+    label: 'team style rules',
+    maxTokens: 500,
+    applies: ({ rules }) => getInstructionRules(rules || []).length > 0,
+    accepts: issue => Boolean(issue.rule)
+  },
+  {
+    id: 'tone',
+    label: 'tone',
+    maxTokens: 400,
+    confidenceWeight: 0.85,
+    applies: () => true,
+    accepts: inCategories('tone')
+  },
+  {
+    id: 'language',
+    label: 'grammar and subject line',
+    maxTokens: 600,
+    applies: () => true,
+    accepts: inCategories('grammar', 'subject', 'other')
+  }
+];
+
+class CheckerTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'CheckerTimeoutError';
+  }
+}
+
+interface CheckerOutcome {
+  checker: Checker;
+  report: CheckerReport;
+  usage: CompletionUsage;
+  result?: SanityResult;
+  validationErrors?: string[];
+  error?: unknown;
+}
+
+export function getAnalysisMode(env: NodeJS.ProcessEnv = process.env): AnalysisMode {
+  const mode = (env.ANALYSIS_MODE || 'single').toLowerCase() as AnalysisMode;
+  if (!ANALYSIS_MODES.includes(mode)) {
+    throw new Error(`Unknown ANALYSIS_MODE "${env.ANALYSIS_MODE}". Expected one of: ${ANALYSIS_MODES.join(', ')}`);
+  }
+  return mode;
+}
+
+// Multi-pass needs a prompt version with checker prompts
+export function resolveAnalysisMode(promptVersion?: string, mode: AnalysisMode = getAnalysisMode()): AnalysisMode {
+  return mode === 'multi' && getPromptTemplate(promptVersion).checkers ? 'multi' : 'single';
+}
+
+function checkerTimeoutMs(): number {
+  const value = Number(process.env.CHECKER_TIMEOUT_MS);
+  return Number.isFinite(value) && value > 0 ? value : 20000;
+}
+
+// Rejects after `timeoutMs` and aborts the request in flight
+async function withTimeout<T>(timeoutMs: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new CheckerTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function calibrate(checker: Checker, issue: SanityIssue): SanityIssue | null {
+  if (!checker.accepts(issue)) return null;
+  if (!checker.confidenceWeight) return issue;
+  return { ...issue, confidence: Math.round(issue.confidence * checker.confidenceWeight * 100) / 100 };
+}
+
+function calibrateAll(checker: Checker, issues: SanityIssue[]): SanityIssue[] {
+  return issues.map(issue => calibrate(checker, issue)).filter((issue): issue is SanityIssue => issue !== null);
+}
+
+async function runChecker(
+  checker: Checker,
+  input: AnalysisInput,
+  provider: LLMProvider,
+  onIssue?: (issue: SanityIssue) => void
+): Promise<CheckerOutcome> {
+  const template = getPromptTemplate(input.promptVersion);
+  const systemPrompt = template.checkers![checker.id] +
+    (checker.id === 'rules' ? buildRulesPrompt(input.rules || []) : '') +
+    (checker.id === 'tone' && template.platformSection ? buildPlatformPrompt(input.platform) : '') +
+    buildLanguageSection(input);
+  const timeoutMs = checkerTimeoutMs();
+  // Per checker. A timeout aborts the request in flight, whose tokens are
+  // still billed, so requestModelAnalysis adds an estimate of them
+  const usage: CompletionUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const startedAt = Date.now();
+  const report = (status: CheckerReport['status'], fields: Partial<CheckerReport> = {}): CheckerReport => ({
+    id: checker.id,
+    status,
+    durationMs: Date.now() - startedAt,
+    issueCount: 0,
+    attempts: 0,
+    ...fields
+  });
+
+  let model: ModelAnalysis;
+  try {
+    model = await withTimeout(timeoutMs, signal => requestModelAnalysis(input, provider, usage, {
+      systemPrompt,
+      maxTokens: checker.maxTokens,
+      maxAttempts: CHECKER_MAX_ATTEMPTS,
+      signal,
+      onIssue: onIssue && (issue => {
+        const calibrated = calibrate(checker, issue);
+        if (calibrated) onIssue(calibrated);
+      })
+    }));
+  } catch (error) {
+    if (error instanceof CheckerTimeoutError) {
+      return { checker, usage, error, report: report('timeout', { error: error.message }) };
+    }
+    console.error(`Checker "${checker.id}" failed:`, error);
+    return { checker, usage, error, report: report('failed', { error: 'The model request failed' }) };
+  }
+
+  if (!model.result) {
+    return {
+      checker,
+      usage,
+      validationErrors: model.validationErrors,
+      report: report('failed', { attempts: model.attempts, error: 'The model returned an unreadable result' })
+    };
+  }
+
+  const issues = calibrateAll(checker, model.result.issues);
+  return {
+    checker,
+    usage,
+    result: { ...model.result, issues },
+    report: report('ok', { attempts: model.attempts, issueCount: issues.length })
+  };
+}
+
+function summarize(succeeded: CheckerOutcome[], issues: SanityIssue[]): string {
+  if (issues.length === 0) return 'No issues found.';
+  const summaries = succeeded
+    .filter(outcome => outcome.result!.issues.length > 0)
+    .map(outcome => outcome.result!.summary.trim())
+    .filter(Boolean);
+  return summaries.length > 0
+    ? summaries.join(' ')
+    : `Found ${issues.length} issue${issues.length === 1 ? '' : 's'}.`;
+}
+
+// Runs the local checks, then every applicable checker at once. Local issues
+// come first, as in a single-pass analysis; checker issues are merged in
+// checker order.
+export async function analyzeMultiPass(
+  input: AnalysisInput,
+  provider: LLMProvider,
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const promptVersion = getPromptTemplate(input.promptVersion).version;
+  input = { ...input, promptVersion };
+  const localIssues = runLocalChecks({
+    message: input.originalMessage ?? input.message,
+    context: input.context,
+    platform: input.platform,
+    rules: input.rules
+  });
+
+  // Checkers stream concurrently; each issue is reported once
+  const { onIssue } = options;
+  const reported = [...localIssues];
+  localIssues.forEach(issue => onIssue?.(issue));
+  const onCheckerIssue = onIssue && ((issue: SanityIssue) => {
+    if (reported.some(existing => isDuplicateIssue(existing, issue))) return;
+    reported.push(issue);
+    onIssue(issue);
+  });
+
+  const checkers = CHECKERS.filter(checker => getPromptTemplate(promptVersion).checkers![checker.id] && checker.applies(input));
+  const outcomes = await Promise.all(checkers.map(checker => runChecker(checker, input, provider, onCheckerIssue)));
+
+  const usage: CompletionUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  outcomes.forEach(outcome => addUsage(usage, outcome.usage));
+  const reports = outcomes.map(outcome => outcome.report);
+  const attempts = Math.max(1, ...reports.map(report => report.attempts));
+  const succeeded = outcomes.filter(outcome => outcome.result);
+  const failed = outcomes.filter(outcome => !outcome.result);
+
+  if (succeeded.length === 0) {
+    if (localIssues.length > 0) {
+      const degraded = degradedResult(localIssues, 'None of the AI checks could be completed.', promptVersion);
+      return {
+        success: true,
+        result: { ...degraded, meta: { ...degraded.meta!, checkers: reports } },
+        attempts,
+        model: provider.model,
+        usage,
+        promptVersion
+      };
+    }
+    if (failed.every(outcome => outcome.error instanceof CheckerTimeoutError)) {
+      return {
+        success: false,
+        error: 'The analysis took too long and was stopped. Please try again.',
+        errorCode: 'ANALYSIS_TIMEOUT',
+        httpStatus: 504,
+        attempts,
+        model: provider.model,
+        usage,
+        promptVersion
+      };
+    }
+    const unreadable = failed.filter(outcome => outcome.validationErrors);
+    if (unreadable.length === 0) throw failed[0].error;
+    return {
+      success: false,
+      error: 'The analysis could not be completed because the model returned an unreadable result. Please try again.',
+      errorCode: 'ANALYSIS_UNPARSEABLE',
+      httpStatus: 502,
+      validationErrors: unreadable.reduce<string[]>((errors, outcome) => errors.concat(outcome.validationErrors!), []),
+      attempts,
+      model: provider.model,
+      usage,
+      promptVersion
+    };
+  }
+
+  const issues = mergeIssues(localIssues, ...succeeded.map(outcome => outcome.result!.issues));
+  const warnings = failed.map(({ checker, report }) =>
+    `The ${checker.label} check ${report.status === 'timeout' ? 'timed out' : 'failed'}, so those issues may be missing.`
+  );
+  return {
+    success: true,
+    result: {
+      overallScore: Math.min(scoreFromIssues(issues), ...succeeded.map(outcome => outcome.result!.overallScore)),
+      hasIssues: issues.length > 0,
+      issues,
+      summary: summarize(succeeded, issues),
+      meta: {
+        status: failed.length > 0 ? 'partial' : 'complete',
+        warnings: warnings.length > 0 ? warnings : undefined,
+        promptVersion,
+        checkers: reports
+      }
+    },
+    attempts,
+    model: provider.model,
+    usage,
+    promptVersion
+  };
+}
+
+export interface RunAnalysisOptions extends AnalysisOptions {
+  // Defaults to ANALYSIS_MODE
+  mode?: AnalysisMode;
+}
+
+// Records the input's injection risk on the result. Only 'high' and above
+// get a warning; lower scores are common in ordinary technical writing.
+function withRisk(analysis: AnalysisResult, risk?: RiskAssessment): AnalysisResult {
+  if (!risk || risk.level === 'low' || !analysis.result) return analysis;
+  const meta = analysis.result.meta || { status: 'complete' };
+  const warnings = risk.level === 'high' || risk.level === 'critical'
+    ? [...(meta.warnings || []), RISK_WARNING]
+    : meta.warnings;
+  return {
+    ...analysis,
+    result: {
+      ...analysis.result,
+      meta: { ...meta, warnings, risk: { score: risk.score, level: risk.level, signals: risk.signals } }
+    }
+  };
+}
+
+function withLanguage(analysis: AnalysisResult, language: MessageLanguage): AnalysisResult {
+  if (!analysis.result) return analysis;
+  const meta = analysis.result.meta || { status: 'complete' };
+  return { ...analysis, result: { ...analysis.result, meta: { ...meta, language } } };
+}
+
+function withRedaction(analysis: AnalysisResult, { redaction }: AnalysisInput): AnalysisResult {
+  if (!redaction || redaction.entries.length === 0 || !analysis.result) return analysis;
+  const meta = analysis.result.meta || { status: 'complete' };
+  return { ...analysis, result: { ...analysis.result, meta: { ...meta, redacted: redaction.entries.length } } };
+}
+
+// Entry point for the endpoints: a multi-pass analysis when enabled and the
+// prompt version supports it, otherwise a single model call. Sensitive
+// values are redacted here, once for all model calls.
+export async function runAnalysis(
+  input: AnalysisInput,
+  provider: LLMProvider,
+  options: RunAnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const { mode, ...analysisOptions } = options;
+  if (input.redact) {
+    const texts = [input.message, ...(input.context ? contextStrings(input.context).map(([, value]) => value) : [])];
+    input = { ...input, redaction: createRedaction(texts) };
+  }
+  const analysis = resolveAnalysisMode(input.promptVersion, mode) === 'multi'
+    ? await analyzeMultiPass(input, provider, analysisOptions)
+    : await analyzeMessage(input, provider, analysisOptions);
+  return withRedaction(withLanguage(withRisk(analysis, input.risk), resolveMessageLanguage(input)), input);
+}
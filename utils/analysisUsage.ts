@@ -0,0 +1,39 @@
+// Accounting for one analysis: the usage ledger plus the caller's API key quota
+
+import { recordTokenUsage } from './apiKeys';
+import { getLLMProvider } from './llmProvider';
+import { AnalysisResult } from './sanityAnalysis';
+import { recordAnalysisUsage } from './usageLedger';
+
+export interface UsageContext {
+  clientId: string;
+  apiKeyId?: string;
+  startedAt: number;
+  streaming: boolean;
+}
+
+// Records the analysis in the usage ledger and counts its tokens against the
+// caller's API key quota. Accounting failures never fail the request.
+export async function recordUsage(context: UsageContext, analysis: AnalysisResult | null) {
+  const usage = analysis?.usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  try {
+    const provider = getLLMProvider();
+    await recordAnalysisUsage({
+      clientId: context.clientId,
+      apiKeyId: context.apiKeyId,
+      provider: provider.name,
+      model: analysis?.model || provider.model,
+      ...usage,
+      latencyMs: Date.now() - context.startedAt,
+      status: !analysis?.success ? 'failed' : analysis.result?.meta?.status || 'complete',
+      streaming: context.streaming,
+      cached: analysis?.cache === 'HIT' || undefined,
+      promptVersion: analysis?.promptVersion
+    });
+    if (context.apiKeyId) {
+      await recordTokenUsage(context.apiKeyId, usage.totalTokens);
+    }
+  } catch (error) {
+    console.error('Failed to record usage:', error);
+  }
+}
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { after, before, describe, it } from 'node:test';
+import { createApiKey, findApiKey, getQuotaStatus, recordTokenUsage } from './apiKeys';
+
+const run = promisify(execFile);
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-test-'));
+const keysFile = path.join(directory, 'keys.json');
+
+// Records usage from a separate process sharing the same keys file
+const RECORD_USAGE = `
+const { recordTokenUsage } = require(${JSON.stringify(path.join(__dirname, 'apiKeys.ts'))});
+const [id, times] = process.argv.slice(1);
+Promise.all(Array.from({ length: Number(times) }, () => recordTokenUsage(id, 1)));
+`;
+
+describe('API keys in a shared file', () => {
+  before(() => {
+    process.env.API_KEYS_FILE = keysFile;
+  });
+  after(() => {
+    delete process.env.API_KEYS_FILE;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('finds an issued key and ignores malformed stored hashes', async () => {
+    const { key, info } = await createApiKey({ name: 'ci' });
+    const data = JSON.parse(fs.readFileSync(keysFile, 'utf8'));
+    data.keys.unshift({ ...data.keys[0], id: 'broken', hash: 'abc' }, { ...data.keys[0], id: 'missing', hash: undefined });
+    fs.writeFileSync(keysFile, JSON.stringify(data));
+
+    assert.equal((await findApiKey(key))?.id, info.id);
+    assert.equal(await findApiKey(`${key}x`), null);
+  });
+
+  it('counts every increment from concurrent processes', async () => {
+    const { info } = await createApiKey({ name: 'quota', monthlyTokenQuota: 1000 });
+    const child = () => run(process.execPath, ['--import', 'tsx', '-e', RECORD_USAGE, info.id, '20'], { timeout: 60000 });
+    await Promise.all([child(), child(), Promise.all(Array.from({ length: 20 }, () => recordTokenUsage(info.id, 1)))]);
+
+    assert.equal((await getQuotaStatus(info)).used, 60);
+    assert.equal(fs.existsSync(`${keysFile}.lock`), false);
+  });
+});
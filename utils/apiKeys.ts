@@ -0,0 +1,203 @@
+// API keys for programmatic access. Keys are shown once when issued and
+// only their SHA-256 hash is stored.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { NextApiRequest } from 'next';
+import { withFileLock } from './fileLock';
+import { getBearerToken } from './sessionManager';
+
+const KEY_PREFIX = 'sck_';
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  // First characters of the key, so people can tell their keys apart
+  prefix: string;
+  hash: string;
+  createdAt: string;
+  revokedAt?: string;
+  // Overrides the endpoint's default requests per window
+  rateLimitMax?: number;
+  rateLimitWindowMs?: number;
+  // Model tokens per calendar month (UTC); unlimited when unset
+  monthlyTokenQuota?: number;
+}
+
+// What is safe to return from the admin API
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'hash'>;
+
+export interface ApiKeyOptions {
+  name: string;
+  rateLimitMax?: number;
+  rateLimitWindowMs?: number;
+  monthlyTokenQuota?: number;
+}
+
+export interface QuotaStatus {
+  allowed: boolean;
+  used: number;
+  quota?: number;
+  resetsAt: string;
+}
+
+interface MonthlyUsage {
+  month: string;
+  tokens: number;
+}
+
+interface KeyStoreData {
+  keys: ApiKeyRecord[];
+  usage: Record<string, MonthlyUsage>;
+}
+
+// Without API_KEYS_FILE, keys last only as long as this server instance
+let memoryData: KeyStoreData = { keys: [], usage: {} };
+let queue: Promise<unknown> = Promise.resolve();
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function currentMonth(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 7);
+}
+
+function nextMonthStart(now: Date = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString();
+}
+
+export function toApiKeyInfo({ hash, ...info }: ApiKeyRecord): ApiKeyInfo {
+  return info;
+}
+
+async function readData(): Promise<KeyStoreData> {
+  const file = process.env.API_KEYS_FILE;
+  if (!file) return memoryData;
+
+  try {
+    const data = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    return { keys: data.keys || [], usage: data.usage || {} };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { keys: [], usage: {} };
+    throw error;
+  }
+}
+
+async function writeData(data: KeyStoreData): Promise<void> {
+  const file = process.env.API_KEYS_FILE;
+  if (!file) {
+    memoryData = data;
+    return;
+  }
+
+  const tempPath = `${file}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2));
+  await fs.promises.rename(tempPath, file);
+}
+
+// Read-modify-write cycles run one at a time so concurrent requests don't
+// overwrite each other's changes: queued within this process, and under a
+// lock file next to API_KEYS_FILE across the processes sharing it
+function update<T>(change: (data: KeyStoreData) => T): Promise<T> {
+  const cycle = async () => {
+    const data = await readData();
+    const value = change(data);
+    await writeData(data);
+    return value;
+  };
+  const result = queue.then(() => {
+    const file = process.env.API_KEYS_FILE;
+    return file ? withFileLock(`${file}.lock`, cycle) : cycle();
+  });
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+export async function createApiKey(options: ApiKeyOptions): Promise<{ key: string; info: ApiKeyInfo }> {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id: crypto.randomUUID(),
+    name: options.name,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    hash: hashKey(key),
+    createdAt: new Date().toISOString(),
+    rateLimitMax: options.rateLimitMax,
+    rateLimitWindowMs: options.rateLimitWindowMs,
+    monthlyTokenQuota: options.monthlyTokenQuota
+  };
+
+  await update(data => {
+    data.keys.push(record);
+  });
+  return { key, info: toApiKeyInfo(record) };
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKeyInfo | null> {
+  return update(data => {
+    const record = data.keys.find(item => item.id === id);
+    if (!record) return null;
+    record.revokedAt = record.revokedAt || new Date().toISOString();
+    return toApiKeyInfo(record);
+  });
+}
+
+export async function listApiKeys(): Promise<ApiKeyInfo[]> {
+  const data = await readData();
+  return data.keys.map(toApiKeyInfo);
+}
+
+// Looks up an active key. Returns null for unknown and revoked keys alike.
+export async function findApiKey(key: string): Promise<ApiKeyRecord | null> {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+
+  const hash = Buffer.from(hashKey(key), 'hex');
+  const data = await readData();
+  const record = data.keys.find(item => {
+    // timingSafeEqual throws on buffers of different lengths, e.g. a
+    // hand-edited or truncated hash in the keys file
+    const stored = Buffer.from(typeof item.hash === 'string' ? item.hash : '', 'hex');
+    return stored.length === hash.length && crypto.timingSafeEqual(stored, hash);
+  });
+  return record && !record.revokedAt ? record : null;
+}
+
+export type ApiKeyResolution =
+  | { status: 'none' }
+  | { status: 'invalid' }
+  | { status: 'valid'; record: ApiKeyRecord };
+
+// A request without a bearer token is anonymous; one with a token must
+// carry a valid key.
+export async function resolveApiKey(req: NextApiRequest): Promise<ApiKeyResolution> {
+  const token = getBearerToken(req);
+  if (!token) return { status: 'none' };
+
+  const record = await findApiKey(token);
+  return record ? { status: 'valid', record } : { status: 'invalid' };
+}
+
+export async function getQuotaStatus(record: ApiKeyInfo): Promise<QuotaStatus> {
+  const data = await readData();
+  const usage = data.usage[record.id];
+  const used = usage && usage.month === currentMonth() ? usage.tokens : 0;
+
+  return {
+    allowed: record.monthlyTokenQuota === undefined || used < record.monthlyTokenQuota,
+    used,
+    quota: record.monthlyTokenQuota,
+    resetsAt: nextMonthStart()
+  };
+}
+
+export async function recordTokenUsage(keyId: string, tokens: number): Promise<void> {
+  if (tokens <= 0) return;
+
+  const month = currentMonth();
+  await update(data => {
+    const usage = data.usage[keyId];
+    data.usage[keyId] = usage && usage.month === month
+      ? { month, tokens: usage.tokens + tokens }
+      : { month, tokens };
+  });
+}
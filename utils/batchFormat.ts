@@ -0,0 +1,159 @@
+// Reading batch items from CSV/JSONL/JSON and writing batch results back out.
+// Shared by the batch endpoint and the batch page.
+
+import { BatchItem, BatchItemResult, MessageContext, Relationship, RELATIONSHIPS } from '../types';
+import { parseCsvRecords, toCsv } from './csv';
+
+export type BatchFormat = 'csv' | 'jsonl' | 'json';
+
+export interface ParsedBatch {
+  items: BatchItem[];
+  // Rows that could not be read, e.g. "Line 3: invalid JSON"
+  errors: string[];
+}
+
+// From a filename, a Content-Type or a `format` query value
+export function detectBatchFormat(hint?: string): BatchFormat | null {
+  const value = (hint || '').toLowerCase();
+  if (/(^|[./])csv$|text\/csv/.test(value)) return 'csv';
+  if (/(^|[./])(jsonl|ndjson)$|x-ndjson|jsonl/.test(value)) return 'jsonl';
+  if (/(^|[./])json$|application\/json/.test(value)) return 'json';
+  return null;
+}
+
+function splitList(value: string): string[] {
+  return value.split(/[;|]/).map(part => part.trim()).filter(Boolean);
+}
+
+// Columns that describe the message rather than fill it in
+export const CONTEXT_COLUMNS = [
+  'id', 'message', 'platform', 'context', 'url', 'recipient_name', 'recipient_role',
+  'recipient_company', 'sender_role', 'relationship', 'attachments', 'notes',
+  'language', 'ui_language'
+];
+
+// Either a `context` column (JSON object or free text) or the flat columns
+// recipient_name, recipient_role, recipient_company, sender_role,
+// relationship, notes and attachments (separated by ";", or "none")
+export function rowToContext(row: Record<string, string>): MessageContext | string | undefined {
+  const trimmed = (key: string) => (row[key] || '').trim();
+
+  const rawContext = trimmed('context');
+  if (rawContext.startsWith('{')) {
+    try {
+      return JSON.parse(rawContext);
+    } catch {
+      return rawContext;
+    }
+  }
+
+  const recipient = {
+    name: trimmed('recipient_name') || undefined,
+    role: trimmed('recipient_role') || undefined,
+    company: trimmed('recipient_company') || undefined
+  };
+  const relationship = trimmed('relationship') as Relationship;
+  const attachments = trimmed('attachments');
+  const structured: MessageContext = {
+    recipient: recipient.name || recipient.role || recipient.company ? recipient : undefined,
+    sender: trimmed('sender_role') ? { role: trimmed('sender_role') } : undefined,
+    relationship: RELATIONSHIPS.includes(relationship) ? relationship : undefined,
+    attachments: attachments
+      ? attachments.toLowerCase() === 'none' ? [] : splitList(attachments)
+      : undefined,
+    notes: [rawContext, trimmed('notes')].filter(Boolean).join('\n\n') || undefined
+  };
+  const hasFields = Object.values(structured).some(value => value !== undefined);
+  return hasFields ? structured : undefined;
+}
+
+// CSV columns: message (required), id, platform, language, ui_language and
+// the context columns
+function rowToItem(row: Record<string, string>): BatchItem {
+  return {
+    id: (row.id || '').trim() || undefined,
+    message: row.message || '',
+    platform: (row.platform || '').trim() || undefined,
+    language: (row.language || '').trim() || undefined,
+    uiLanguage: (row.ui_language || '').trim() || undefined,
+    context: rowToContext(row)
+  };
+}
+
+export function parseBatchItems(text: string, format: BatchFormat): ParsedBatch {
+  if (format === 'csv') {
+    const records = parseCsvRecords(text);
+    if (records.length > 0 && !('message' in records[0])) {
+      return { items: [], errors: ['The CSV needs a "message" column'] };
+    }
+    return { items: records.map(rowToItem), errors: [] };
+  }
+
+  if (format === 'json') {
+    try {
+      const data = JSON.parse(text);
+      const items = Array.isArray(data) ? data : data?.items;
+      return Array.isArray(items)
+        ? { items, errors: [] }
+        : { items: [], errors: ['Expected an array of items or { "items": [...] }'] };
+    } catch {
+      return { items: [], errors: ['Invalid JSON'] };
+    }
+  }
+
+  const items: BatchItem[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      items.push(JSON.parse(line));
+    } catch {
+      errors.push(`Line ${index + 1}: invalid JSON`);
+    }
+  });
+  return { items, errors };
+}
+
+// An item fails when it could not be checked or has a high-severity issue
+export function needsAttention(result: BatchItemResult): boolean {
+  return result.status === 'error' || !!result.result?.issues.some(issue => issue.severity === 'high');
+}
+
+const RESULT_COLUMNS = [
+  'index', 'id', 'status', 'needs_attention', 'score', 'issue_count', 'high_severity', 'summary', 'issues', 'error', 'code'
+];
+
+// One line per issue, "[high] entity_mismatch: problem"
+function describeIssues(result: BatchItemResult): string {
+  return (result.result?.issues || [])
+    .map(issue => `[${issue.severity}] ${issue.category}: ${issue.problem}`)
+    .join('\n');
+}
+
+export function formatBatchResults(results: BatchItemResult[], format: BatchFormat): string {
+  if (format === 'json') return JSON.stringify({ items: results }, null, 2);
+  if (format === 'jsonl') return results.map(result => JSON.stringify(result)).join('\n') + '\n';
+
+  return toCsv([
+    RESULT_COLUMNS,
+    ...results.map(result => [
+      result.index,
+      result.id,
+      result.status,
+      needsAttention(result),
+      result.result?.overallScore,
+      result.result?.issues.length,
+      result.result?.issues.filter(issue => issue.severity === 'high').length,
+      result.result?.summary,
+      describeIssues(result),
+      result.error,
+      result.code
+    ])
+  ]);
+}
+
+export const BATCH_CONTENT_TYPES: Record<BatchFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
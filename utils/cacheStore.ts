@@ -0,0 +1,174 @@
+// Content-addressed cache for analyses and URL extractions
+//
+// Entries are keyed by a SHA-256 of their normalized inputs, so identical
+// requests share an entry regardless of who sent them. Values are JSON.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getRedisClient } from './redisClient';
+
+export interface CacheStore {
+  name: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+}
+
+export type CacheStatus = 'HIT' | 'MISS' | 'BYPASS' | 'REVALIDATED';
+
+interface StoredEntry {
+  expiresAt: number;
+  value: string;
+}
+
+// JSON with sorted object keys and undefined values dropped, so equal inputs
+// always serialize the same way
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : stableStringify(item))).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function cacheKey(namespace: string, parts: unknown): string {
+  return `${namespace}:${crypto.createHash('sha256').update(stableStringify(parts)).digest('hex')}`;
+}
+
+// Per-process, bounded; the oldest entries are evicted first
+export function createMemoryCacheStore(maxEntries: number = 500): CacheStore {
+  const entries = new Map<string, StoredEntry>();
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { expiresAt: Date.now() + ttlMs, value });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    }
+  };
+}
+
+// One file per entry, so writers never contend for a shared file. Expired
+// entries are removed when they are next read.
+export function createFileCacheStore(directory: string): CacheStore {
+  const fileFor = (key: string) =>
+    path.join(directory, `${crypto.createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    name: 'file',
+    async get(key) {
+      const filePath = fileFor(key);
+      try {
+        const entry: StoredEntry = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+        if (entry.expiresAt > Date.now()) return entry.value;
+        await fs.promises.rm(filePath, { force: true });
+        return null;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async set(key, value, ttlMs) {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const filePath = fileFor(key);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify({ expiresAt: Date.now() + ttlMs, value }));
+      await fs.promises.rename(tempPath, filePath);
+    }
+  };
+}
+
+export function createRedisCacheStore(): CacheStore {
+  return {
+    name: 'redis',
+    async get(key) {
+      const reply = await getRedisClient().command(['GET', `cache:${key}`]);
+      return typeof reply === 'string' ? reply : null;
+    },
+    async set(key, value, ttlMs) {
+      await getRedisClient().command(['SET', `cache:${key}`, value, 'PX', Math.max(1, Math.round(ttlMs))]);
+    }
+  };
+}
+
+export function createCacheStore(
+  name: string = process.env.CACHE_STORE || 'memory'
+): CacheStore | null {
+  switch (name) {
+    case 'none':
+      return null;
+    case 'memory':
+      return createMemoryCacheStore();
+    case 'file':
+      return createFileCacheStore(
+        process.env.CACHE_DIR || path.join(os.tmpdir(), 'sanity-check-cache')
+      );
+    case 'redis':
+      return createRedisCacheStore();
+    default:
+      throw new Error(`Unknown CACHE_STORE "${name}". Expected memory, file, redis or none.`);
+  }
+}
+
+let store: CacheStore | null | undefined;
+
+export function getCacheStore(): CacheStore | null {
+  if (store === undefined) {
+    store = createCacheStore();
+  }
+  return store;
+}
+
+// A cache that is down behaves like an empty one
+export async function readCache<T>(key: string): Promise<T | null> {
+  const cache = getCacheStore();
+  if (!cache) return null;
+  try {
+    const value = await cache.get(key);
+    return value === null ? null : JSON.parse(value);
+  } catch (error) {
+    console.error('Cache read failed:', error);
+    return null;
+  }
+}
+
+export async function writeCache(key: string, value: unknown, ttlMs: number): Promise<void> {
+  const cache = getCacheStore();
+  if (!cache || ttlMs <= 0) return;
+  try {
+    await cache.set(key, JSON.stringify(value), ttlMs);
+  } catch (error) {
+    console.error('Cache write failed:', error);
+  }
+}
+
+export function readTtl(name: string, fallbackMs: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallbackMs;
+}
+
+// `Cache-Control: no-cache` or `"noCache": true` skips the lookup; the fresh
+// result still replaces the cached one
+export function wantsCacheBypass(headers: Record<string, string | string[] | undefined>, body?: any): boolean {
+  const cacheControl = String(headers['cache-control'] || '').toLowerCase();
+  return /\bno-(?:cache|store)\b/.test(cacheControl) || body?.noCache === true;
+}
@@ -0,0 +1,23 @@
+// Runs `fn` over `items` with at most `limit` calls in flight. Results keep
+// the order of `items`; `fn` is expected to handle its own errors.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  // A limit that isn't a number (e.g. NaN from a bad setting) runs one at a time
+  const size = Math.floor(Math.min(limit, items.length));
+  const workers = Array.from({ length: size >= 1 ? size : 1 }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { StyleRule } from '../types';
+import { buildRulesPrompt, parseRulesDocument, runCustomRules, validateRules } from './customRules';
+
+const regexRule = (pattern: string, replacement: string, flags?: string): StyleRule => ({
+  id: 'rule',
+  name: 'Rule',
+  type: 'regex',
+  category: 'tone',
+  severity: 'low',
+  pattern,
+  flags,
+  replacement
+});
+
+// The replacement text of each hit
+const replacements = (rule: StyleRule, message: string) =>
+  runCustomRules([rule], message).map(issue => issue.replacement!.text);
+
+describe('validateRules', () => {
+  it('accepts a list or a document with a rules array', () => {
+    const rule = { id: 'no-asap', name: 'No ASAP', type: 'keyword', category: 'tone', severity: 'low', keywords: ['ASAP'] };
+    const list = validateRules([rule]);
+    assert.deepEqual(list.errors, []);
+    assert.equal(list.rules[0].enabled, true);
+    assert.equal(list.rules[0].caseSensitive, false);
+    assert.deepEqual(validateRules({ rules: [rule] }).rules, list.rules);
+  });
+
+  it('reports every problem with its path and keeps no rules', () => {
+    const { rules, errors } = validateRules([
+      { id: 'ok', name: 'Fine', type: 'instruction', category: 'tone', severity: 'low', instruction: 'Be brief' },
+      { id: 'bad id!', name: '', type: 'regex', category: 'nope', severity: 'low', pattern: '(a+)+' },
+      { id: 'ok', name: 'Twice', type: 'keyword', category: 'tone', severity: 'low', keywords: ['x'] }
+    ]);
+    assert.deepEqual(rules, []);
+    assert.equal(errors.length, 5);
+    assert.equal(errors[0], 'rules[1].id must be 1-64 letters, digits, "-" or "_"');
+    assert.equal(errors[1], 'rules[1].name is required');
+    assert.match(errors[2], /^rules\[1\]\.category must be one of: /);
+    assert.equal(errors[3], 'rules[1].pattern contains nested quantifiers, which are not allowed');
+    assert.equal(errors[4], 'rules[2].id "ok" is used more than once');
+  });
+
+  it('rejects invalid patterns and non-lists', () => {
+    assert.match(validateRules([regexRule('(', 'x')].map(rule => ({ ...rule, name: 'Open' }))).errors[0], /pattern is invalid/);
+    assert.deepEqual(validateRules('rules').errors, ['Rules must be an array or an object with a "rules" array']);
+  });
+
+  it('parses YAML and JSON documents', () => {
+    assert.deepEqual(parseRulesDocument('rules:\n  - id: a\n'), { rules: [{ id: 'a' }] });
+    assert.deepEqual(parseRulesDocument('{"rules": []}'), { rules: [] });
+  });
+});
+
+describe('runCustomRules', () => {
+  it('reports each keyword hit as a whole word with its span', () => {
+    const rule: StyleRule = {
+      id: 'no-asap', name: 'No ASAP', type: 'keyword', category: 'tone', severity: 'medium', keywords: ['ASAP'], replacement: 'soon'
+    };
+    const issues = runCustomRules([rule], 'Reply asap, not GASAP, ASAP!');
+    assert.deepEqual(issues.map(issue => issue.spans), [
+      [{ start: 6, end: 10, quote: 'asap' }],
+      [{ start: 23, end: 27, quote: 'ASAP' }]
+    ]);
+    assert.equal(issues[0].suggestion, 'Use "soon" instead.');
+    assert.deepEqual(issues[0].rule, { id: 'no-asap', name: 'No ASAP' });
+    assert.equal(runCustomRules([{ ...rule, caseSensitive: true }], 'Reply asap').length, 0);
+  });
+
+  it('skips disabled and instruction rules', () => {
+    const rule = regexRule('x', 'y');
+    assert.deepEqual(runCustomRules([{ ...rule, enabled: false }, { ...rule, type: 'instruction', instruction: 'x' }], 'x'), []);
+  });
+
+  it('expands numbered, named and special replacement tokens', () => {
+    assert.deepEqual(replacements(regexRule('(\\w+)@(\\w+)', '$2 at $1'), 'jane@acme'), ['acme at jane']);
+    assert.deepEqual(replacements(regexRule('(?<first>\\w+) (?<last>\\w+)', '$<last>, $<first>'), 'Jane Doe'), ['Doe, Jane']);
+    assert.deepEqual(replacements(regexRule('cost', '$$$& ($`|$\')'), 'the cost now'), ['$cost (the | now)']);
+  });
+
+  it('reads $10 as group 1 and a 0 when there are fewer groups', () => {
+    assert.deepEqual(replacements(regexRule('(a)', '$10'), 'a'), ['a0']);
+    assert.deepEqual(replacements(regexRule('(a)(b)(c)(d)(e)(f)(g)(h)(i)(j)', '$10'), 'abcdefghij'), ['j']);
+    assert.deepEqual(replacements(regexRule('(a)', '$2'), 'a'), ['$2']);
+    assert.deepEqual(replacements(regexRule('a', '$<name>'), 'a'), ['$<name>']);
+  });
+
+  it('expands from the match in the full message, keeping lookarounds', () => {
+    const rule = regexRule('(?<=Mr\\. )(\\w+)', 'Dr. $1');
+    assert.deepEqual(replacements(rule, 'Dear Mr. Smith'), ['Dr. Smith']);
+    assert.deepEqual(replacements(regexRule('^(hi)', 'Hello', 'i'), 'Hi there, hi'), ['Hello']);
+  });
+
+  it('stops at 20 hits per rule and skips empty matches', () => {
+    assert.equal(runCustomRules([regexRule('a', 'b')], 'a'.repeat(30)).length, 20);
+    assert.equal(runCustomRules([regexRule('x*', 'y')], 'abc').length, 0);
+  });
+});
+
+describe('buildRulesPrompt', () => {
+  it('quotes instruction rules as data', () => {
+    const prompt = buildRulesPrompt([
+      { id: 'brief', name: 'Brief', type: 'instruction', category: 'tone', severity: 'low', instruction: 'Keep it\n  under "100" words' },
+      regexRule('x', 'y')
+    ]);
+    assert.match(prompt, /TEAM STYLE RULES:/);
+    assert.match(prompt, /- id "brief": "Keep it under \\"100\\" words"/);
+    assert.equal(buildRulesPrompt([regexRule('x', 'y')]), '');
+  });
+});
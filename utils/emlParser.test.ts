@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  decodeEncodedWords,
+  emailToDraft,
+  formatAddress,
+  formatEmail,
+  htmlToPlainText,
+  looksLikeEmail,
+  parseAddressList,
+  parseEmail,
+  stripQuotedReply
+} from './emlParser';
+
+const MULTIPART = [
+  'From: =?UTF-8?Q?Ren=C3=A9e_Dupont?= <renee@example.com>',
+  'To: "Doe, Jane" <jane@acme.com>',
+  'Cc: Recruiting: a@acme.com, b@acme.com;',
+  'Subject: =?UTF-8?B?QXBwbGljYXRpb24g4oCT?=',
+  ' =?UTF-8?B?IEVuZ2luZWVy?=',
+  'Date: Tue, 7 May 2024 09:00:00 +0200',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary=inner',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Hi Jane, I=E2=80=99d love to apply for the role at Acme. =',
+  'Thanks!',
+  '',
+  '--inner',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<p>Hi Jane, I&rsquo;d love to apply</p>',
+  '--inner--',
+  '--outer',
+  'Content-Type: application/pdf',
+  "Content-Disposition: attachment; filename*0*=utf-8''R%C3%A9sum%C3%A9;",
+  ' filename*1=.pdf',
+  'Content-Transfer-Encoding: base64',
+  '',
+  'JVBERi0xLjQK',
+  '--outer',
+  'Content-Type: image/png; name=logo.png',
+  'Content-ID: <logo@acme>',
+  'Content-Transfer-Encoding: base64',
+  '',
+  'iVBORw0KGgo=',
+  '--outer--',
+  ''
+].join('\r\n');
+
+describe('looksLikeEmail', () => {
+  it('needs a header block with From or Subject', () => {
+    assert.equal(looksLikeEmail('From: a@b.com\nSubject: Hi\n\nBody'), true);
+    assert.equal(looksLikeEmail('\n  Subject: Hi\n\nBody'), true);
+    assert.equal(looksLikeEmail('Note: call back\n\nBody'), false);
+    assert.equal(looksLikeEmail('Hi Jane,\n\nThanks for your time.'), false);
+  });
+});
+
+describe('decodeEncodedWords', () => {
+  it('decodes B and Q words and joins adjacent ones', () => {
+    assert.equal(decodeEncodedWords('=?UTF-8?B?SGVsbG8=?= =?UTF-8?Q?_w=C3=B6rld?='), 'Hello wörld');
+    assert.equal(decodeEncodedWords('=?ISO-8859-1?Q?Caf=E9?= au lait'), 'Café au lait');
+    assert.equal(decodeEncodedWords('Plain subject'), 'Plain subject');
+  });
+});
+
+describe('parseAddressList', () => {
+  it('keeps quoted commas and flattens groups', () => {
+    assert.deepEqual(parseAddressList('"Doe, Jane" <jane@acme.com>, bob@acme.com (Bob), Team: c@acme.com;'), [
+      { name: 'Doe, Jane', address: 'jane@acme.com' },
+      { name: 'Bob', address: 'bob@acme.com' },
+      { address: 'c@acme.com' }
+    ]);
+    assert.deepEqual(parseAddressList(undefined), []);
+  });
+
+  it('round trips through formatAddress', () => {
+    const [address] = parseAddressList('"Doe, Jane" <jane@acme.com>');
+    assert.equal(formatAddress(address), '"Doe, Jane" <jane@acme.com>');
+    assert.deepEqual(parseAddressList(formatAddress(address)), [address]);
+  });
+});
+
+describe('htmlToPlainText', () => {
+  it('keeps line breaks and list items and drops scripts', () => {
+    const html = '<style>p{}</style><p>Hi&nbsp;Jane</p><ul><li>One</li><li>Two</li></ul>Thanks<br>Sam<script>x()</script>';
+    assert.equal(htmlToPlainText(html), 'Hi Jane\n- One\n- Two\nThanks\nSam');
+  });
+});
+
+describe('parseEmail', () => {
+  const email = parseEmail(MULTIPART);
+
+  it('reads and decodes the headers', () => {
+    assert.deepEqual(email.from, { name: 'Renée Dupont', address: 'renee@example.com' });
+    assert.deepEqual(email.to, [{ name: 'Doe, Jane', address: 'jane@acme.com' }]);
+    assert.deepEqual(email.cc.map(address => address.address), ['a@acme.com', 'b@acme.com']);
+    assert.equal(email.subject, 'Application – Engineer');
+    assert.equal(email.date, 'Tue, 7 May 2024 09:00:00 +0200');
+  });
+
+  it('prefers the plain text alternative and decodes quoted-printable', () => {
+    assert.equal(email.fromHtml, false);
+    assert.equal(email.body, 'Hi Jane, I’d love to apply for the role at Acme. Thanks!');
+  });
+
+  it('lists attachments with RFC 2231 names and marks inline parts', () => {
+    assert.deepEqual(email.attachments, [
+      { filename: 'Résumé.pdf', contentType: 'application/pdf', size: 9, inline: false },
+      { filename: 'logo.png', contentType: 'image/png', size: 8, inline: true }
+    ]);
+  });
+
+  it('converts an HTML-only body', () => {
+    const parsed = parseEmail('Subject: Hi\nContent-Type: text/html\n\n<div>Hello <b>there</b></div>');
+    assert.equal(parsed.fromHtml, true);
+    assert.equal(parsed.body, 'Hello there');
+  });
+
+  it('decodes a base64 body in its charset', () => {
+    const parsed = parseEmail('Subject: Hi\nContent-Type: text/plain; charset=utf-8\nContent-Transfer-Encoding: base64\n\nQ2Fmw6k=');
+    assert.equal(parsed.body, 'Café');
+  });
+
+  it('formats back to a header block that parses the same', () => {
+    const again = parseEmail(formatEmail(email));
+    assert.deepEqual(again.from, email.from);
+    assert.deepEqual(again.to, email.to);
+    assert.equal(again.subject, email.subject);
+    assert.equal(again.body, email.body);
+  });
+});
+
+describe('stripQuotedReply', () => {
+  it('drops the quoted history below a reply', () => {
+    const body = 'Sounds good.\n\nOn Mon, 6 May 2024, Jane wrote:\n> Can you start Monday?';
+    assert.equal(stripQuotedReply(body), 'Sounds good.');
+    assert.equal(stripQuotedReply('Yes.\n-----Original Message-----\nFrom: Jane'), 'Yes.');
+    assert.equal(stripQuotedReply('> quoted\nMine'), 'Mine');
+  });
+});
+
+describe('emailToDraft', () => {
+  it('turns headers and attachments into context', () => {
+    const { message, context } = emailToDraft(parseEmail(MULTIPART));
+    assert.equal(message, 'Hi Jane, I’d love to apply for the role at Acme. Thanks!');
+    assert.deepEqual(context.recipient, { name: 'Jane Doe' });
+    assert.deepEqual(context.attachments, ['Résumé.pdf']);
+    assert.deepEqual(context.headers, {
+      from: 'Renée Dupont <renee@example.com>',
+      to: ['"Doe, Jane" <jane@acme.com>'],
+      cc: ['a@acme.com', 'b@acme.com'],
+      subject: 'Application – Engineer'
+    });
+  });
+
+  it('keeps an empty subject so it can be reported', () => {
+    const { context } = emailToDraft(parseEmail('From: a@b.com\nSubject:\n\nHi'));
+    assert.equal(context.headers!.subject, '');
+  });
+});
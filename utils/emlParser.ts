@@ -0,0 +1,421 @@
+// RFC 5322 / MIME (.eml) reader for pasted, uploaded or imported messages.
+// Handles folded headers, encoded words, RFC 2231 parameters, nested
+// multiparts, quoted-printable/base64 bodies and attachment metadata. Runs in
+// the browser and on the server.
+
+import { MessageContext, MessageHeaders, ThreadMessage } from '../types';
+
+export interface EmailAddress {
+  name?: string;
+  address: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  // Decoded size in bytes (estimated for base64)
+  size: number;
+  // Inline parts (e.g. images in an HTML signature) aren't real attachments
+  inline: boolean;
+}
+
+export interface ParsedEmail {
+  from?: EmailAddress;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  subject?: string;
+  date?: string;
+  messageId?: string;
+  inReplyTo?: string;
+  // Plain text of the message, converted from HTML if that's all there is
+  body: string;
+  // True when `body` was converted from HTML
+  fromHtml: boolean;
+  attachments: EmailAttachment[];
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+const HEADER_LINE = /^[A-Za-z][A-Za-z0-9-]*:/;
+const MAX_DEPTH = 10;
+
+// True when the text starts with a header block that includes From or Subject
+export function looksLikeEmail(text: string): boolean {
+  const trimmed = text.replace(/^\s+/, '').replace(/\r\n/g, '\n');
+  const headerEnd = trimmed.indexOf('\n\n');
+  if (headerEnd === -1) return false;
+  const lines = trimmed.slice(0, headerEnd).split('\n');
+  return HEADER_LINE.test(lines[0]) && lines.some(line => /^(from|subject):/i.test(line));
+}
+
+function splitPart(raw: string): MimePart {
+  const headerEnd = raw.indexOf('\n\n');
+  const headerBlock = headerEnd === -1 ? raw : raw.slice(0, headerEnd);
+  const body = headerEnd === -1 ? '' : raw.slice(headerEnd + 2);
+
+  const headers: Record<string, string> = {};
+  // Continuation lines start with whitespace and belong to the previous header
+  for (const line of headerBlock.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  }
+  return { headers, body };
+}
+
+function decodeBytes(bytes: Uint8Array, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function latin1Bytes(text: string): Uint8Array {
+  return Uint8Array.from(Array.from(text), char => char.charCodeAt(0) & 0xff);
+}
+
+function decodeBase64(text: string, charset?: string): string {
+  try {
+    return decodeBytes(latin1Bytes(atob(text.replace(/[^A-Za-z0-9+/=]/g, ''))), charset);
+  } catch {
+    return text;
+  }
+}
+
+function decodeQuotedPrintable(text: string, charset?: string): string {
+  const binary = text
+    .replace(/[ \t]+$/gm, '')
+    .replace(/=\n/g, '')
+    .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  // Unencoded characters were already decoded as UTF-8 when the file was read
+  return /[^\x00-\xff]/.test(binary) ? binary : decodeBytes(latin1Bytes(binary), charset);
+}
+
+// =?charset?B|Q?text?= words; whitespace between adjacent words is dropped
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BQ]\?[^?]*\?=)\s+(?==\?)/gi, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) =>
+      encoding.toUpperCase() === 'B'
+        ? decodeBase64(text, charset)
+        : decodeQuotedPrintable(text.replace(/_/g, ' '), charset)
+    );
+}
+
+// RFC 2231 extended value: charset'language'percent-encoded
+function decodeExtendedValue(value: string): string {
+  const match = value.match(/^([^']*)'[^']*'(.*)$/);
+  const charset = match ? match[1] || 'utf-8' : 'utf-8';
+  const encoded = match ? match[2] : value;
+  const binary = encoded.replace(/%([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return decodeBytes(latin1Bytes(binary), charset);
+}
+
+// Splits on `separator` outside quotes, angle brackets and comments
+function splitOutside(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let depth = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && quoted) {
+      current += char + (value[++i] || '');
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '<' || char === '(')) depth++;
+    else if (!quoted && (char === '>' || char === ')')) depth = Math.max(0, depth - 1);
+    if (char === separator && !quoted && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.startsWith('"') && trimmed.endsWith('"')
+    ? trimmed.slice(1, -1).replace(/\\(.)/g, '$1')
+    : trimmed;
+}
+
+// `text/plain; charset="utf-8"`, including RFC 2231 continuations
+// (`filename*0*=...; filename*1*=...`)
+function parseHeaderValue(header?: string): HeaderValue {
+  const [value, ...rawParams] = splitOutside(header || '', ';');
+  const pieces: Record<string, Array<{ index: number; value: string; extended: boolean }>> = {};
+
+  for (const raw of rawParams) {
+    const eq = raw.indexOf('=');
+    if (eq === -1) continue;
+    const key = raw.slice(0, eq).trim().toLowerCase();
+    const match = key.match(/^([^*]+)(?:\*(\d+))?(\*)?$/);
+    if (!match) continue;
+    (pieces[match[1]] = pieces[match[1]] || []).push({
+      index: match[2] ? Number(match[2]) : 0,
+      value: unquote(raw.slice(eq + 1)),
+      extended: Boolean(match[3])
+    });
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, list] of Object.entries(pieces)) {
+    const sorted = list.sort((a, b) => a.index - b.index);
+    params[name] = sorted[0].extended
+      ? decodeExtendedValue(sorted.map(piece => piece.value).join(''))
+      : decodeEncodedWords(sorted.map(piece => piece.value).join(''));
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+export function parseAddress(raw: string): EmailAddress | null {
+  const text = decodeEncodedWords(raw).trim();
+  if (!text) return null;
+
+  const angle = text.match(/^(.*)<([^>]*)>\s*$/);
+  if (angle) {
+    const name = unquote(angle[1]).trim();
+    return { name: name || undefined, address: angle[2].trim() };
+  }
+  const comment = text.match(/^([^\s(]+)\s*\(([^)]*)\)\s*$/);
+  if (comment) {
+    return { name: comment[2].trim() || undefined, address: comment[1] };
+  }
+  return { address: unquote(text) };
+}
+
+// Address lists, including groups like `Team: a@x.com, b@x.com;`
+export function parseAddressList(header?: string): EmailAddress[] {
+  if (!header) return [];
+  const flattened = header.replace(/[^,:"<]+:([^;]*);/g, '$1');
+  return splitOutside(flattened, ',')
+    .map(parseAddress)
+    .filter((address): address is EmailAddress => address !== null && Boolean(address.address || address.name));
+}
+
+export function formatAddress(address?: EmailAddress): string | undefined {
+  if (!address) return undefined;
+  if (!address.name) return address.address;
+  // Names with commas etc. must be quoted to survive being parsed again
+  const name = /[,;:<>@"()]/.test(address.name) ? `"${address.name.replace(/["\\]/g, '\\$&')}"` : address.name;
+  return address.address ? `${name} <${address.address}>` : name;
+}
+
+// "Doe, Jane" -> "Jane Doe"
+function personName(name: string): string {
+  const parts = name.split(',').map(part => part.trim());
+  return parts.length === 2 && parts[0] && parts[1] ? `${parts[1]} ${parts[0]}` : name;
+}
+
+// "Jane Doe <jane@example.com>" -> "Jane Doe"
+export function displayName(address?: string): string | undefined {
+  if (!address) return undefined;
+  const parsed = parseAddress(address);
+  return parsed?.name || parsed?.address || undefined;
+}
+
+function decodeBody(part: MimePart): string {
+  const { params } = parseHeaderValue(part.headers['content-type']);
+  const encoding = (part.headers['content-transfer-encoding'] || '').trim().toLowerCase();
+  if (encoding === 'base64') return decodeBase64(part.body, params.charset);
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(part.body, params.charset);
+  return part.body;
+}
+
+function decodeEntity(entity: string): string {
+  const named: Record<string, string> = { nbsp: ' ', lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' };
+  if (entity[0] !== '#') return named[entity.toLowerCase()] ?? `&${entity};`;
+  const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+  return Number.isFinite(code) ? String.fromCodePoint(code) : `&${entity};`;
+}
+
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (_, entity: string) => decodeEntity(entity))
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function splitMultipart(body: string, boundary: string): MimePart[] {
+  const delimiter = `--${boundary}`;
+  const parts: MimePart[] = [];
+  const lines = body.split('\n');
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    const trimmed = line.trimEnd();
+    if (trimmed === delimiter || trimmed === `${delimiter}--`) {
+      if (current) parts.push(splitPart(current.join('\n')));
+      current = trimmed === delimiter ? [] : null;
+      if (!current) break;
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  // A missing closing delimiter still yields the last part
+  if (current && current.length > 0) parts.push(splitPart(current.join('\n')));
+  return parts;
+}
+
+interface WalkResult {
+  plain: string[];
+  html: string[];
+  attachments: EmailAttachment[];
+}
+
+function estimateSize(part: MimePart): number {
+  const encoding = (part.headers['content-transfer-encoding'] || '').trim().toLowerCase();
+  if (encoding === 'base64') {
+    const length = part.body.replace(/[^A-Za-z0-9+/]/g, '').length;
+    return Math.floor((length * 3) / 4);
+  }
+  return part.body.length;
+}
+
+function walk(part: MimePart, result: WalkResult, depth: number): void {
+  const type = parseHeaderValue(part.headers['content-type'] || 'text/plain');
+  const disposition = parseHeaderValue(part.headers['content-disposition']);
+  const filename = disposition.params.filename || type.params.name;
+
+  if (type.value.startsWith('multipart/') && depth < MAX_DEPTH) {
+    const children = splitMultipart(part.body, type.params.boundary || '');
+    if (type.value === 'multipart/alternative') {
+      // Alternatives are the same content; keep the best one
+      const preferred =
+        children.find(child => /^text\/plain/i.test(child.headers['content-type'] || 'text/plain')) ||
+        children.find(child => /^text\/html/i.test(child.headers['content-type'] || '')) ||
+        children[children.length - 1];
+      children
+        .filter(child => child !== preferred)
+        .forEach(child => walk(child, { plain: [], html: [], attachments: result.attachments }, depth + 1));
+      if (preferred) walk(preferred, result, depth + 1);
+    } else {
+      children.forEach(child => walk(child, result, depth + 1));
+    }
+    return;
+  }
+
+  const isBodyText = type.value === 'text/plain' || type.value === 'text/html';
+  if (!isBodyText || filename || disposition.value === 'attachment') {
+    result.attachments.push({
+      filename: filename || (type.value === 'message/rfc822' ? 'forwarded-message.eml' : 'unnamed'),
+      contentType: type.value,
+      size: estimateSize(part),
+      inline: disposition.value === 'inline' || (!disposition.value && Boolean(part.headers['content-id']))
+    });
+    return;
+  }
+
+  const text = decodeBody(part);
+  if (type.value.startsWith('text/html')) result.html.push(text);
+  else result.plain.push(text);
+}
+
+export function parseEmail(raw: string): ParsedEmail {
+  const message = splitPart(raw.replace(/\r\n?/g, '\n').replace(/^\s+/, ''));
+  const header = (name: string) => {
+    const value = message.headers[name];
+    return value ? decodeEncodedWords(value).trim() : undefined;
+  };
+
+  const result: WalkResult = { plain: [], html: [], attachments: [] };
+  walk(message, result, 0);
+  const fromHtml = result.plain.length === 0 && result.html.length > 0;
+  const body = fromHtml
+    ? result.html.map(htmlToPlainText).join('\n\n')
+    : result.plain.join('\n\n');
+
+  return {
+    from: parseAddressList(message.headers.from)[0],
+    to: parseAddressList(message.headers.to),
+    cc: parseAddressList(message.headers.cc),
+    subject: header('subject'),
+    date: header('date'),
+    messageId: header('message-id'),
+    inReplyTo: header('in-reply-to'),
+    body: body.replace(/\n{3,}/g, '\n\n').trim(),
+    fromHtml,
+    attachments: result.attachments
+  };
+}
+
+// Drops the quoted history most clients append below a reply, which would
+// otherwise repeat earlier messages of the thread
+export function stripQuotedReply(body: string): string {
+  const lines = body.split('\n');
+  const cut = lines.findIndex(line =>
+    /^On .+ wrote:\s*$/.test(line) || /^-{2,}\s*Original Message\s*-{2,}/i.test(line)
+  );
+  return (cut === -1 ? lines : lines.slice(0, cut))
+    .filter(line => !line.startsWith('>'))
+    .join('\n')
+    .trim();
+}
+
+// Readable header block plus body; parses back with parseEmail
+export function formatEmail(email: ParsedEmail): string {
+  const headers = [
+    email.from && `From: ${formatAddress(email.from)}`,
+    email.to.length > 0 && `To: ${email.to.map(formatAddress).join(', ')}`,
+    email.cc.length > 0 && `Cc: ${email.cc.map(formatAddress).join(', ')}`,
+    email.date && `Date: ${email.date}`,
+    email.subject && `Subject: ${email.subject}`
+  ].filter(Boolean);
+  return headers.length > 0 ? `${headers.join('\n')}\n\n${email.body}` : email.body;
+}
+
+export function emailToThreadMessage(email: ParsedEmail): ThreadMessage {
+  const body = stripQuotedReply(email.body);
+  return {
+    from: formatAddress(email.from),
+    sentAt: email.date,
+    body: email.subject ? `Subject: ${email.subject}\n\n${body}` : body
+  };
+}
+
+export function emailToHeaders(email: ParsedEmail): MessageHeaders {
+  return {
+    from: formatAddress(email.from),
+    to: email.to.map(address => formatAddress(address)!),
+    cc: email.cc.map(address => formatAddress(address)!),
+    // An empty subject is kept as '' so it can be reported
+    subject: email.subject ?? ''
+  };
+}
+
+// A draft read from an .eml file: the text to check plus what the headers
+// and MIME parts say about its recipients and attachments
+export function emailToDraft(email: ParsedEmail): { message: string; context: MessageContext } {
+  const attachments = email.attachments.filter(attachment => !attachment.inline).map(attachment => attachment.filename);
+  const soleRecipient = email.to.length === 1 ? email.to[0] : undefined;
+  return {
+    message: stripQuotedReply(email.body),
+    context: {
+      headers: emailToHeaders(email),
+      recipient: soleRecipient?.name ? { name: personName(soleRecipient.name) } : undefined,
+      attachments
+    }
+  };
+}
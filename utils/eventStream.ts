@@ -0,0 +1,82 @@
+// Server-Sent Events helpers for streaming API responses
+
+import type { NextApiResponse } from 'next';
+
+export interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+export function wantsEventStream(accept: string | string[] | undefined): boolean {
+  const value = Array.isArray(accept) ? accept.join(',') : accept || '';
+  return value.includes('text/event-stream');
+}
+
+export function startEventStream(res: NextApiResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Disable proxy buffering (nginx and friends)
+    'X-Accel-Buffering': 'no',
+  });
+}
+
+export function sendEvent(res: NextApiResponse, event: string, data: any): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  // Flush through the compression middleware when it is active
+  (res as NextApiResponse & { flush?: () => void }).flush?.();
+}
+
+function parseEventBlock(block: string): StreamEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return { event, data: dataLines.join('\n') };
+  }
+}
+
+// Browser-side reader for a fetch() response body carrying SSE
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: StreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const parsed = parseEventBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) onEvent(parsed);
+      boundary = buffer.indexOf('\n\n');
+    }
+
+    if (done) break;
+  }
+
+  const trailing = parseEventBlock(buffer);
+  if (trailing) onEvent(trailing);
+}
@@ -0,0 +1,45 @@
+// Ashby job boards: jobs.ashbyhq.com/<company>/<id>. The posting is
+// rendered client-side from a `window.__appData` blob in the page.
+
+import { Extractor } from './types';
+import { cleanText, firstPathSegment, htmlToText, titleFromSlug } from './text';
+
+const APP_DATA_PATTERN = /window\.__appData\s*=\s*(\{[\s\S]*?\});?\s*(?:<\/script>|$)/;
+
+function readAppData(html: string): Record<string, any> | null {
+  const match = html.match(APP_DATA_PATTERN);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+export const ashbyExtractor: Extractor = {
+  name: 'ashby',
+  matches: ({ url, html }) => url.hostname === 'jobs.ashbyhq.com' || html.includes('window.__appData'),
+  extract({ url, html, $ }) {
+    const appData = readAppData(html);
+    const posting = appData?.posting || appData?.jobPosting;
+    const slug = url.hostname === 'jobs.ashbyhq.com' ? firstPathSegment(url) : undefined;
+
+    if (posting) {
+      return {
+        fields: {
+          title: cleanText(posting.title) || undefined,
+          company: cleanText(appData?.organization?.name) || (slug ? titleFromSlug(slug) : undefined),
+          location: cleanText(posting.locationName) || undefined,
+          employmentType: cleanText(posting.employmentType) || undefined
+        },
+        text: typeof posting.descriptionHtml === 'string'
+          ? htmlToText(posting.descriptionHtml)
+          : cleanText(posting.descriptionPlainText) || undefined
+      };
+    }
+
+    const title = cleanText($('h1').first().text());
+    if (!slug || !title) return null;
+    return { fields: { title, company: titleFromSlug(slug) } };
+  }
+};
@@ -0,0 +1,109 @@
+// Extractors against saved, trimmed pages in ./fixtures. Run with `npm test`.
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { ExtractedPage, EXTRACTORS, extractPage, Extractor } from './index';
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', `${name}.html`), 'utf8');
+}
+
+// Fields left undefined don't count
+function definedFields(page: ExtractedPage): ExtractedPage['fields'] {
+  return JSON.parse(JSON.stringify(page.fields));
+}
+
+const SITE_CASES = [
+  {
+    extractor: 'greenhouse',
+    url: 'https://boards.greenhouse.io/initech/jobs/123',
+    fields: { title: 'Senior Backend Engineer', company: 'Initech', location: 'Austin, TX', hiringManager: 'Bill Lumbergh' },
+    text: 'own our billing services'
+  },
+  {
+    extractor: 'lever',
+    url: 'https://jobs.lever.co/hooli/abc',
+    fields: { title: 'Product Designer', company: 'Hooli', location: 'Palo Alto, CA', employmentType: 'Full-time' },
+    text: 'next generation of our collaboration tools'
+  },
+  {
+    extractor: 'workday',
+    url: 'https://globex.wd5.myworkdayjobs.com/en-US/careers/job/123',
+    fields: { title: 'Data Analyst', company: 'Globex', location: 'Chicago, IL', employmentType: 'Full time', hiringManager: 'Hank Scorpio' },
+    text: 'dashboards for the operations team'
+  },
+  {
+    extractor: 'ashby',
+    url: 'https://jobs.ashbyhq.com/pied-piper/1',
+    fields: { title: 'Staff Compression Engineer', company: 'Pied Piper', location: 'Remote (US)', employmentType: 'FullTime' },
+    text: 'middle-out algorithm'
+  },
+  {
+    extractor: 'json-ld',
+    url: 'https://careers.umbrella.example/jobs/1',
+    fields: {
+      title: 'Site Reliability Engineer',
+      company: 'Umbrella Corp',
+      location: 'Raccoon City, MO, US; Remote',
+      employmentType: 'FULL_TIME, CONTRACTOR',
+      datePosted: '2024-05-01'
+    },
+    text: 'keep our research platform online'
+  }
+];
+
+describe('extractPage', () => {
+  for (const { extractor, url, fields, text } of SITE_CASES) {
+    it(`reads ${extractor} pages`, () => {
+      const page = extractPage(fixture(extractor), url);
+      assert.deepEqual(definedFields(page), fields);
+      assert.equal(page.extractors[0], extractor);
+      assert.match(page.text, new RegExp(text));
+    });
+  }
+
+  it('falls back to meta tags and the page content', () => {
+    const page = extractPage(fixture('company-page'), 'https://vandelay.example/about');
+    assert.deepEqual(definedFields(page), { title: 'About Vandelay Industries', company: 'Vandelay Industries' });
+    assert.deepEqual(page.extractors, ['meta', 'generic']);
+    assert.match(page.text, /leading importer and exporter/);
+    // Navigation and footer are stripped
+    assert.doesNotMatch(page.text, /Careers|©/);
+  });
+
+  it('returns nothing for an empty page', () => {
+    const page = extractPage(fixture('empty'), 'https://empty.example/');
+    assert.equal(page.text, '');
+    assert.deepEqual(definedFields(page), {});
+    assert.deepEqual(page.extractors, []);
+  });
+
+  it('skips an extractor that throws', () => {
+    const broken: Extractor = {
+      name: 'broken',
+      matches: () => true,
+      extract: () => {
+        throw new Error('unexpected markup');
+      }
+    };
+    const originalError = console.error;
+    console.error = () => undefined;
+    try {
+      const page = extractPage(fixture('company-page'), 'https://vandelay.example/about', [broken, ...EXTRACTORS]);
+      assert.deepEqual(page.extractors, ['meta', 'generic']);
+    } finally {
+      console.error = originalError;
+    }
+  });
+
+  it('has a fixture for every registered site and structured-data extractor', () => {
+    const generic = ['meta', 'generic'];
+    const covered = SITE_CASES.map(({ extractor }) => extractor);
+    assert.deepEqual(
+      EXTRACTORS.map(({ name }) => name).filter(name => !generic.includes(name)),
+      covered
+    );
+  });
+});
@@ -0,0 +1,21 @@
+// Formatting extracted fields for the context box. Kept separate from the
+// extractors so the browser bundle doesn't pull in cheerio.
+
+import { ExtractedFields } from '../../types';
+
+const FIELD_LABELS: Array<[keyof ExtractedFields, string]> = [
+  ['company', 'Company'],
+  ['title', 'Role'],
+  ['location', 'Location'],
+  ['hiringManager', 'Hiring manager'],
+  ['employmentType', 'Employment type'],
+];
+
+// "Company: Acme" lines come first so the entity checks treat them as the
+// authoritative company for the context
+export function formatExtractedFields(fields: ExtractedFields = {}): string {
+  return FIELD_LABELS
+    .filter(([key]) => fields[key])
+    .map(([key, label]) => `${label}: ${fields[key]}`)
+    .join('\n');
+}
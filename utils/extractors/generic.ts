@@ -0,0 +1,65 @@
+// Fallback for any page: the readable-content cascade, plus a text
+// heuristic for the hiring manager, which no structured source provides
+
+import * as cheerio from 'cheerio';
+import { Extractor } from './types';
+import { cleanText } from './text';
+
+const NAME = "[A-Z][a-zA-Z'-]+(?:\\s+[A-Z][a-zA-Z'-]+){1,2}";
+
+const HIRING_MANAGER_PATTERNS = [
+  new RegExp(`\\b(?:[Hh]iring [Mm]anager|[Rr]eports? (?:directly )?to|[Rr]ecruiter|[Hh]iring [Cc]ontact)\\s*[:\\-–]\\s*(${NAME})`),
+  new RegExp(`\\b(?:[Yy]ou(?:'ll| will) report (?:directly )?to)\\s+(${NAME})`),
+];
+
+export function findHiringManager(text: string): string | undefined {
+  for (const pattern of HIRING_MANAGER_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+export const genericExtractor: Extractor = {
+  name: 'generic',
+  matches: () => true,
+  extract({ html }) {
+    // Works on its own copy because it strips elements
+    const $ = cheerio.load(html);
+
+    // LinkedIn's "Meet the hiring team" card
+    const hiringTeamMember = cleanText($('.hirer-card__hirer-information .jobs-poster__name, .jobs-poster__name').first().text());
+
+    // Remove unwanted elements
+    $(
+      'script, style, nav, header, footer, aside, .advertisement, .ads'
+    ).remove();
+
+    // Extract meaningful content with priority
+    let text = '';
+
+    // Try to get job posting specific content first
+    const jobContent = $(
+      '.job-description, .job-details, .posting-description, [data-testid="job-description"]'
+    ).text();
+    if (jobContent && jobContent.length > 100) {
+      text = jobContent;
+    } else {
+      // Fallback to main content areas
+      const mainContent = $(
+        'main, .main-content, .content, article, .post-content'
+      ).text();
+      if (mainContent && mainContent.length > 100) {
+        text = mainContent;
+      } else {
+        // Last resort - body text
+        text = $('body').text();
+      }
+    }
+
+    return {
+      fields: { hiringManager: hiringTeamMember || undefined },
+      text
+    };
+  }
+};
@@ -0,0 +1,30 @@
+// Greenhouse job boards: boards.greenhouse.io/<company>/jobs/<id>,
+// job-boards.greenhouse.io and pages embedding the Greenhouse iframe
+
+import { Extractor } from './types';
+import { cleanText, firstPathSegment, titleFromSlug } from './text';
+
+const HOSTS = ['boards.greenhouse.io', 'job-boards.greenhouse.io', 'job-boards.eu.greenhouse.io'];
+
+export const greenhouseExtractor: Extractor = {
+  name: 'greenhouse',
+  matches: ({ url, $ }) => HOSTS.includes(url.hostname) || $('#grnhse_app, #app_body.greenhouse').length > 0,
+  extract({ url, $ }) {
+    const title = cleanText($('.app-title, h1.section-header, .job__title h1').first().text());
+    // Classic boards render "at Acme" under the title
+    const company = cleanText($('.company-name').first().text()).replace(/^at\s+/i, '');
+    const slug = HOSTS.includes(url.hostname) ? firstPathSegment(url) : undefined;
+    const location = cleanText($('#header .location, .job__location').first().text());
+    const text = $('#content, .job__description').first().text();
+
+    if (!title && !text.trim()) return null;
+    return {
+      fields: {
+        title: title || undefined,
+        company: company || (slug ? titleFromSlug(slug) : undefined),
+        location: location || undefined
+      },
+      text
+    };
+  }
+};
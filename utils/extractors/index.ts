@@ -0,0 +1,79 @@
+// Registry of page extractors. Site-specific extractors run first, then the
+// structured-data ones, then the generic fallback. Each field and the text
+// come from the first extractor that provides them.
+
+import * as cheerio from 'cheerio';
+import { ExtractedFields } from '../../types';
+import { ashbyExtractor } from './ashby';
+import { findHiringManager, genericExtractor } from './generic';
+import { greenhouseExtractor } from './greenhouse';
+import { jsonLdExtractor } from './jsonLd';
+import { leverExtractor } from './lever';
+import { metaExtractor } from './meta';
+import { Extractor } from './types';
+import { cleanText } from './text';
+import { workdayExtractor } from './workday';
+
+export type { Extractor, ExtractionContext, ExtractorOutput } from './types';
+
+export interface ExtractedPage {
+  text: string;
+  fields: ExtractedFields;
+  // Names of the extractors that contributed, for debugging
+  extractors: string[];
+}
+
+// Below this length an extractor's text is treated as missing
+const MIN_TEXT_LENGTH = 100;
+
+export const EXTRACTORS: Extractor[] = [
+  greenhouseExtractor,
+  leverExtractor,
+  workdayExtractor,
+  ashbyExtractor,
+  jsonLdExtractor,
+  metaExtractor,
+  genericExtractor,
+];
+
+export function extractPage(html: string, url: string | URL, extractors: Extractor[] = EXTRACTORS): ExtractedPage {
+  const context = { url: new URL(url), html, $: cheerio.load(html) };
+  const fields: ExtractedFields = {};
+  const used: string[] = [];
+  let text = '';
+  let shortText = '';
+
+  for (const extractor of extractors) {
+    let output;
+    try {
+      if (!extractor.matches(context)) continue;
+      output = extractor.extract(context);
+    } catch (error) {
+      // One broken parser shouldn't stop the others
+      console.error(`Extractor "${extractor.name}" failed:`, error);
+      continue;
+    }
+    if (!output) continue;
+
+    let contributed = false;
+    for (const [key, value] of Object.entries(output.fields || {}) as Array<[keyof ExtractedFields, string | undefined]>) {
+      if (value && !fields[key]) {
+        fields[key] = value;
+        contributed = true;
+      }
+    }
+    if (!text && output.text && output.text.trim().length >= MIN_TEXT_LENGTH) {
+      text = output.text;
+      contributed = true;
+    } else if (!shortText && output.text?.trim()) {
+      shortText = output.text;
+    }
+    if (contributed) used.push(extractor.name);
+  }
+
+  const finalText = text || shortText;
+  if (!fields.hiringManager) {
+    fields.hiringManager = findHiringManager(cleanText(finalText));
+  }
+  return { text: finalText, fields, extractors: used };
+}
@@ -0,0 +1,84 @@
+// schema.org JobPosting / Organization data embedded as JSON-LD
+
+import { ExtractedFields } from '../../types';
+import { Extractor } from './types';
+import { cleanText, htmlToText } from './text';
+
+type JsonObject = Record<string, any>;
+
+function hasType(node: JsonObject, type: string): boolean {
+  const value = node['@type'];
+  return Array.isArray(value) ? value.includes(type) : value === type;
+}
+
+// Flattens arrays and @graph containers into a list of nodes
+function collectNodes(value: unknown, nodes: JsonObject[] = []): JsonObject[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectNodes(item, nodes));
+  } else if (value && typeof value === 'object') {
+    const node = value as JsonObject;
+    nodes.push(node);
+    if (node['@graph']) collectNodes(node['@graph'], nodes);
+  }
+  return nodes;
+}
+
+function nameOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return cleanText(value) || undefined;
+  if (value && typeof value === 'object') return nameOf((value as JsonObject).name);
+  return undefined;
+}
+
+function formatLocation(posting: JsonObject): string | undefined {
+  const locations = ([] as unknown[]).concat(posting.jobLocation || []);
+  const parts = locations
+    .map(location => {
+      const address = (location as JsonObject)?.address;
+      if (typeof address === 'string') return cleanText(address);
+      if (!address) return nameOf(location);
+      return [address.addressLocality, address.addressRegion, nameOf(address.addressCountry)]
+        .filter(Boolean)
+        .join(', ');
+    })
+    .filter(Boolean);
+
+  if (posting.jobLocationType === 'TELECOMMUTE') parts.push('Remote');
+  return parts.length > 0 ? Array.from(new Set(parts)).join('; ') : undefined;
+}
+
+export const jsonLdExtractor: Extractor = {
+  name: 'json-ld',
+  matches: ({ $ }) => $('script[type="application/ld+json"]').length > 0,
+  extract({ $ }) {
+    const nodes: JsonObject[] = [];
+    $('script[type="application/ld+json"]').toArray().forEach(element => {
+      try {
+        collectNodes(JSON.parse($(element).text()), nodes);
+      } catch {
+        // Pages often ship broken JSON-LD next to valid blocks
+      }
+    });
+
+    const posting = nodes.find(node => hasType(node, 'JobPosting'));
+    if (posting) {
+      const fields: ExtractedFields = {
+        company: nameOf(posting.hiringOrganization),
+        title: nameOf(posting.title),
+        location: formatLocation(posting),
+        employmentType: ([] as string[]).concat(posting.employmentType || []).join(', ') || undefined,
+        datePosted: typeof posting.datePosted === 'string' ? posting.datePosted : undefined
+      };
+      const text = typeof posting.description === 'string' ? htmlToText(posting.description) : undefined;
+      return { fields, text };
+    }
+
+    const organization = nodes.find(node => hasType(node, 'Organization') || hasType(node, 'Corporation'));
+    if (organization) {
+      return {
+        fields: { company: nameOf(organization.name) },
+        text: typeof organization.description === 'string' ? htmlToText(organization.description) : undefined
+      };
+    }
+    return null;
+  }
+};
@@ -0,0 +1,34 @@
+// Lever postings: jobs.lever.co/<company>/<id>
+
+import { Extractor } from './types';
+import { cleanText, firstPathSegment, titleFromSlug } from './text';
+
+const HOSTS = ['jobs.lever.co', 'jobs.eu.lever.co'];
+
+export const leverExtractor: Extractor = {
+  name: 'lever',
+  matches: ({ url }) => HOSTS.includes(url.hostname),
+  extract({ url, $ }) {
+    const title = cleanText($('.posting-headline h2').first().text());
+    const location = cleanText($('.posting-categories .location, .posting-categories .sort-by-location').first().text());
+    const employmentType = cleanText($('.posting-categories .commitment, .posting-categories .sort-by-commitment').first().text());
+    // The header logo's alt text is the company's display name
+    const logoAlt = cleanText($('.main-header-logo img').first().attr('alt')).replace(/\s+logo$/i, '');
+    const slug = firstPathSegment(url);
+    const text = $('[data-qa="job-description"], .posting-page .section-wrapper')
+      .toArray()
+      .map(element => $(element).text())
+      .join('\n\n');
+
+    if (!title && !text.trim()) return null;
+    return {
+      fields: {
+        title: title || undefined,
+        company: logoAlt || (slug ? titleFromSlug(slug) : undefined),
+        location: location || undefined,
+        employmentType: employmentType || undefined
+      },
+      text
+    };
+  }
+};
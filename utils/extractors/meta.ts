@@ -0,0 +1,20 @@
+// OpenGraph and standard meta tags, which almost every page has
+
+import { Extractor } from './types';
+import { cleanText } from './text';
+
+export const metaExtractor: Extractor = {
+  name: 'meta',
+  matches: () => true,
+  extract({ $ }) {
+    const meta = (name: string) =>
+      cleanText($(`meta[property="${name}"], meta[name="${name}"]`).first().attr('content')) || undefined;
+
+    const title = meta('og:title') || meta('twitter:title') || cleanText($('title').first().text()) || undefined;
+    const company = meta('og:site_name') || meta('application-name');
+    const description = meta('og:description') || meta('description');
+
+    if (!title && !company && !description) return null;
+    return { fields: { title, company }, text: description };
+  }
+};
@@ -0,0 +1,36 @@
+// Text helpers shared by the extractors
+
+import * as cheerio from 'cheerio';
+
+export function cleanText(text: string | undefined | null): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+// Converts an HTML fragment (e.g. a JSON-LD description) to plain text,
+// keeping block boundaries as line breaks
+export function htmlToText(html: string): string {
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|tr|ul|ol)>/gi, '$&\n');
+  return cheerio
+    .load(withBreaks)
+    .root()
+    .text()
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n\s*/g, '\n\n')
+    .trim();
+}
+
+// Turns a URL slug such as "acme-corp" into "Acme Corp"
+export function titleFromSlug(slug: string): string {
+  return slug
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// The first path segment, which job boards use for the company
+export function firstPathSegment(url: URL): string | undefined {
+  return url.pathname.split('/').filter(Boolean)[0];
+}
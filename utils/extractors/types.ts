@@ -0,0 +1,26 @@
+// Shared types for page extractors
+
+import * as cheerio from 'cheerio';
+import { ExtractedFields } from '../../types';
+
+export type CheerioAPI = ReturnType<typeof cheerio.load>;
+
+export interface ExtractionContext {
+  url: URL;
+  html: string;
+  // Parsed once and shared; extractors must not modify it
+  $: CheerioAPI;
+}
+
+export interface ExtractorOutput {
+  fields?: ExtractedFields;
+  // Main readable text (e.g. the job description)
+  text?: string;
+}
+
+export interface Extractor {
+  name: string;
+  // Hostname or page-signal check; extractors that always apply return true
+  matches(context: ExtractionContext): boolean;
+  extract(context: ExtractionContext): ExtractorOutput | null;
+}
@@ -0,0 +1,27 @@
+// Workday career sites: <company>.wd<N>.myworkdayjobs.com/...
+
+import { Extractor } from './types';
+import { cleanText, titleFromSlug } from './text';
+
+export const workdayExtractor: Extractor = {
+  name: 'workday',
+  matches: ({ url }) => url.hostname.endsWith('.myworkdayjobs.com'),
+  extract({ url, $ }) {
+    const title = cleanText($('[data-automation-id="jobPostingHeader"]').first().text());
+    const location = cleanText($('[data-automation-id="locations"] dd').first().text());
+    const employmentType = cleanText($('[data-automation-id="time"] dd').first().text());
+    const text = $('[data-automation-id="jobPostingDescription"]').first().text();
+    // The tenant subdomain is the company, e.g. "acme" in acme.wd5.myworkdayjobs.com
+    const tenant = url.hostname.split('.')[0];
+
+    return {
+      fields: {
+        title: title || undefined,
+        company: tenant ? titleFromSlug(tenant) : undefined,
+        location: location || undefined,
+        employmentType: employmentType || undefined
+      },
+      text
+    };
+  }
+};
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { withFileLock } from './fileLock';
+
+// The pid of a process that has already exited
+const deadPid = () => spawnSync(process.execPath, ['-e', '']).pid;
+
+describe('withFileLock', () => {
+  let dir: string;
+  let lockPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-lock-'));
+    lockPath = path.join(dir, 'data.json.lock');
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('runs tasks one at a time and removes the lock afterwards', async () => {
+    let running = 0;
+    let overlapped = false;
+    const task = async () => {
+      running++;
+      if (running > 1) overlapped = true;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    };
+    await Promise.all(Array.from({ length: 5 }, () => withFileLock(lockPath, task)));
+    assert.equal(overlapped, false);
+    assert.equal(fs.existsSync(lockPath), false);
+  });
+
+  it('takes over a lock left by a process that exited, one waiter at a time', async () => {
+    fs.writeFileSync(lockPath, JSON.stringify({ host: os.hostname(), pid: deadPid(), token: 'gone' }));
+    let running = 0;
+    let overlapped = false;
+    const task = async () => {
+      running++;
+      if (running > 1) overlapped = true;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    };
+    await Promise.all(Array.from({ length: 5 }, () => withFileLock(lockPath, task)));
+    assert.equal(overlapped, false);
+    assert.deepEqual(fs.readdirSync(dir), []);
+  });
+
+  it('takes over a lock older than the stale age', async () => {
+    fs.writeFileSync(lockPath, '{"host":');
+    const old = new Date(Date.now() - 60000);
+    fs.utimesSync(lockPath, old, old);
+    assert.equal(await withFileLock(lockPath, async () => 'done'), 'done');
+  });
+
+  it('leaves a lock it no longer holds in place', async () => {
+    const other = JSON.stringify({ host: os.hostname(), pid: process.pid, token: 'other' });
+    await withFileLock(lockPath, async () => {
+      fs.writeFileSync(lockPath, other);
+    });
+    assert.equal(fs.readFileSync(lockPath, 'utf8'), other);
+  });
+
+  it('times out while a live process holds the lock', async () => {
+    fs.writeFileSync(lockPath, JSON.stringify({ host: os.hostname(), pid: process.pid, token: 'held' }));
+    await assert.rejects(withFileLock(lockPath, async () => undefined), /Timed out waiting for the lock/);
+  });
+});
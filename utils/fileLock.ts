@@ -0,0 +1,115 @@
+// A lock file for read-modify-write cycles on JSON files that several
+// processes share (rate limit counters, API keys). Holders write their host,
+// pid and a random token into it.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+
+const LOCK_RETRY_MS = 10;
+const LOCK_TIMEOUT_MS = 2000;
+// A holder only reads and rewrites a small file, so a lock this old was left
+// behind by a holder that hung or crashed
+const LOCK_STALE_MS = 10000;
+
+interface LockOwner {
+  host: string;
+  pid: number;
+  token: string;
+}
+
+async function readLock(lockPath: string): Promise<{ owner?: LockOwner; raw: string; mtimeMs: number } | null> {
+  try {
+    const [raw, stats] = await Promise.all([
+      fs.promises.readFile(lockPath, 'utf8'),
+      fs.promises.stat(lockPath)
+    ]);
+    let owner: LockOwner | undefined;
+    try {
+      owner = JSON.parse(raw);
+    } catch {
+      // Half written; only its age can make it stale
+    }
+    return { owner, raw, mtimeMs: stats.mtimeMs };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: it exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// Old, or held by a process on this host that no longer exists. Holders on
+// other hosts sharing the file can only be judged by age.
+function isStale(lock: { owner?: LockOwner; mtimeMs: number }): boolean {
+  if (Date.now() - lock.mtimeMs > LOCK_STALE_MS) return true;
+  const owner = lock.owner;
+  return Boolean(owner && owner.host === os.hostname() && !isProcessAlive(owner.pid));
+}
+
+// Moves the lock aside under a name of our own, which only one waiter can
+// do, and only then checks it is the lock that was judged stale. Another
+// waiter may have replaced it in between; that lock is put back unless yet
+// another holder has taken the path.
+async function removeStaleLock(lockPath: string, staleRaw: string): Promise<void> {
+  const aside = `${lockPath}.${crypto.randomBytes(8).toString('hex')}.stale`;
+  try {
+    await fs.promises.rename(lockPath, aside);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+
+  try {
+    const raw = await fs.promises.readFile(aside, 'utf8');
+    if (raw !== staleRaw) {
+      await fs.promises.link(aside, lockPath).catch(error => {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      });
+    }
+  } finally {
+    await fs.promises.rm(aside, { force: true });
+  }
+}
+
+export async function withFileLock<T>(lockPath: string, task: () => Promise<T>): Promise<T> {
+  const content = JSON.stringify({ host: os.hostname(), pid: process.pid, token: crypto.randomBytes(8).toString('hex') });
+  let deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      await fs.promises.writeFile(lockPath, content, { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    const lock = await readLock(lockPath);
+    if (!lock) continue;
+    if (isStale(lock)) {
+      await removeStaleLock(lockPath, lock.raw);
+      deadline = Date.now() + LOCK_TIMEOUT_MS;
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for the lock ${lockPath}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return await task();
+  } finally {
+    // A holder that ran past LOCK_STALE_MS may have lost the lock; leave the
+    // new holder's in place
+    const lock = await readLock(lockPath).catch(() => null);
+    if (lock && lock.raw === content) await fs.promises.rm(lockPath, { force: true });
+  }
+}
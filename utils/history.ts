@@ -0,0 +1,174 @@
+// Past checks: building, searching, comparing and exporting history entries.
+// Shared by the browser store, the server store and the history panel, so
+// this module has no server dependencies.
+
+import { HistoryEntry, MessageContext, Platform, SanityIssue, SanityResult } from '../types';
+import { isDuplicateIssue } from './issueMerge';
+import { validateMessageContext } from './messageContext';
+import { getPlatformProfile, parsePlatform } from './platforms';
+
+// Entries kept per browser or per owner on the server; the oldest go first
+export const MAX_HISTORY_ENTRIES = 200;
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const MAX_MESSAGE_LENGTH = 10000;
+// Characters of JSON, to keep one entry from filling a store
+const MAX_ENTRY_LENGTH = 256 * 1024;
+
+export interface HistoryDraft {
+  message: string;
+  context?: MessageContext;
+  platform?: Platform;
+}
+
+// What changed between two runs of the same draft
+export interface RunComparison {
+  scoreChange: number;
+  messageChanged: boolean;
+  // Issues of the older run that the newer one no longer reports
+  resolved: SanityIssue[];
+  // Issues only the newer run reports
+  introduced: SanityIssue[];
+  // Issues both runs report, as worded in the newer one
+  remaining: SanityIssue[];
+}
+
+export interface HistoryExport {
+  version: 1;
+  exportedAt: string;
+  entries: HistoryEntry[];
+}
+
+// Random enough to be unguessable; crypto.randomUUID needs a secure context
+export function newHistoryId(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function createHistoryEntry(draftId: string, draft: HistoryDraft, result: SanityResult): HistoryEntry {
+  return {
+    id: newHistoryId(),
+    draftId,
+    createdAt: new Date().toISOString(),
+    message: draft.message,
+    context: draft.context && Object.keys(draft.context).length > 0 ? draft.context : undefined,
+    platform: draft.platform,
+    result,
+    promptVersion: result.meta?.promptVersion
+  };
+}
+
+// Newest first
+export function sortHistory(entries: HistoryEntry[]): HistoryEntry[] {
+  return [...entries].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function searchableText(entry: HistoryEntry): string {
+  const { context = {}, result } = entry;
+  return [
+    entry.message,
+    result.summary,
+    ...result.issues.map(issue => issue.problem),
+    context.recipient?.name,
+    context.recipient?.company,
+    context.headers?.subject,
+    ...(context.headers?.to || []),
+    getPlatformProfile(entry.platform)?.label,
+    entry.promptVersion
+  ].filter(Boolean).join('\n').toLowerCase();
+}
+
+// Every word of the query has to appear somewhere in the entry: the
+// message, the findings, the recipient, the subject, the platform or the
+// prompt version
+export function matchesHistoryQuery(entry: HistoryEntry, query: string = ''): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const text = searchableText(entry);
+  return terms.every(term => text.includes(term));
+}
+
+export function searchHistory(entries: HistoryEntry[], query?: string, limit: number = MAX_HISTORY_ENTRIES): HistoryEntry[] {
+  return sortHistory(entries).filter(entry => matchesHistoryQuery(entry, query)).slice(0, limit);
+}
+
+// The run of the same draft just before this one, if any
+export function previousRun(entries: HistoryEntry[], entry: HistoryEntry): HistoryEntry | undefined {
+  return sortHistory(entries).find(other =>
+    other.draftId === entry.draftId && other.id !== entry.id && other.createdAt <= entry.createdAt
+  );
+}
+
+export function compareRuns(older: HistoryEntry, newer: HistoryEntry): RunComparison {
+  const before = older.result.issues;
+  const after = newer.result.issues;
+  // Spans point into different texts once the message was edited, so only
+  // the wording can tell whether two issues are the same
+  const sameIssue = (a: SanityIssue, b: SanityIssue) =>
+    older.message === newer.message ? isDuplicateIssue(a, b) : isDuplicateIssue({ ...a, spans: undefined }, { ...b, spans: undefined });
+
+  return {
+    scoreChange: newer.result.overallScore - older.result.overallScore,
+    messageChanged: older.message !== newer.message,
+    resolved: before.filter(issue => !after.some(other => sameIssue(issue, other))),
+    introduced: after.filter(issue => !before.some(other => sameIssue(issue, other))),
+    remaining: after.filter(issue => before.some(other => sameIssue(issue, other)))
+  };
+}
+
+export function exportHistory(entries: HistoryEntry[]): string {
+  const document: HistoryExport = { version: 1, exportedAt: new Date().toISOString(), entries: sortHistory(entries) };
+  return JSON.stringify(document, null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidResult(value: unknown): value is SanityResult {
+  return isRecord(value) &&
+    typeof value.overallScore === 'number' &&
+    typeof value.summary === 'string' &&
+    Array.isArray(value.issues) &&
+    value.issues.every(issue => isRecord(issue) && typeof issue.category === 'string' && typeof issue.problem === 'string');
+}
+
+// Entries sent to the server store; the result is checked for shape only,
+// since it is shown back to the same owner
+export function validateHistoryEntry(value: unknown): { entry?: HistoryEntry; errors: string[] } {
+  const errors: string[] = [];
+  if (!isRecord(value)) return { errors: ['entry must be an object'] };
+
+  if (typeof value.id !== 'string' || !ID_PATTERN.test(value.id)) errors.push('id must be 8-64 letters, digits, "-" or "_"');
+  if (typeof value.draftId !== 'string' || !ID_PATTERN.test(value.draftId)) errors.push('draftId must be 8-64 letters, digits, "-" or "_"');
+  if (typeof value.createdAt !== 'string' || Number.isNaN(Date.parse(value.createdAt))) errors.push('createdAt must be an ISO date');
+  if (typeof value.message !== 'string' || !value.message || value.message.length > MAX_MESSAGE_LENGTH) {
+    errors.push(`message must be a non-empty string of at most ${MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  const { context, errors: contextErrors } = validateMessageContext(value.context);
+  errors.push(...contextErrors.map(error => `context: ${error}`));
+
+  const platform = value.platform === undefined ? undefined : parsePlatform(value.platform);
+  if (value.platform !== undefined && !platform) errors.push('platform is not a known platform');
+
+  if (!isValidResult(value.result)) errors.push('result must be a SanityResult');
+  if (value.promptVersion !== undefined && typeof value.promptVersion !== 'string') errors.push('promptVersion must be a string');
+  if (JSON.stringify(value).length > MAX_ENTRY_LENGTH) errors.push(`entry must be at most ${MAX_ENTRY_LENGTH} characters as JSON`);
+
+  if (errors.length > 0) return { errors };
+  return {
+    entry: {
+      id: value.id,
+      draftId: value.draftId,
+      createdAt: new Date(value.createdAt).toISOString(),
+      message: value.message,
+      context: context && Object.keys(context).length > 0 ? context : undefined,
+      platform,
+      result: value.result,
+      promptVersion: value.promptVersion
+    },
+    errors
+  };
+}
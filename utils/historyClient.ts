@@ -0,0 +1,123 @@
+// Where the UI keeps check history: on the server when the deployment has
+// HISTORY_STORE set, otherwise in this browser's IndexedDB. Browser only.
+
+import { HistoryEntry } from '../types';
+import { MAX_HISTORY_ENTRIES, newHistoryId, sortHistory } from './history';
+
+export interface HistoryBackend {
+  name: 'browser' | 'server';
+  // Newest first
+  list(): Promise<HistoryEntry[]>;
+  save(entry: HistoryEntry): Promise<void>;
+  remove(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DATABASE_NAME = 'sanity-check';
+const STORE_NAME = 'history';
+const TOKEN_STORAGE_KEY = 'sanity-check-history-token';
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DATABASE_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  };
+  return requestResult(request);
+}
+
+export function createBrowserHistory(): HistoryBackend {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const objectStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    database = database || openDatabase();
+    return (await database).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  };
+
+  const list = async (): Promise<HistoryEntry[]> =>
+    sortHistory(await requestResult((await objectStore('readonly')).getAll() as IDBRequest<HistoryEntry[]>));
+
+  return {
+    name: 'browser',
+    list,
+    async save(entry) {
+      await requestResult((await objectStore('readwrite')).put(entry));
+      const oldest = (await list()).slice(MAX_HISTORY_ENTRIES);
+      if (oldest.length > 0) {
+        const store = await objectStore('readwrite');
+        await Promise.all(oldest.map(old => requestResult(store.delete(old.id))));
+      }
+    },
+    async remove(id) {
+      await requestResult((await objectStore('readwrite')).delete(id));
+    },
+    async clear() {
+      await requestResult((await objectStore('readwrite')).clear());
+    }
+  };
+}
+
+// The token that ties this browser's entries together on the server
+function historyToken(): string {
+  let token = localStorage.getItem(TOKEN_STORAGE_KEY);
+  if (!token) {
+    token = newHistoryId() + newHistoryId();
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  }
+  return token;
+}
+
+export function createServerHistory(): HistoryBackend {
+  const request = async (query: string, init: RequestInit = {}): Promise<any> => {
+    const response = await fetch(`/api/history${query}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'X-History-Token': historyToken(), ...init.headers },
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `History request failed (HTTP ${response.status})`);
+    return data;
+  };
+
+  return {
+    name: 'server',
+    async list() {
+      return (await request('')).entries;
+    },
+    async save(entry) {
+      await request('', { method: 'POST', body: JSON.stringify(entry) });
+    },
+    async remove(id) {
+      await request(`?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+    },
+    async clear() {
+      await request('', { method: 'DELETE' });
+    }
+  };
+}
+
+// The server store when it is enabled, otherwise IndexedDB. Null when
+// neither is available (e.g. IndexedDB disabled in a private window).
+export async function openHistory(): Promise<HistoryBackend | null> {
+  try {
+    const response = await fetch('/api/history?limit=1', { headers: { 'X-History-Token': historyToken() } });
+    if (response.ok) return createServerHistory();
+  } catch (error) {
+    console.error('History server unavailable:', error);
+  }
+
+  if (typeof indexedDB === 'undefined') return null;
+  try {
+    const history = createBrowserHistory();
+    await history.list();
+    return history;
+  } catch (error) {
+    console.error('Browser history unavailable:', error);
+    return null;
+  }
+}
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { createHistoryEntry } from './history';
+import { createFileHistoryStore, createMemoryHistoryStore, HistoryStore } from './historyStore';
+
+const entry = (message = 'Hi Jane') =>
+  createHistoryEntry('draft', { message }, { overallScore: 90, hasIssues: false, issues: [], summary: 'Fine' });
+
+async function owners(store: HistoryStore, names: string[]): Promise<string[]> {
+  const kept: string[] = [];
+  for (const name of names) {
+    if ((await store.list(name)).length > 0) kept.push(name);
+  }
+  return kept;
+}
+
+describe('createMemoryHistoryStore', () => {
+  it('evicts the least recently used owner past maxOwners', async () => {
+    const store = createMemoryHistoryStore({ maxOwners: 2, maxBytes: Infinity });
+    await store.save('a', entry());
+    await store.save('b', entry());
+    await store.list('a');
+    await store.save('c', entry());
+    assert.deepEqual(await owners(store, ['a', 'b', 'c']), ['a', 'c']);
+  });
+
+  it('evicts other owners past maxBytes but keeps the one saving', async () => {
+    const store = createMemoryHistoryStore({ maxOwners: 10, maxBytes: 1500 });
+    await store.save('a', entry('x'.repeat(600)));
+    await store.save('b', entry('y'.repeat(600)));
+    await store.save('c', entry('z'.repeat(2000)));
+    assert.deepEqual(await owners(store, ['a', 'b', 'c']), ['c']);
+  });
+
+  it('frees an owner that deletes everything', async () => {
+    const store = createMemoryHistoryStore({ maxOwners: 1, maxBytes: Infinity });
+    const saved = entry();
+    await store.save('a', saved);
+    assert.equal(await store.remove('a', saved.id), true);
+    await store.save('b', entry());
+    assert.deepEqual(await owners(store, ['a', 'b']), ['b']);
+  });
+});
+
+describe('createFileHistoryStore', () => {
+  it('deletes the least recently used owner files past maxOwners', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'history-test-'));
+    try {
+      const store = createFileHistoryStore(directory, { maxOwners: 2, maxBytes: Infinity });
+      await store.save('a', entry());
+      await store.save('b', entry());
+      // Make "a" clearly older before "b" is used again
+      const past = new Date(Date.now() - 60000);
+      for (const name of fs.readdirSync(directory)) fs.utimesSync(path.join(directory, name), past, past);
+      await store.list('b');
+      await store.save('c', entry());
+      assert.equal(fs.readdirSync(directory).length, 2);
+      assert.deepEqual(await owners(store, ['a', 'b', 'c']), ['b', 'c']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
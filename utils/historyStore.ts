@@ -0,0 +1,304 @@
+// Server-side check history, for deployments that want it to follow the
+// user between browsers. Off unless HISTORY_STORE is set; the UI then keeps
+// history in the browser instead.
+//
+// Entries belong to an owner: the API key the request was made with, or
+// else the random token the browser sends in X-History-Token. Only a hash
+// of the token is stored. Anyone can make up a token, so the stores keep at
+// most HISTORY_MAX_OWNERS owners (and the memory and file stores at most
+// HISTORY_MAX_BYTES of entries), evicting the least recently used owners.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextApiRequest } from 'next';
+import { HistoryEntry } from '../types';
+import { resolveApiKey } from './apiKeys';
+import { MAX_HISTORY_ENTRIES, sortHistory } from './history';
+import { getRedisClient } from './redisClient';
+
+export interface HistoryStore {
+  name: string;
+  // Newest first
+  list(owner: string): Promise<HistoryEntry[]>;
+  // Replaces an entry with the same id
+  save(owner: string, entry: HistoryEntry): Promise<void>;
+  remove(owner: string, id: string): Promise<boolean>;
+  // Returns how many entries were deleted
+  clear(owner: string): Promise<number>;
+}
+
+export type HistoryOwnerResolution =
+  | { status: 'none' }
+  | { status: 'invalid' }
+  | { status: 'valid'; owner: string };
+
+export interface HistoryLimits {
+  maxOwners: number;
+  maxBytes: number;
+}
+
+const HISTORY_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32,128}$/;
+const DEFAULT_MAX_OWNERS = 1000;
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+export function readHistoryLimits(): HistoryLimits {
+  return {
+    maxOwners: readLimit('HISTORY_MAX_OWNERS', DEFAULT_MAX_OWNERS),
+    maxBytes: readLimit('HISTORY_MAX_BYTES', DEFAULT_MAX_BYTES)
+  };
+}
+
+function hash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+export async function resolveHistoryOwner(req: NextApiRequest): Promise<HistoryOwnerResolution> {
+  const apiKey = await resolveApiKey(req);
+  if (apiKey.status === 'invalid') return { status: 'invalid' };
+  if (apiKey.status === 'valid') return { status: 'valid', owner: `key:${apiKey.record.id}` };
+
+  const header = req.headers['x-history-token'];
+  const token = (Array.isArray(header) ? header[0] : header)?.trim();
+  if (!token) return { status: 'none' };
+  return HISTORY_TOKEN_PATTERN.test(token) ? { status: 'valid', owner: `token:${hash(token)}` } : { status: 'invalid' };
+}
+
+// Newest first, at most MAX_HISTORY_ENTRIES
+function withEntry(entries: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] {
+  return sortHistory([...entries.filter(other => other.id !== entry.id), entry]).slice(0, MAX_HISTORY_ENTRIES);
+}
+
+export function createMemoryHistoryStore(limits: HistoryLimits = readHistoryLimits()): HistoryStore {
+  // In order of use, least recent first
+  const owners = new Map<string, { entries: HistoryEntry[]; bytes: number }>();
+  let totalBytes = 0;
+
+  const get = (owner: string): HistoryEntry[] => {
+    const slot = owners.get(owner);
+    if (!slot) return [];
+    owners.delete(owner);
+    owners.set(owner, slot);
+    return slot.entries;
+  };
+
+  const set = (owner: string, entries: HistoryEntry[]) => {
+    const previous = owners.get(owner);
+    if (previous) {
+      owners.delete(owner);
+      totalBytes -= previous.bytes;
+    }
+    if (entries.length === 0) return;
+
+    const bytes = JSON.stringify(entries).length;
+    owners.set(owner, { entries, bytes });
+    totalBytes += bytes;
+    for (const [other, slot] of Array.from(owners.entries())) {
+      if (owners.size <= limits.maxOwners && totalBytes <= limits.maxBytes) break;
+      if (other === owner) continue;
+      owners.delete(other);
+      totalBytes -= slot.bytes;
+    }
+  };
+
+  return {
+    name: 'memory',
+    async list(owner) {
+      return get(owner);
+    },
+    async save(owner, entry) {
+      set(owner, withEntry(get(owner), entry));
+    },
+    async remove(owner, id) {
+      const entries = get(owner);
+      const kept = entries.filter(entry => entry.id !== id);
+      set(owner, kept);
+      return kept.length < entries.length;
+    },
+    async clear(owner) {
+      const count = get(owner).length;
+      set(owner, []);
+      return count;
+    }
+  };
+}
+
+// One file per owner. A file's modification time is when its owner last
+// used it.
+export function createFileHistoryStore(directory: string, limits: HistoryLimits = readHistoryLimits()): HistoryStore {
+  let queue: Promise<unknown> = Promise.resolve();
+  const fileFor = (owner: string) => path.join(directory, `${hash(owner)}.json`);
+
+  const read = async (owner: string): Promise<HistoryEntry[]> => {
+    try {
+      return JSON.parse(await fs.promises.readFile(fileFor(owner), 'utf8')).entries || [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  // Deletes the least recently used owners' files, other than `keep`, until
+  // the directory is within the limits
+  const evict = async (keep: string) => {
+    const names = (await fs.promises.readdir(directory)).filter(name => name.endsWith('.json'));
+    const files = (await Promise.all(names.map(async name => {
+      const filePath = path.join(directory, name);
+      const stats = await fs.promises.stat(filePath).catch(() => null);
+      return stats ? { filePath, size: stats.size, usedAt: stats.mtimeMs } : null;
+    }))).filter((file): file is { filePath: string; size: number; usedAt: number } => file !== null);
+
+    let count = files.length;
+    let bytes = files.reduce((sum, file) => sum + file.size, 0);
+    for (const file of files.sort((a, b) => a.usedAt - b.usedAt)) {
+      if (count <= limits.maxOwners && bytes <= limits.maxBytes) break;
+      if (file.filePath === keep) continue;
+      await fs.promises.rm(file.filePath, { force: true });
+      count--;
+      bytes -= file.size;
+    }
+  };
+
+  // Read-modify-write cycles run one at a time so concurrent requests in
+  // this process don't overwrite each other's changes
+  const update = <T>(owner: string, change: (entries: HistoryEntry[]) => { entries: HistoryEntry[]; value: T }): Promise<T> => {
+    const result = queue.then(async () => {
+      const { entries, value } = change(await read(owner));
+      await fs.promises.mkdir(directory, { recursive: true });
+      const filePath = fileFor(owner);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify({ entries }));
+      await fs.promises.rename(tempPath, filePath);
+      await evict(filePath);
+      return value;
+    });
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    name: 'file',
+    async list(owner) {
+      const entries = await read(owner);
+      if (entries.length > 0) {
+        const now = new Date();
+        await fs.promises.utimes(fileFor(owner), now, now).catch(() => undefined);
+      }
+      return sortHistory(entries);
+    },
+    async save(owner, entry) {
+      await update(owner, entries => ({ entries: withEntry(entries, entry), value: undefined }));
+    },
+    async remove(owner, id) {
+      return update(owner, entries => {
+        const kept = entries.filter(entry => entry.id !== id);
+        return { entries: kept, value: kept.length < entries.length };
+      });
+    },
+    async clear(owner) {
+      return update(owner, entries => ({ entries: [], value: entries.length }));
+    }
+  };
+}
+
+// A hash per owner, one field per entry, and a sorted set of the owners'
+// keys by when they were last used. Redis bounds its own memory
+// (maxmemory), so only the number of owners is capped here.
+const OWNERS_KEY = 'history:owners';
+
+export function createRedisHistoryStore(limits: HistoryLimits = readHistoryLimits()): HistoryStore {
+  const keyFor = (owner: string) => `history:${hash(owner)}`;
+
+  const touch = (owner: string) =>
+    getRedisClient().command(['ZADD', OWNERS_KEY, String(Date.now()), keyFor(owner)]);
+
+  const list = async (owner: string): Promise<HistoryEntry[]> => {
+    const reply = await getRedisClient().command(['HGETALL', keyFor(owner)]);
+    const values = Array.isArray(reply) ? reply.filter((_, index) => index % 2 === 1) : [];
+    const entries: HistoryEntry[] = [];
+    for (const value of values) {
+      try {
+        entries.push(JSON.parse(String(value)));
+      } catch (error) {
+        // One corrupt entry shouldn't hide the rest
+        console.error('Skipping unreadable history entry:', error);
+      }
+    }
+    return sortHistory(entries);
+  };
+
+  const evict = async () => {
+    const client = getRedisClient();
+    const count = await client.command(['ZCARD', OWNERS_KEY]);
+    if (typeof count !== 'number' || count <= limits.maxOwners) return;
+    const oldest = await client.command(['ZRANGE', OWNERS_KEY, '0', String(count - limits.maxOwners - 1)]);
+    if (!Array.isArray(oldest) || oldest.length === 0) return;
+    const keys = oldest.map(String);
+    await client.command(['DEL', ...keys]);
+    await client.command(['ZREM', OWNERS_KEY, ...keys]);
+  };
+
+  return {
+    name: 'redis',
+    async list(owner) {
+      const entries = await list(owner);
+      if (entries.length > 0) await touch(owner);
+      return entries;
+    },
+    async save(owner, entry) {
+      const client = getRedisClient();
+      await client.command(['HSET', keyFor(owner), entry.id, JSON.stringify(entry)]);
+      await touch(owner);
+      const count = await client.command(['HLEN', keyFor(owner)]);
+      if (typeof count === 'number' && count > MAX_HISTORY_ENTRIES) {
+        const oldest = (await list(owner)).slice(MAX_HISTORY_ENTRIES).map(old => old.id);
+        if (oldest.length > 0) await client.command(['HDEL', keyFor(owner), ...oldest]);
+      }
+      await evict();
+    },
+    async remove(owner, id) {
+      return (await getRedisClient().command(['HDEL', keyFor(owner), id])) === 1;
+    },
+    async clear(owner) {
+      const client = getRedisClient();
+      const count = await client.command(['HLEN', keyFor(owner)]);
+      await client.command(['DEL', keyFor(owner)]);
+      await client.command(['ZREM', OWNERS_KEY, keyFor(owner)]);
+      return typeof count === 'number' ? count : 0;
+    }
+  };
+}
+
+export function createHistoryStore(
+  name: string = process.env.HISTORY_STORE || 'none'
+): HistoryStore | null {
+  switch (name) {
+    case 'none':
+      return null;
+    case 'memory':
+      return createMemoryHistoryStore();
+    case 'file':
+      return createFileHistoryStore(
+        process.env.HISTORY_DIR || path.join(os.tmpdir(), 'sanity-check-history')
+      );
+    case 'redis':
+      return createRedisHistoryStore();
+    default:
+      throw new Error(`Unknown HISTORY_STORE "${name}". Expected memory, file, redis or none.`);
+  }
+}
+
+let store: HistoryStore | null | undefined;
+
+export function getHistoryStore(): HistoryStore | null {
+  if (store === undefined) {
+    store = createHistoryStore();
+  }
+  return store;
+}
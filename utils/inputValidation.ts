@@ -1,13 +1,25 @@
 // Unified input validation for API endpoints
 
 import { NextApiRequest, NextApiResponse } from 'next';
-import { createSecurePrompt } from './promptSecurity';
-import { checkRateLimit } from './rateLimit';
+import { MessageContext, Platform, PLATFORMS } from '../types';
+import { assessRisk, RiskAssessment, sanitizeInput, scoreRisk, shouldRejectRisk } from './promptSecurity';
+import { checkRateLimit, RateLimitResult } from './rateLimit';
+import { isSupportedLanguage, LANGUAGES } from './languages';
+import { parsePlatform } from './platforms';
 import { getClientId } from './sessionManager';
+import { ApiKeyInfo, getQuotaStatus, QuotaStatus, resolveApiKey, toApiKeyInfo } from './apiKeys';
+import { BudgetStatus, checkBudget } from './usageLedger';
+import { contextStrings, mapContextStrings, validateMessageContext } from './messageContext';
 
 export interface ValidationConfig {
+  // Endpoints with different limits keep separate counters
+  rateLimitScope?: string;
   rateLimitMax?: number;
   rateLimitWindowMs?: number;
+  // Reject API keys that have used up their monthly token quota
+  checkTokenQuota?: boolean;
+  // Reject requests once a daily or monthly spend ceiling is reached
+  checkBudget?: boolean;
   requireSecurityCheck?: boolean;
   maxFieldLength?: number;
   requiredFields?: string[];
@@ -20,40 +32,126 @@ export interface ValidationResult {
   httpStatus?: number;
   sanitizedInputs?: Record<string, string>;
   violations?: string[];
+  rateLimit?: RateLimitResult;
+  quota?: QuotaStatus;
+  budget?: BudgetStatus;
+  // Who the request is counted against: `key:<id>` or the client IP
+  clientId?: string;
+  // The API key the request was made with, if any
+  apiKey?: ApiKeyInfo;
+  // Validated and sanitized structured context (sanity-check endpoint)
+  messageContext?: MessageContext;
+  // Injection risk of the prompt-sensitive fields
+  risk?: RiskAssessment;
+  // The message's language when the client named one, and the language to
+  // answer in (sanity-check endpoints)
+  language?: string;
+  uiLanguage?: string;
+  platform?: Platform;
 }
 
 const DEFAULT_CONFIG: ValidationConfig = {
+  rateLimitScope: 'api',
   rateLimitMax: 20,
   rateLimitWindowMs: 60000,
+  checkTokenQuota: false,
+  checkBudget: false,
   requireSecurityCheck: true,
   maxFieldLength: 10000,
   requiredFields: []
 };
 
-export function validateApiInput(
+export async function validateApiInput(
   req: NextApiRequest,
   inputs: Record<string, any>,
   config: ValidationConfig = {}
-): ValidationResult {
+): Promise<ValidationResult> {
+  // Requests with an API key are identified by the key, others by IP
+  const apiKeyResolution = await resolveApiKey(req);
+  if (apiKeyResolution.status === 'invalid') {
+    return {
+      isValid: false,
+      error: 'Invalid or revoked API key',
+      errorCode: 'INVALID_API_KEY',
+      httpStatus: 401
+    };
+  }
+  const apiKey = apiKeyResolution.status === 'valid' ? toApiKeyInfo(apiKeyResolution.record) : undefined;
+  const clientId = apiKey ? `key:${apiKey.id}` : getClientId(req);
+
+  const admission = await admitRequest(clientId, apiKey, config);
+  if (!admission.isValid) return admission;
+
+  const fields = validateFields(inputs, config);
+  if (!fields.isValid) return fields;
+
+  return { ...admission, sanitizedInputs: fields.sanitizedInputs, risk: fields.risk };
+}
+
+// Rate limit, token quota and spending budget for one request from
+// `clientId`. Batch requests call this once per item.
+export async function admitRequest(
+  clientId: string,
+  apiKey: ApiKeyInfo | undefined,
+  config: ValidationConfig = {}
+): Promise<ValidationResult> {
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
-  const clientId = getClientId(req);
 
   // Rate limiting check
-  const rateLimitResult = checkRateLimit(
-    clientId, 
-    finalConfig.rateLimitMax!, 
-    finalConfig.rateLimitWindowMs!
+  const rateLimit = await checkRateLimit(
+    `${finalConfig.rateLimitScope}:${clientId}`,
+    apiKey?.rateLimitMax ?? finalConfig.rateLimitMax!,
+    apiKey?.rateLimitWindowMs ?? finalConfig.rateLimitWindowMs!
   );
   
-  if (!rateLimitResult.allowed) {
+  if (!rateLimit.allowed) {
     return {
       isValid: false,
       error: 'Too many requests. Please try again later.',
       errorCode: 'RATE_LIMIT_EXCEEDED',
-      httpStatus: 429
+      httpStatus: 429,
+      rateLimit
     };
   }
 
+  let quota: QuotaStatus | undefined;
+  if (apiKey && finalConfig.checkTokenQuota) {
+    quota = await getQuotaStatus(apiKey);
+    if (!quota.allowed) {
+      return {
+        isValid: false,
+        error: 'Monthly token quota exceeded for this API key',
+        errorCode: 'QUOTA_EXCEEDED',
+        httpStatus: 429,
+        rateLimit,
+        quota
+      };
+    }
+  }
+
+  if (finalConfig.checkBudget) {
+    const budget = await checkBudget();
+    if (!budget.allowed) {
+      return {
+        isValid: false,
+        error: `The ${budget.period} spending limit for this service has been reached. Please try again later.`,
+        errorCode: 'BUDGET_EXCEEDED',
+        httpStatus: 503,
+        rateLimit,
+        budget
+      };
+    }
+  }
+
+  return { isValid: true, rateLimit, quota, clientId, apiKey };
+}
+
+function validateFields(
+  inputs: Record<string, any>,
+  config: ValidationConfig
+): ValidationResult {
+  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+
   // Check required fields
   for (const field of finalConfig.requiredFields || []) {
     if (!inputs[field] || (typeof inputs[field] === 'string' && !inputs[field].trim())) {
@@ -99,41 +197,31 @@ export function validateApiInput(
     sanitizedInputs[key] = stringValue;
   }
 
-  // Security validation for prompt-sensitive fields
+  // Prompt-sensitive fields are scored as they were submitted, then
+  // normalized. They are sent to the model as delimited data either way.
+  let risk: RiskAssessment | undefined;
   if (finalConfig.requireSecurityCheck) {
-    const securityCheck = createSecurePrompt(
-      sanitizedInputs.message || '',
-      sanitizedInputs.context || '',
-      sanitizedInputs.platform || ''
-    );
-
-    if (!securityCheck.isSecure) {
-      console.warn(`Security violation from ${clientId}:`, securityCheck.violations);
-      return {
-        isValid: false,
-        error: 'Input contains potentially unsafe content',
-        errorCode: 'SECURITY_VIOLATION',
-        httpStatus: 400,
-        violations: process.env.NODE_ENV === 'development' ? securityCheck.violations : undefined
-      };
-    }
-
-    // Use sanitized inputs from security check
-    if (securityCheck.sanitizedMessage !== undefined) {
-      sanitizedInputs.message = securityCheck.sanitizedMessage;
-    }
-    if (securityCheck.sanitizedContext !== undefined) {
-      sanitizedInputs.context = securityCheck.sanitizedContext;
-    }
-    if (securityCheck.sanitizedPlatform !== undefined) {
-      sanitizedInputs.platform = securityCheck.sanitizedPlatform;
-    }
+    const fields = (['message', 'context', 'platform'] as const).filter(field => sanitizedInputs[field] !== undefined);
+    risk = assessRisk(fields.map(field => [field, sanitizedInputs[field]]));
+    fields.forEach(field => {
+      sanitizedInputs[field] = sanitizeInput(sanitizedInputs[field]);
+    });
   }
 
-  return {
-    isValid: true,
-    sanitizedInputs
-  };
+  return { isValid: true, sanitizedInputs, risk };
+}
+
+// Standard RateLimit-* headers (seconds), plus Retry-After when rejected
+export function setRateLimitHeaders(res: NextApiResponse, rateLimit?: RateLimitResult): void {
+  if (!rateLimit) return;
+
+  const resetSeconds = Math.max(0, Math.ceil((rateLimit.resetTime - Date.now()) / 1000));
+  res.setHeader('RateLimit-Limit', rateLimit.limit);
+  res.setHeader('RateLimit-Remaining', rateLimit.remaining);
+  res.setHeader('RateLimit-Reset', resetSeconds);
+  if (!rateLimit.allowed) {
+    res.setHeader('Retry-After', Math.max(1, Math.ceil(rateLimit.retryAfterMs / 1000)));
+  }
 }
 
 export function handleValidationError(
@@ -145,9 +233,21 @@ export function handleValidationError(
     code: result.errorCode 
   };
 
+  setRateLimitHeaders(res, result.rateLimit);
+
   // Add additional data based on error type
-  if (result.errorCode === 'RATE_LIMIT_EXCEEDED') {
-    // Rate limit info could be added here if needed
+  if (result.errorCode === 'RATE_LIMIT_EXCEEDED' && result.rateLimit) {
+    responseData.retryAfter = Math.max(1, Math.ceil(result.rateLimit.retryAfterMs / 1000));
+  }
+
+  if (result.errorCode === 'QUOTA_EXCEEDED' && result.quota) {
+    responseData.quota = result.quota;
+  }
+
+  if (result.errorCode === 'BUDGET_EXCEEDED' && result.budget?.resetsAt) {
+    const retryAfter = Math.ceil((Date.parse(result.budget.resetsAt) - Date.now()) / 1000);
+    res.setHeader('Retry-After', Math.max(1, retryAfter));
+    responseData.resetsAt = result.budget.resetsAt;
   }
   
   if (result.violations && process.env.NODE_ENV === 'development') {
@@ -158,18 +258,160 @@ export function handleValidationError(
 }
 
 // Specialized validation for different endpoint types
-export function validateSanityCheckInput(req: NextApiRequest, body: any): ValidationResult {
-  return validateApiInput(req, body, {
-    rateLimitMax: 20,
+
+export const SANITY_CHECK_CONFIG: ValidationConfig = {
+  rateLimitScope: 'sanity-check',
+  rateLimitMax: 20,
+  rateLimitWindowMs: 60000,
+  checkTokenQuota: true,
+  checkBudget: true,
+  requireSecurityCheck: true,
+  maxFieldLength: 10000,
+  requiredFields: ['message']
+};
+
+// `context` is a structured MessageContext (or a legacy free-text string), so
+// it is validated separately from the flat fields, after rate limiting
+export async function validateSanityCheckInput(req: NextApiRequest, body: any): Promise<ValidationResult> {
+  const { context, language, uiLanguage, platform, ...fields } = body || {};
+  const result = await validateApiInput(req, fields, SANITY_CHECK_CONFIG);
+  if (!result.isValid) return result;
+
+  const languages = validateLanguages(language, uiLanguage);
+  if (!languages.isValid) return { ...languages, rateLimit: result.rateLimit };
+
+  const platformCheck = validatePlatform(platform);
+  if (!platformCheck.isValid) return { ...platformCheck, rateLimit: result.rateLimit };
+
+  const checked = validateContextInput(context);
+  if (!checked.isValid) return { ...checked, rateLimit: result.rateLimit };
+
+  const screened = screenRisk(result.clientId!, result, checked);
+  return screened.isValid
+    ? { ...result, ...languages, platform: platformCheck.platform, messageContext: checked.messageContext, risk: screened.risk }
+    : { ...screened, rateLimit: result.rateLimit };
+}
+
+// The fields of one sanity check, without admission. Used for batch items,
+// which are admitted one by one with admitRequest.
+export function validateSanityCheckItem(item: any, clientId: string): ValidationResult {
+  if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+    return { isValid: false, error: 'Each item must be an object', errorCode: 'INVALID_ITEM', httpStatus: 400 };
+  }
+  const { context, message, platform, language, uiLanguage } = item;
+  const fields = validateFields({ message }, SANITY_CHECK_CONFIG);
+  if (!fields.isValid) return fields;
+
+  const languages = validateLanguages(language, uiLanguage);
+  if (!languages.isValid) return languages;
+
+  const platformCheck = validatePlatform(platform);
+  if (!platformCheck.isValid) return platformCheck;
+
+  const checked = validateContextInput(context);
+  if (!checked.isValid) return checked;
+
+  const screened = screenRisk(clientId, fields, checked);
+  return screened.isValid
+    ? { ...checked, ...languages, platform: platformCheck.platform, sanitizedInputs: fields.sanitizedInputs, risk: screened.risk }
+    : screened;
+}
+
+// Admission for the batch as a whole; each item is then admitted against the
+// sanity-check limits and validated with validateSanityCheckItem
+export function validateBatchInput(req: NextApiRequest): Promise<ValidationResult> {
+  return validateApiInput(req, {}, {
+    rateLimitScope: 'sanity-check-batch',
+    rateLimitMax: 10,
     rateLimitWindowMs: 60000,
-    requireSecurityCheck: true,
-    maxFieldLength: 10000,
-    requiredFields: ['message']
+    checkTokenQuota: true,
+    checkBudget: true,
+    requireSecurityCheck: false
   });
 }
 
-export function validateUrlExtractionInput(req: NextApiRequest, body: any): ValidationResult {
+// `language` is "auto" (detect it) or a supported code; `uiLanguage` is a
+// supported code. Both are optional.
+export function validateLanguages(language: unknown, uiLanguage: unknown): ValidationResult {
+  const invalid = [['language', language], ['uiLanguage', uiLanguage]].find(([field, value]) =>
+    value !== undefined && value !== null && value !== '' &&
+    !(field === 'language' && value === 'auto') && !isSupportedLanguage(value)
+  );
+  if (invalid) {
+    return {
+      isValid: false,
+      error: `Invalid ${invalid[0]}: expected ${invalid[0] === 'language' ? '"auto" or ' : ''}one of ${LANGUAGES.map(({ code }) => code).join(', ')}`,
+      errorCode: 'INVALID_LANGUAGE',
+      httpStatus: 400
+    };
+  }
+
+  return {
+    isValid: true,
+    language: isSupportedLanguage(language) ? language : undefined,
+    uiLanguage: isSupportedLanguage(uiLanguage) ? uiLanguage : undefined
+  };
+}
+
+// A platform id, label or alias ("linkedin_inmail", "LinkedIn InMail");
+// optional
+export function validatePlatform(platform: unknown): ValidationResult {
+  if (platform === undefined || platform === null || platform === '') return { isValid: true };
+  const parsed = parsePlatform(platform);
+  if (!parsed) {
+    return {
+      isValid: false,
+      error: `Invalid platform: expected one of ${PLATFORMS.join(', ')}`,
+      errorCode: 'INVALID_PLATFORM',
+      httpStatus: 400
+    };
+  }
+  return { isValid: true, platform: parsed };
+}
+
+function validateContextInput(context: unknown): ValidationResult {
+  const parsed = validateMessageContext(context);
+  if (!parsed.context) {
+    return {
+      isValid: false,
+      error: `Invalid context: ${parsed.errors.join('; ')}`,
+      errorCode: 'INVALID_CONTEXT',
+      httpStatus: 400
+    };
+  }
+
+  return {
+    isValid: true,
+    messageContext: mapContextStrings(parsed.context, sanitizeInput),
+    risk: assessRisk(contextStrings(parsed.context))
+  };
+}
+
+// Scores the fields and context of one sanity check together. The score is
+// logged from 'medium' up; only scores at PROMPT_RISK_REJECT_LEVEL are
+// refused, everything else is analyzed and flagged in the result.
+function screenRisk(clientId: string, ...parts: ValidationResult[]): ValidationResult {
+  const risk = scoreRisk(parts.reduce<RiskAssessment['details']>((all, part) => all.concat(part.risk?.details || []), []));
+  const violations = risk.details.map(signal => `${signal.field} ${signal.description} (${signal.id})`);
+  if (risk.level !== 'low') {
+    console.warn(`Prompt injection risk ${risk.level} (${risk.score}) from ${clientId}:`, risk.details.map(signal => `${signal.field}:${signal.id}`));
+  }
+
+  if (shouldRejectRisk(risk)) {
+    return {
+      isValid: false,
+      error: 'Input contains potentially unsafe content',
+      errorCode: 'SECURITY_VIOLATION',
+      httpStatus: 400,
+      violations: process.env.NODE_ENV === 'development' ? violations : undefined
+    };
+  }
+  return { isValid: true, risk };
+}
+
+export function validateUrlExtractionInput(req: NextApiRequest, body: any): Promise<ValidationResult> {
   return validateApiInput(req, body, {
+    rateLimitScope: 'extract-url',
     rateLimitMax: 30,
     rateLimitWindowMs: 60000,
     requireSecurityCheck: false, // URLs don't need prompt injection checks
@@ -178,6 +420,28 @@ export function validateUrlExtractionInput(req: NextApiRequest, body: any): Vali
   });
 }
 
+// The raw message is parsed by the endpoint itself; its content is checked
+// when the imported draft is sent for a sanity check
+export function validateEmailImportInput(req: NextApiRequest): Promise<ValidationResult> {
+  return validateApiInput(req, {}, {
+    rateLimitScope: 'import-email',
+    rateLimitMax: 30,
+    rateLimitWindowMs: 60000,
+    requireSecurityCheck: false
+  });
+}
+
+// Anyone can make up a history token, so requests are limited like the
+// other endpoints to keep one client from creating owners without end
+export function validateHistoryInput(req: NextApiRequest): Promise<ValidationResult> {
+  return validateApiInput(req, {}, {
+    rateLimitScope: 'history',
+    rateLimitMax: 60,
+    rateLimitWindowMs: 60000,
+    requireSecurityCheck: false
+  });
+}
+
 // Helper to validate URLs specifically
 export function validateUrl(url: string): { isValid: boolean; error?: string } {
   try {
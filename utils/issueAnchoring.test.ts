@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { anchorQuote, anchorQuotes } from './issueAnchoring';
+
+const MESSAGE = 'Hi Jane,\n\nI’m  excited about the Senior Engineer role at Acme. I have attached my resume.';
+
+describe('anchorQuote', () => {
+  it('finds an exact quote', () => {
+    const start = MESSAGE.indexOf('role at Acme');
+    assert.deepEqual(anchorQuote(MESSAGE, 'role at Acme'), { start, end: start + 12, quote: 'role at Acme' });
+  });
+
+  it('ignores case, whitespace and typographic quotes', () => {
+    const span = anchorQuote(MESSAGE, "I'm excited about the senior engineer");
+    assert.equal(span!.quote, 'I’m  excited about the Senior Engineer');
+    assert.equal(MESSAGE.slice(span!.start, span!.end), span!.quote);
+  });
+
+  it('matches a slightly different wording when fuzzy matching is allowed', () => {
+    const span = anchorQuote(MESSAGE, 'I have attached my résume');
+    assert.equal(span!.quote, 'I have attached my resume.');
+    assert.equal(anchorQuote(MESSAGE, 'I have attached my résume', { allowFuzzy: false }), null);
+  });
+
+  it('returns null for a quote that is not in the message', () => {
+    assert.equal(anchorQuote(MESSAGE, 'looking forward to the interview'), null);
+    assert.equal(anchorQuote(MESSAGE, '   '), null);
+  });
+});
+
+describe('anchorQuotes', () => {
+  it('drops missing and duplicate quotes and sorts by position', () => {
+    assert.deepEqual(anchorQuotes(MESSAGE, ['Acme', 'Hi Jane', 'not there', 'Acme']), [
+      { start: 0, end: 7, quote: 'Hi Jane' },
+      { start: MESSAGE.indexOf('Acme'), end: MESSAGE.indexOf('Acme') + 4, quote: 'Acme' }
+    ]);
+    assert.deepEqual(anchorQuotes(MESSAGE), []);
+  });
+});
@@ -0,0 +1,163 @@
+// Maps quotes reported by the model onto character spans of the message
+
+import { IssueSpan } from '../types';
+
+const MAX_QUOTE_LENGTH = 500;
+const MIN_FUZZY_SIMILARITY = 0.75;
+
+interface NormalizedText {
+  text: string;
+  // Original index for each character of `text`
+  indexMap: number[];
+}
+
+interface Word {
+  value: string;
+  start: number;
+  end: number;
+}
+
+// Lowercases, straightens typographic quotes and collapses whitespace while
+// remembering where each character came from.
+function normalize(input: string): NormalizedText {
+  let text = '';
+  const indexMap: number[] = [];
+  let previousWasSpace = false;
+
+  for (let i = 0; i < input.length; i++) {
+    let char = input[i].toLowerCase();
+    if (/\s/.test(char)) {
+      if (previousWasSpace) continue;
+      char = ' ';
+      previousWasSpace = true;
+    } else {
+      previousWasSpace = false;
+    }
+    if (char === '‘' || char === '’') char = '\'';
+    if (char === '“' || char === '”') char = '"';
+    text += char;
+    indexMap.push(i);
+  }
+
+  return { text, indexMap };
+}
+
+function tokenize(input: string): Word[] {
+  const words: Word[] = [];
+  const pattern = /[^\s]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    const value = match[0].toLowerCase().replace(/^[^\w]+|[^\w]+$/g, '');
+    if (value) {
+      words.push({ value, start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return words;
+}
+
+function editDistance<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (equals(a[i - 1], b[j - 1]) ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - editDistance(a.split(''), b.split(''), (x, y) => x === y) / longest;
+}
+
+// Word-level search for the closest passage, tolerating small wording or
+// spelling differences between the quote and the message.
+function fuzzyFind(text: string, quote: string): { start: number; end: number } | null {
+  const textWords = tokenize(text);
+  const quoteWords = tokenize(quote);
+  if (quoteWords.length === 0 || textWords.length === 0) return null;
+
+  const matches = new Map<string, boolean>();
+  const wordsMatch = (x: Word, y: Word) => {
+    if (x.value === y.value) return true;
+    if (Math.abs(x.value.length - y.value.length) > 2) return false;
+    const key = `${x.value}|${y.value}`;
+    if (!matches.has(key)) matches.set(key, similarity(x.value, y.value) >= 0.8);
+    return matches.get(key)!;
+  };
+  const quoteVocabulary = new Set(quoteWords.map(w => w.value));
+  let best: { start: number; end: number; score: number } | null = null;
+
+  for (const size of [quoteWords.length - 1, quoteWords.length, quoteWords.length + 1]) {
+    if (size < 1 || size > textWords.length) continue;
+    for (let i = 0; i + size <= textWords.length; i++) {
+      const window = textWords.slice(i, i + size);
+      // Cheap pre-filter before the quadratic comparison
+      const shared = window.filter(w => quoteVocabulary.has(w.value)).length;
+      if (quoteWords.length > 1 && shared < quoteWords.length / 2) continue;
+      const distance = editDistance(window, quoteWords, wordsMatch);
+      const score = 1 - distance / Math.max(size, quoteWords.length);
+      if (score >= MIN_FUZZY_SIMILARITY && (!best || score > best.score)) {
+        best = { start: window[0].start, end: window[size - 1].end, score };
+      }
+    }
+  }
+
+  return best && { start: best.start, end: best.end };
+}
+
+// Fuzzy matching is fine for highlighting but not for edits, so callers
+// anchoring a replacement pass `allowFuzzy: false`.
+export function anchorQuote(
+  text: string,
+  quote: string,
+  { allowFuzzy = true }: { allowFuzzy?: boolean } = {}
+): IssueSpan | null {
+  const trimmed = quote.trim().slice(0, MAX_QUOTE_LENGTH);
+  if (!trimmed) return null;
+
+  const toSpan = (start: number, end: number): IssueSpan => ({
+    start,
+    end,
+    quote: text.slice(start, end)
+  });
+
+  const exact = text.indexOf(trimmed);
+  if (exact !== -1) {
+    return toSpan(exact, exact + trimmed.length);
+  }
+
+  const normalizedText = normalize(text);
+  const normalizedQuote = normalize(trimmed).text;
+  const loose = normalizedText.text.indexOf(normalizedQuote);
+  if (loose !== -1) {
+    const start = normalizedText.indexMap[loose];
+    const end = normalizedText.indexMap[loose + normalizedQuote.length - 1] + 1;
+    return toSpan(start, end);
+  }
+
+  if (!allowFuzzy) return null;
+
+  const fuzzy = fuzzyFind(text, trimmed);
+  return fuzzy ? toSpan(fuzzy.start, fuzzy.end) : null;
+}
+
+// Anchors every quote, silently dropping the ones that don't appear in the
+// message (the model occasionally paraphrases or invents them).
+export function anchorQuotes(text: string, quotes: string[] = []): IssueSpan[] {
+  const spans: IssueSpan[] = [];
+  for (const quote of quotes) {
+    const span = anchorQuote(text, quote);
+    if (span && !spans.some(s => s.start === span.start && s.end === span.end)) {
+      spans.push(span);
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
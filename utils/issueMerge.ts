@@ -0,0 +1,62 @@
+// Merging and scoring issues from several sources
+
+import { IssueSeverity, IssueSpan, SanityIssue } from '../types';
+
+const SEVERITY_PENALTY: Record<IssueSeverity, number> = {
+  high: 30,
+  medium: 15,
+  low: 5
+};
+
+const MIN_PROBLEM_SIMILARITY = 0.4;
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || []);
+}
+
+function jaccard(a: string, b: string): number {
+  const setA = words(a);
+  const setB = words(b);
+  if (setA.size === 0 && setB.size === 0) return 1;
+  let shared = 0;
+  setA.forEach(word => {
+    if (setB.has(word)) shared++;
+  });
+  return shared / (setA.size + setB.size - shared);
+}
+
+function spansOverlap(a: IssueSpan[] = [], b: IssueSpan[] = []): boolean {
+  return a.some(x => b.some(y => x.start < y.end && y.start < x.end));
+}
+
+// Two issues describe the same problem when they share a category and
+// either point at overlapping text or are worded similarly. A message only
+// has one set of attachments, so attachment issues always collapse.
+export function isDuplicateIssue(a: SanityIssue, b: SanityIssue): boolean {
+  if (a.category !== b.category) return false;
+  if (a.category === 'attachment') return true;
+  return spansOverlap(a.spans, b.spans) || jaccard(a.problem, b.problem) >= MIN_PROBLEM_SIMILARITY;
+}
+
+// Issues from earlier lists win over duplicates in later ones, so pass the
+// most trustworthy source first. Issues within one list are kept as-is.
+export function mergeIssues(...lists: SanityIssue[][]): SanityIssue[] {
+  const merged: SanityIssue[] = [];
+  for (const list of lists) {
+    const earlier = [...merged];
+    for (const issue of list) {
+      if (!earlier.some(existing => isDuplicateIssue(existing, issue))) {
+        merged.push(issue);
+      }
+    }
+  }
+  return merged;
+}
+
+export function scoreFromIssues(issues: SanityIssue[]): number {
+  const penalty = issues.reduce(
+    (total, issue) => total + SEVERITY_PENALTY[issue.severity] * issue.confidence,
+    0
+  );
+  return Math.max(0, Math.min(100, Math.round(100 - penalty)));
+}
@@ -0,0 +1,81 @@
+// Incremental extraction of issue objects from a streamed JSON response
+
+export interface IssueStreamParser {
+  push(chunk: string): void;
+}
+
+// Scans the model output as it streams in and calls `onIssue` with each
+// element of the top-level "issues" array as soon as its closing brace
+// arrives. Text outside the JSON object (markdown fences, preambles) is
+// ignored. Elements that fail to parse are skipped; the full response is
+// validated again once the stream completes.
+export function createIssueStreamParser(onIssue: (value: unknown) => void): IssueStreamParser {
+  let buffer = '';
+  let position = 0;
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastTopLevelString = '';
+  let inIssuesArray = false;
+  let itemStart = -1;
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+
+      for (; position < buffer.length; position++) {
+        const char = buffer[position];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === '\\') {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+            if (stack.length === 1) {
+              lastTopLevelString = buffer.slice(stringStart + 1, position);
+            }
+          }
+          continue;
+        }
+
+        if (stack.length === 0) {
+          if (char === '{') stack.push('{');
+          continue;
+        }
+
+        switch (char) {
+          case '"':
+            inString = true;
+            stringStart = position;
+            break;
+          case '{':
+          case '[':
+            stack.push(char);
+            if (char === '[' && stack.length === 2 && lastTopLevelString === 'issues') {
+              inIssuesArray = true;
+            } else if (char === '{' && stack.length === 3 && inIssuesArray) {
+              itemStart = position;
+            }
+            break;
+          case '}':
+          case ']':
+            stack.pop();
+            if (char === '}' && stack.length === 2 && inIssuesArray && itemStart !== -1) {
+              try {
+                onIssue(JSON.parse(buffer.slice(itemStart, position + 1)));
+              } catch {
+                // Leave it to the final validation pass
+              }
+              itemStart = -1;
+            } else if (char === ']' && stack.length === 1) {
+              inIssuesArray = false;
+            }
+            break;
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,125 @@
+// Tells which language a message is written in, offline. Scripts used by a
+// single supported language decide on their own; Latin and Cyrillic text is
+// told apart by its most common words and letters.
+
+import { UNDETERMINED_LANGUAGE } from './languages';
+
+export interface DetectedLanguage {
+  // ISO 639-1 code, or 'und'
+  code: string;
+  // 0-1: the share of letters in the deciding script times how clearly the
+  // winning language's words stood out
+  confidence: number;
+}
+
+// Fewer letters than this can't be told apart
+const MIN_LETTERS = 3;
+
+const SCRIPTS: Array<{ id: string; pattern: RegExp }> = [
+  { id: 'kana', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { id: 'han', pattern: /\p{Script=Han}/gu },
+  { id: 'hangul', pattern: /\p{Script=Hangul}/gu },
+  { id: 'latin', pattern: /\p{Script=Latin}/gu },
+  { id: 'cyrillic', pattern: /\p{Script=Cyrillic}/gu },
+  { id: 'arabic', pattern: /\p{Script=Arabic}/gu },
+  { id: 'hebrew', pattern: /\p{Script=Hebrew}/gu },
+  { id: 'greek', pattern: /\p{Script=Greek}/gu },
+  { id: 'devanagari', pattern: /\p{Script=Devanagari}/gu },
+  { id: 'thai', pattern: /\p{Script=Thai}/gu }
+];
+
+// Scripts with one supported language
+const SCRIPT_LANGUAGES: Record<string, string> = {
+  hangul: 'ko',
+  arabic: 'ar',
+  hebrew: 'he',
+  greek: 'el',
+  devanagari: 'hi',
+  thai: 'th'
+};
+
+// Frequent words that are rare in the other languages of the same script
+const COMMON_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'you', 'your', 'is', 'are', 'to', 'of', 'for', 'with', 'this', 'that', 'have', 'i', 'it', 'we', 'be', 'will', 'would', 'thanks', 'thank', 'please', 'hi', 'my', 'on', 'at'],
+  de: ['und', 'der', 'die', 'das', 'ich', 'sie', 'nicht', 'ist', 'mit', 'für', 'ein', 'eine', 'den', 'dem', 'zu', 'auf', 'wir', 'ihnen', 'bitte', 'danke', 'gruß', 'grüße', 'haben', 'sind', 'auch'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'je', 'vous', 'nous', 'pour', 'avec', 'une', 'des', 'du', 'dans', 'pas', 'que', 'qui', 'merci', 'bonjour', 'cordialement', 'sur', 'au', 'ce', 'suis'],
+  es: ['el', 'los', 'las', 'y', 'es', 'yo', 'usted', 'para', 'con', 'una', 'por', 'del', 'pero', 'muy', 'gracias', 'hola', 'saludos', 'estoy', 'como', 'mi', 'su', 'nos'],
+  pt: ['o', 'os', 'as', 'e', 'não', 'você', 'para', 'com', 'uma', 'um', 'por', 'do', 'da', 'dos', 'obrigado', 'obrigada', 'olá', 'estou', 'mas', 'muito', 'meu', 'são'],
+  it: ['il', 'lo', 'gli', 'e', 'è', 'non', 'per', 'con', 'una', 'sono', 'che', 'della', 'grazie', 'ciao', 'salve', 'cordiali', 'saluti', 'mi', 'ho', 'anche', 'questo'],
+  nl: ['de', 'het', 'een', 'en', 'ik', 'je', 'u', 'niet', 'is', 'met', 'voor', 'van', 'op', 'dat', 'wij', 'we', 'bedankt', 'groeten', 'graag', 'zijn', 'ook'],
+  sv: ['och', 'att', 'det', 'som', 'en', 'ett', 'jag', 'du', 'är', 'inte', 'för', 'med', 'på', 'vi', 'tack', 'hej', 'hälsningar', 'har', 'till', 'av'],
+  pl: ['i', 'w', 'nie', 'się', 'na', 'jest', 'że', 'to', 'z', 'do', 'pan', 'pani', 'dziękuję', 'dzień', 'dobry', 'pozdrawiam', 'jestem', 'czy', 'jak', 'oraz'],
+  tr: ['ve', 'bir', 'bu', 'için', 'ile', 'ben', 'siz', 'değil', 'çok', 'teşekkürler', 'teşekkür', 'ederim', 'merhaba', 'saygılarımla', 'da', 'de', 'mi', 'olarak', 'var'],
+  ru: ['и', 'в', 'не', 'на', 'я', 'что', 'с', 'вы', 'это', 'как', 'по', 'но', 'для', 'спасибо', 'здравствуйте', 'уважением', 'мы', 'он', 'она', 'был'],
+  uk: ['і', 'в', 'не', 'на', 'я', 'що', 'з', 'ви', 'це', 'як', 'та', 'але', 'для', 'дякую', 'вітаю', 'повагою', 'ми', 'він', 'вона', 'був']
+};
+
+// Letters that only (or mostly) occur in one of the candidates
+const DISTINCTIVE_LETTERS: Record<string, RegExp> = {
+  de: /[äöüß]/,
+  fr: /[œàèêëîïôûç]/,
+  es: /[ñ¿¡]/,
+  pt: /[ãõç]/,
+  it: /[àèìòù]/,
+  sv: /[åäö]/,
+  pl: /[ąęłńśźż]/,
+  tr: /[ğışİ]/,
+  uk: /[іїєґ]/,
+  ru: /[ыэъё]/
+};
+
+const SCRIPT_CANDIDATES: Record<string, string[]> = {
+  latin: ['en', 'de', 'fr', 'es', 'pt', 'it', 'nl', 'sv', 'pl', 'tr'],
+  cyrillic: ['ru', 'uk']
+};
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+// Scores each candidate by how many of the text's words are its common
+// words, with a bonus for each distinctive letter found
+function detectByWords(text: string, candidates: string[]): { code: string; clarity: number } {
+  const lower = text.toLowerCase();
+  const words = lower.match(/[\p{L}\p{M}]+/gu) || [];
+  const scores = candidates.map(code => {
+    const common = COMMON_WORDS[code];
+    let score = words.filter(word => common.includes(word)).length;
+    if (DISTINCTIVE_LETTERS[code]?.test(lower)) score += 2;
+    return { code, score };
+  });
+  // Stable, so ties go to the earlier candidate
+  scores.sort((a, b) => b.score - a.score);
+
+  const [best, second] = scores;
+  if (best.score === 0) return { code: UNDETERMINED_LANGUAGE, clarity: 0 };
+  return { code: best.code, clarity: (best.score - (second?.score || 0) + 1) / (best.score + 1) };
+}
+
+export function detectLanguage(text: string): DetectedLanguage {
+  // Addresses and links are Latin whatever the message's language
+  const prose = text.replace(/https?:\/\/\S+|\S+@\S+/g, ' ');
+  const counts: Record<string, number> = {};
+  SCRIPTS.forEach(({ id, pattern }) => { counts[id] = countMatches(prose, pattern); });
+  const total = Object.keys(counts).reduce((sum, id) => sum + counts[id], 0);
+  if (total < MIN_LETTERS) return { code: UNDETERMINED_LANGUAGE, confidence: 0 };
+
+  // Japanese mixes kana with kanji; Chinese has no kana
+  const cjk = counts.kana + counts.han;
+  const scripts = Object.keys(SCRIPT_LANGUAGES).concat('latin', 'cyrillic');
+  const dominant = scripts.reduce((best, id) => (counts[id] > counts[best] ? id : best), scripts[0]);
+
+  if (cjk >= counts[dominant]) {
+    return { code: counts.kana > 0 ? 'ja' : 'zh', confidence: round(cjk / total) };
+  }
+  if (SCRIPT_LANGUAGES[dominant]) {
+    return { code: SCRIPT_LANGUAGES[dominant], confidence: round(counts[dominant] / total) };
+  }
+
+  const { code, clarity } = detectByWords(prose, SCRIPT_CANDIDATES[dominant]);
+  return { code, confidence: round((counts[dominant] / total) * clarity) };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,173 @@
+// Languages the analysis knows conventions for. Shared by the API and the UI
+// (the results-language picker), so this module has no server dependencies.
+
+export interface LanguageProfile {
+  // ISO 639-1 code
+  code: string;
+  name: string;
+  // The language's name for itself, shown in the UI
+  nativeName: string;
+  rtl?: boolean;
+  // What a native reader expects of grammar and tone, for the model
+  conventions?: string;
+}
+
+export const DEFAULT_UI_LANGUAGE = 'en';
+
+// The code for a message whose language couldn't be told
+export const UNDETERMINED_LANGUAGE = 'und';
+
+export const LANGUAGES: LanguageProfile[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    conventions: 'All nouns are capitalized and "ß", umlauts and long compounds are correct. Choose between formal "Sie" and informal "du" by the relationship and use it consistently; in formal letters "Sie", "Ihr" and "Ihnen" are capitalized, and a salutation such as "Sehr geehrte Frau …," is followed by a lowercase first word.'
+  },
+  {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    conventions: 'A space before "?", "!", ":" and ";" and guillemets (« ») are correct typography. Choose between formal "vous" and informal "tu" and use it consistently; professional messages use "vous" and a closing formula such as "Cordialement".'
+  },
+  {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    conventions: 'Questions and exclamations open with "¿" and "¡". Choose between formal "usted" and informal "tú" and keep verb forms consistent with it; "vosotros" is only normal in Spain.'
+  },
+  {
+    code: 'pt',
+    name: 'Portuguese',
+    nativeName: 'Português',
+    conventions: 'Don\'t mix Brazilian and European spelling or forms of address ("você" vs "tu", "o senhor/a senhora" for formal address).'
+  },
+  {
+    code: 'it',
+    name: 'Italian',
+    nativeName: 'Italiano',
+    conventions: 'Formal address uses "Lei" (often capitalized in letters) and informal "tu"; keep one of them throughout.'
+  },
+  {
+    code: 'nl',
+    name: 'Dutch',
+    nativeName: 'Nederlands',
+    conventions: 'Choose between formal "u" and informal "je/jij" and use it consistently; many workplaces use "je" even with strangers.'
+  },
+  {
+    code: 'sv',
+    name: 'Swedish',
+    nativeName: 'Svenska',
+    conventions: 'Informal "du" is normal even in business; formal "Ni" reads as distant or old-fashioned.'
+  },
+  {
+    code: 'pl',
+    name: 'Polish',
+    nativeName: 'Polski',
+    conventions: 'Formal address uses "Pan/Pani" with third-person verbs; switching to "ty" without being invited reads as rude.'
+  },
+  {
+    code: 'tr',
+    name: 'Turkish',
+    nativeName: 'Türkçe',
+    conventions: '"ı/i" and "I/İ" are different letters. Formal address uses "siz" (and "Bey"/"Hanım" after the first name); "sen" is informal.'
+  },
+  {
+    code: 'ru',
+    name: 'Russian',
+    nativeName: 'Русский',
+    conventions: 'Formal address uses "Вы", capitalized in letters to one person; "ты" is informal. Name and patronymic are the polite way to address someone.'
+  },
+  {
+    code: 'uk',
+    name: 'Ukrainian',
+    nativeName: 'Українська',
+    conventions: 'Formal address uses "Ви", capitalized in letters to one person; "ти" is informal. Don\'t flag Ukrainian letters (і, ї, є, ґ) as Russian misspellings.'
+  },
+  {
+    code: 'el',
+    name: 'Greek',
+    nativeName: 'Ελληνικά',
+    conventions: 'The Greek question mark is ";". Formal address uses the plural "εσείς".'
+  },
+  {
+    code: 'he',
+    name: 'Hebrew',
+    nativeName: 'עברית',
+    rtl: true,
+    conventions: 'Text runs right to left and has no capital letters; verbs and adjectives agree with the addressee\'s gender.'
+  },
+  {
+    code: 'ar',
+    name: 'Arabic',
+    nativeName: 'العربية',
+    rtl: true,
+    conventions: 'Text runs right to left and has no capital letters; Arabic punctuation (، ؛ ؟) is correct. Professional messages usually open and close with a formal greeting such as "تحية طيبة وبعد".'
+  },
+  {
+    code: 'hi',
+    name: 'Hindi',
+    nativeName: 'हिन्दी',
+    conventions: 'Respectful address uses "आप" with matching verb forms; "तुम" and "तू" are familiar. Mixing in English terms is normal in professional messages.'
+  },
+  {
+    code: 'th',
+    name: 'Thai',
+    nativeName: 'ไทย',
+    conventions: 'Words aren\'t separated by spaces. Polite particles ("ครับ" from men, "ค่ะ/คะ" from women) are expected in professional messages, and "คุณ" before the first name.'
+  },
+  {
+    code: 'ja',
+    name: 'Japanese',
+    nativeName: '日本語',
+    conventions: 'Words aren\'t separated by spaces and "、" and "。" are the normal punctuation. Professional messages use keigo: teineigo (です/ます) at least, sonkeigo for the recipient\'s actions and kenjōgo for the sender\'s (e.g. "拝見しました", "いただけますでしょうか"). Plain form (だ/である) or casual endings towards a client, recruiter or superior are a tone issue, as are mixed politeness levels and misused honorifics (e.g. humble forms for the recipient). Business emails usually open with the recipient\'s company and name plus "様" and a set phrase such as "お世話になっております", and close with "よろしくお願いいたします".'
+  },
+  {
+    code: 'zh',
+    name: 'Chinese',
+    nativeName: '中文',
+    conventions: 'Words aren\'t separated by spaces and full-width punctuation (，。？！) is correct. Formal messages address the recipient as "您" rather than "你". Don\'t mix simplified and traditional characters.'
+  },
+  {
+    code: 'ko',
+    name: 'Korean',
+    nativeName: '한국어',
+    conventions: 'Professional messages use the formal polite speech level (합쇼체, e.g. "-습니다") or at least 해요체; 반말 (plain or casual endings) towards a recipient who isn\'t a close friend is a tone issue, as is mixing levels. Address people by name or title plus "님", not "당신".'
+  }
+];
+
+export function getLanguage(code: string | undefined): LanguageProfile | undefined {
+  return code ? LANGUAGES.find(language => language.code === code) : undefined;
+}
+
+export function isSupportedLanguage(code: unknown): code is string {
+  return typeof code === 'string' && Boolean(getLanguage(code));
+}
+
+// UI_LANGUAGE: the language issues and summaries are written in when a
+// request doesn't say. Unknown codes fall back to English.
+export function getDefaultUiLanguage(env: NodeJS.ProcessEnv = process.env): string {
+  const configured = env.UI_LANGUAGE?.toLowerCase();
+  return isSupportedLanguage(configured) ? configured : DEFAULT_UI_LANGUAGE;
+}
+
+// Appended to the system prompt. Empty for an English (or unrecognizable)
+// message reported in English, so those prompts are unchanged.
+export function buildLanguagePrompt(messageLanguage: string, uiLanguage: string): string {
+  const lines: string[] = [];
+  const message = getLanguage(messageLanguage);
+  if (message && message.code !== 'en') {
+    lines.push(`The message is written in ${message.name}. Judge grammar, spelling, punctuation and tone by the conventions of ${message.name}, not English: don't report anything that is only wrong in English. ${message.conventions || ''}`.trim());
+  }
+  const ui = getLanguage(uiLanguage);
+  if (ui && ui.code !== 'en') {
+    lines.push(`Write every "problem", "suggestion" and "summary" in ${ui.name}. "quotes" and "fix.quote" must still be copied exactly from the message, and "fix.replacement" stays in the language of the message.`);
+  }
+  if (lines.length === 0) return '';
+
+  return `
+
+LANGUAGE:
+${lines.join('\n')}`;
+}
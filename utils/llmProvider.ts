@@ -0,0 +1,245 @@
+// LLM provider abstraction for the analysis endpoints
+
+import fs from 'fs';
+import OpenAI, { AzureOpenAI } from 'openai';
+import { SanityResult } from '../types';
+
+export type ProviderName = 'openai' | 'openai-compatible' | 'azure-openai' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a JSON object. Only forwarded when the provider has JSON mode
+  // enabled, since older models reject `response_format`.
+  responseFormat?: 'text' | 'json';
+  // Cancels the request, e.g. when the caller has stopped waiting for it
+  signal?: AbortSignal;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResponse {
+  content: string;
+  model: string;
+  usage?: CompletionUsage;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+  // Same as `complete`, but reports content deltas as they arrive
+  completeStream(
+    request: CompletionRequest,
+    onDelta: (text: string) => void
+  ): Promise<CompletionResponse>;
+}
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+  jsonMode?: boolean;
+  mockFixturePath?: string;
+}
+
+// A canned response for the mock provider. When `match` is set the entry is
+// only used if the user prompt contains that substring.
+export interface MockFixture {
+  match?: string;
+  result: SanityResult;
+}
+
+const PROVIDER_NAMES: ProviderName[] = ['openai', 'openai-compatible', 'azure-openai', 'mock'];
+
+const DEFAULT_MOCK_RESULT: SanityResult = {
+  overallScore: 95,
+  hasIssues: false,
+  issues: [],
+  summary: 'Mock analysis: no issues detected.'
+};
+
+export function getProviderConfig(env: NodeJS.ProcessEnv = process.env): ProviderConfig {
+  const provider = (env.LLM_PROVIDER || 'openai').toLowerCase() as ProviderName;
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || (provider === 'mock' ? 'mock' : 'gpt-4'),
+    apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+    baseUrl: env.LLM_BASE_URL,
+    apiVersion: env.LLM_API_VERSION,
+    jsonMode: env.LLM_JSON_MODE === 'true',
+    mockFixturePath: env.MOCK_LLM_FIXTURES
+  };
+}
+
+function toUsage(usage?: OpenAI.CompletionUsage | null): CompletionUsage | undefined {
+  return usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens
+      }
+    : undefined;
+}
+
+function createChatCompletionsProvider(
+  name: ProviderName,
+  client: OpenAI,
+  config: ProviderConfig
+): LLMProvider {
+  const baseParams = (request: CompletionRequest) => ({
+    model: config.model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    response_format: config.jsonMode && request.responseFormat === 'json'
+      ? { type: 'json_object' as const }
+      : undefined,
+  });
+
+  return {
+    name,
+    model: config.model,
+    async complete(request) {
+      const completion = await client.chat.completions.create(baseParams(request), { signal: request.signal });
+      return {
+        content: completion.choices[0]?.message?.content || '',
+        model: completion.model,
+        usage: toUsage(completion.usage)
+      };
+    },
+    async completeStream(request, onDelta) {
+      const stream = await client.chat.completions.create({
+        ...baseParams(request),
+        stream: true,
+        // Not every OpenAI-compatible server understands stream_options
+        stream_options: name === 'openai-compatible' ? undefined : { include_usage: true },
+      }, { signal: request.signal });
+
+      let content = '';
+      let model = config.model;
+      let usage: CompletionUsage | undefined;
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+        usage = toUsage(chunk.usage) || usage;
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+      }
+      return { content, model, usage };
+    }
+  };
+}
+
+export function createOpenAIProvider(config: ProviderConfig): LLMProvider {
+  const client = new OpenAI({ apiKey: config.apiKey });
+  return createChatCompletionsProvider('openai', client, config);
+}
+
+// Works with anything speaking the OpenAI chat completions API: Ollama,
+// llama.cpp server, vLLM, LiteLLM and similar gateways.
+export function createOpenAICompatibleProvider(config: ProviderConfig): LLMProvider {
+  if (!config.baseUrl) {
+    throw new Error('LLM_BASE_URL is required for the openai-compatible provider');
+  }
+  const client = new OpenAI({
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseUrl
+  });
+  return createChatCompletionsProvider('openai-compatible', client, config);
+}
+
+export function createAzureOpenAIProvider(config: ProviderConfig): LLMProvider {
+  if (!config.baseUrl) {
+    throw new Error('LLM_BASE_URL (the Azure endpoint) is required for the azure-openai provider');
+  }
+  const client = new AzureOpenAI({
+    apiKey: config.apiKey,
+    endpoint: config.baseUrl,
+    apiVersion: config.apiVersion || '2024-06-01',
+    deployment: config.model
+  });
+  return createChatCompletionsProvider('azure-openai', client, config);
+}
+
+function loadMockFixtures(path?: string): MockFixture[] {
+  if (!path) return [];
+  const parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+  return Array.isArray(parsed) ? parsed : [parsed];
+}
+
+// Deterministic offline provider. Returns the first fixture whose `match`
+// appears in the analysis prompt, falling back to a clean result.
+export function createMockProvider(fixtures: MockFixture[] = []): LLMProvider {
+  const complete = async (request: CompletionRequest): Promise<CompletionResponse> => {
+    const prompt = request.messages.find(m => m.role === 'user')?.content || '';
+    const fixture = fixtures.find(f => !f.match || prompt.includes(f.match));
+    const content = JSON.stringify(fixture ? fixture.result : DEFAULT_MOCK_RESULT, null, 2);
+
+    return {
+      content,
+      model: 'mock',
+      usage: {
+        promptTokens: Math.ceil(prompt.length / 4),
+        completionTokens: Math.ceil(content.length / 4),
+        totalTokens: Math.ceil((prompt.length + content.length) / 4)
+      }
+    };
+  };
+
+  return {
+    name: 'mock',
+    model: 'mock',
+    complete,
+    async completeStream(request, onDelta) {
+      const response = await complete(request);
+      // Emit line by line so streaming consumers see partial output
+      for (const line of response.content.split(/(?<=\n)/)) {
+        onDelta(line);
+      }
+      return response;
+    }
+  };
+}
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(config);
+    case 'azure-openai':
+      return createAzureOpenAIProvider(config);
+    case 'mock':
+      return createMockProvider(loadMockFixtures(config.mockFixturePath));
+  }
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+// Lazily builds the provider selected by the environment so that importing
+// the API route never requires credentials.
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) {
+    cachedProvider = createProvider(getProviderConfig());
+  }
+  return cachedProvider;
+}
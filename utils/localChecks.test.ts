@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MessageContext } from '../types';
+import { checkEntityMismatches } from './localChecks';
+
+const context: MessageContext = { recipient: { name: 'Jane Doe', company: 'Acme' } };
+
+function mismatches(message: string) {
+  return checkEntityMismatches({ message, context });
+}
+
+describe('checkEntityMismatches', () => {
+  it('reports another company where the context names one', () => {
+    const message = "I'm excited about the role at Globex and its mission.";
+    const [issue, ...rest] = mismatches(message);
+    const start = message.indexOf('Globex');
+    assert.equal(rest.length, 0);
+    assert.equal(issue.category, 'entity_mismatch');
+    assert.deepEqual(issue.replacement, { start, end: start + 6, quote: 'Globex', text: 'Acme' });
+  });
+
+  it('accepts the company from the context', () => {
+    assert.deepEqual(mismatches('I would love to join Acme Inc. as an engineer.'), []);
+  });
+
+  for (const message of [
+    'I enjoyed working with React and TypeScript on my last project.',
+    "I'd love to work with Sarah again.",
+    'My work at Stanford taught me a lot.',
+    'Our team at Globex shipped it in a week.',
+    'The team with Priya owns the billing service.'
+  ]) {
+    it(`ignores tools, people and teams: "${message}"`, () => {
+      assert.deepEqual(mismatches(message), []);
+    });
+  }
+
+  it('does nothing without a company in the context', () => {
+    assert.deepEqual(checkEntityMismatches({ message: 'The role at Globex sounds great.', context: {} }), []);
+  });
+});
@@ -0,0 +1,393 @@
+// Deterministic checks that run before (and independently of) the model
+
+import { IssueSpan, MessageContext, Platform, SanityIssue, StyleRule } from '../types';
+import { runCustomRules } from './customRules';
+import { contextStrings, contextToText, getExpectedCompany } from './messageContext';
+import { checkPlatformConventions } from './platformChecks';
+import { findSensitiveData, SensitiveKind, SensitiveMatch } from './sensitiveData';
+
+export interface LocalCheckInput {
+  message: string;
+  // Filenames actually attached live in `context.attachments`; undefined
+  // there means unknown
+  context?: MessageContext;
+  platform?: Platform;
+  // Workspace style rules; only regex and keyword rules run locally
+  rules?: StyleRule[];
+}
+
+export type LocalCheck = (input: LocalCheckInput) => SanityIssue[];
+
+const ATTACHMENT_PATTERNS = [
+  /\b(?:see|find|check|review|open)\s+(?:the\s+)?(?:attached|enclosed)\b/gi,
+  /\b(?:i|we)(?:'ve|\s+have)\s+(?:also\s+)?(?:attached|enclosed)\b/gi,
+  /\b(?:i'm|i\s+am|we're|we\s+are)\s+(?:also\s+)?attaching\b/gi,
+  /\b(?:attached|enclosed)\s+(?:is|are|please|you(?:'ll|\s+will)\s+find|herewith)\b/gi,
+  /\b(?:the|my|our)\s+(?:attached\s+\w+|attachments?)\b/gi,
+  /\bPFA\b/g,
+  // German, French, Spanish, Portuguese, Italian and Dutch
+  /\b(?:im\s+Anhang|anbei|beigefügt|angehängt)\b/gi,
+  /\b(?:ci-jointe?s?|en\s+pi[èe]ce\s+jointe|pi[èe]ces?\s+jointes?)/gi,
+  /\b(?:adjunt[oa]s?|em\s+anexo|segue\s+anexo|anexad[oa]s?|in\s+allegato|allegat[oaie])\b/gi,
+  /\b(?:in\s+de\s+bijlage|bijgevoegd)\b/gi,
+  // Japanese, Chinese and Korean
+  /添付|別添|附件|随附|附上|첨부/g,
+];
+
+// Legal suffixes and punctuation that shouldn't affect a company comparison
+const COMPANY_SUFFIXES = /\b(?:inc|llc|ltd|limited|corp|corporation|co|gmbh|plc|ag|sa|group)\.?$/i;
+
+// One to four capitalized words in any script, e.g. "Acme", "Goldman Sachs",
+// "Procter & Gamble", "Société Générale". A lone "I" never continues a name
+// ("at Acme I learned..."). Patterns using it need the `u` flag.
+const NAME = `\\p{Lu}[\\p{L}\\p{M}\\p{N}&'’-]*(?:\\s+(?:&\\s+)?(?!I\\b)\\p{Lu}[\\p{L}\\p{M}\\p{N}&'’-]*){0,3}`;
+
+// `\b` only knows ASCII letters; this stands in for it before a word that
+// may start with any letter
+const WORD_START = `(?:^|[^\\p{L}\\p{M}\\p{N}_])`;
+
+// Capitalized words that follow "at"/"join" without being organizations
+const NON_COMPANY_WORDS = new Set([
+  'i', 'the', 'a', 'an', 'this', 'that', 'your', 'our', 'my', 'it', 'you', 'we',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august',
+  'september', 'october', 'november', 'december', 'noon', 'eod', 'asap'
+]);
+
+// Patterns are case-sensitive so NAME only matches capitalized words; the
+// leading keywords spell out both cases instead.
+const CONTEXT_COMPANY_PATTERNS = [
+  new RegExp(`^[ \\t]*(?:[Cc]ompany|[Ee]mployer|[Oo]rgani[sz]ation)[ \\t]*[:\\-][ \\t]*(${NAME})`, 'gmu'),
+  new RegExp(`${WORD_START}(${NAME})\\s+is\\s+(?:hiring|looking|seeking|a\\s+leading)`, 'gu'),
+  new RegExp(`\\b(?:[Aa]t|[Jj]oin|[Jj]oining|[Aa]bout)\\s+(${NAME})`, 'gu'),
+];
+
+// "Hi Jane," / "Dear Dr. Smith" / "Sehr geehrte Frau Müller" at the start of
+// the message. Case-sensitive for the same reason as the company patterns.
+const GREETING_PATTERN =
+  /^\s*(?:[Hh]i|[Hh]ello|[Hh]ey|[Dd]ear|[Gg]ood\s+(?:morning|afternoon|evening)|[Hh]allo|[Ll]ieber?|[Ss]ehr\s+geehrter?|[Bb]onjour|[Cc]h[eè]re?|[Hh]ola|[Ee]stimad[oa]|[Qq]uerid[oa]|[Oo]l[aá]|[Pp]rezad[oa]|[Cc]iao|[Gg]entile|[Bb]este|[Hh]ej)[ \t,]+(?:(?:Mr|Mrs|Ms|Mx|Dr|Prof|Frau|Herr|Mme|M|Sr|Sra|Sig|Sig\.ra|Dott)\.?[ \t]+)?(\p{Lu}[\p{L}\p{M}'’-]*)/u;
+
+// Greeting words that don't name a person: groups and bare titles
+const GROUP_GREETINGS = new Set([
+  'all', 'everyone', 'team', 'there', 'folks', 'guys', 'y’all', "y'all", 'both', 'sir', 'madam',
+  'damen', 'kollegen', 'kolleginnen', 'frau', 'herr', 'madame', 'monsieur', 'mesdames', 'messieurs',
+  'señor', 'señora', 'señores', 'equipo', 'signora', 'signore'
+]);
+
+// Nouns an employer usually follows. "with", "work" and "team" are left out:
+// "working with React" or "work with Sarah" names a tool or a person.
+const MESSAGE_COMPANY_PATTERNS = [
+  new RegExp(`\\b(?:role|position|opportunity|opening|job|career|internship|mission|culture)\\s+at\\s+(${NAME})`, 'gu'),
+  new RegExp(`\\b(?:[Jj]oin|[Jj]oining|[Jj]oined)\\s+(?:the\\s+team\\s+at\\s+)?(${NAME})`, 'gu'),
+  new RegExp(`\\b(?:interest|interested)\\s+in\\s+(${NAME})`, 'gu'),
+];
+
+export function normalizeCompanyName(name: string): string {
+  return name
+    .trim()
+    .replace(/['’]s$/i, '')
+    .replace(/[.,!?;:]+$/, '')
+    .replace(COMPANY_SUFFIXES, '')
+    .replace(/[^\p{L}\p{N}&]+/gu, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function cleanCandidate(raw: string): string | null {
+  const name = raw.replace(/['’]s$/i, '').replace(/[.,!?;:]+$/, '').trim();
+  const firstWord = name.split(/\s+/)[0].toLowerCase();
+  if (!name || NON_COMPANY_WORDS.has(firstWord)) return null;
+  return name;
+}
+
+function countOccurrences(text: string, term: string): number {
+  const haystack = text.toLowerCase();
+  const needle = term.toLowerCase();
+  let count = 0;
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+    count++;
+  }
+  return count;
+}
+
+// The company the context is about: an explicit "Company:" line if there is
+// one, otherwise the candidate mentioned most often in the context.
+export function findContextCompany(context: string): string | null {
+  const candidates = new Map<string, string>();
+
+  for (const [index, pattern] of CONTEXT_COMPANY_PATTERNS.entries()) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(context)) !== null) {
+      const name = cleanCandidate(match[1]);
+      if (!name) continue;
+      if (index === 0) return name;
+      const key = normalizeCompanyName(name);
+      if (!candidates.has(key)) candidates.set(key, name);
+    }
+  }
+
+  const [best] = Array.from(candidates.values())
+    .map(name => ({ name, count: countOccurrences(context, name) }))
+    .sort((a, b) => b.count - a.count);
+  return best ? best.name : null;
+}
+
+function mergeSpans(spans: IssueSpan[], text: string): IssueSpan[] {
+  const merged: IssueSpan[] = [];
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+      last.quote = text.slice(last.start, last.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+function findMessageCompanies(message: string): IssueSpan[] {
+  const mentions: IssueSpan[] = [];
+  for (const pattern of MESSAGE_COMPANY_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(message)) !== null) {
+      const name = cleanCandidate(match[1]);
+      if (!name) continue;
+      const start = match.index + match[0].lastIndexOf(match[1]);
+      if (!mentions.some(m => m.start === start)) {
+        mentions.push({ start, end: start + name.length, quote: name });
+      }
+    }
+  }
+  return mentions;
+}
+
+export const checkAttachmentMentions: LocalCheck = ({ message, context }) => {
+  const attachments = context?.attachments;
+  if (attachments && attachments.length > 0) return [];
+
+  const spans: IssueSpan[] = [];
+  for (const pattern of ATTACHMENT_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(message)) !== null) {
+      spans.push({ start: match.index, end: match.index + match[0].length, quote: match[0] });
+    }
+  }
+  if (spans.length === 0) return [];
+
+  const known = attachments !== undefined;
+  return [{
+    category: 'attachment',
+    severity: known ? 'high' : 'medium',
+    problem: known
+      ? 'The message refers to an attachment, but nothing is attached.'
+      : 'The message refers to an attachment.',
+    suggestion: known
+      ? 'Attach the file before sending, or remove the reference to it.'
+      : 'Double-check that the file is actually attached before sending.',
+    confidence: 1.0,
+    spans: mergeSpans(spans, message),
+    source: 'local'
+  }];
+};
+
+function findAllOccurrences(text: string, term: string): IssueSpan[] {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(${WORD_START})(${escaped})(?![\\p{L}\\p{M}\\p{N}_])`, 'gu');
+  const spans: IssueSpan[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const start = match.index + match[1].length;
+    spans.push({ start, end: start + match[2].length, quote: match[2] });
+  }
+  return spans;
+}
+
+export const checkEntityMismatches: LocalCheck = ({ message, context }) => {
+  if (!context) return [];
+
+  // A company stated in the recipient or source fields beats one guessed
+  // from the prose
+  const text = contextToText(context);
+  const contextCompany = getExpectedCompany(context) || findContextCompany(text);
+  if (!contextCompany) return [];
+
+  const expected = normalizeCompanyName(contextCompany);
+  // Names that appear anywhere in the context (thread, recipient, sources)
+  // are deliberate, not mismatches
+  const contextText = normalizeCompanyName(contextStrings(context).map(([, value]) => value).join('\n'));
+  const reported = new Set<string>();
+  const issues: SanityIssue[] = [];
+
+  for (const mention of findMessageCompanies(message)) {
+    const mentioned = normalizeCompanyName(mention.quote);
+    if (mentioned === expected || contextText.includes(mentioned) || reported.has(mentioned)) continue;
+    reported.add(mentioned);
+
+    issues.push({
+      category: 'entity_mismatch',
+      severity: 'high',
+      problem: `The message mentions "${mention.quote}", but the context is about ${contextCompany}.`,
+      suggestion: `Replace "${mention.quote}" with "${contextCompany}" if this message is meant for them.`,
+      confidence: 1.0,
+      spans: findAllOccurrences(message, mention.quote),
+      replacement: { ...mention, text: contextCompany },
+      source: 'local'
+    });
+  }
+
+  return issues;
+};
+
+// Lowercased name parts of "Jane Doe <jane.doe@example.com>": the words of
+// the display name plus the local part of the address
+function addressNames(address: string): string[] {
+  const match = address.match(/^(.*?)\s*<([^>]*)>\s*$/);
+  const display = (match ? match[1] : '').replace(/"/g, '');
+  const email = match ? match[2] : address;
+  const localPart = email.includes('@') ? email.split('@')[0] : '';
+  return [...display.split(/[\s,]+/), ...localPart.split(/[._+-]+/)]
+    .map(part => part.trim().toLowerCase())
+    .filter(part => part.length > 1);
+}
+
+function firstName(address: string): string | undefined {
+  const display = address.replace(/<[^>]*>/, '').replace(/"/g, '').trim();
+  // "Doe, Jane" puts the first name last
+  const name = display.includes(',') ? display.split(',')[1].trim() : display;
+  return name.split(/\s+/)[0] || undefined;
+}
+
+export const checkGreetingRecipient: LocalCheck = ({ message, context }) => {
+  const to = context?.headers?.to;
+  if (!to || to.length === 0) return [];
+
+  const match = GREETING_PATTERN.exec(message);
+  if (!match) return [];
+  const greeted = match[1];
+  const greetedKey = greeted.toLowerCase();
+  if (GROUP_GREETINGS.has(greetedKey)) return [];
+
+  const toNames = to.flatMap(addressNames);
+  // Only meaningful when the To addresses tell us who the recipients are
+  if (toNames.length === 0 || toNames.includes(greetedKey)) return [];
+
+  const inCc = (context?.headers?.cc || []).some(address => addressNames(address).includes(greetedKey));
+  const start = match.index + match[0].length - greeted.length;
+  const span = { start, end: start + greeted.length, quote: greeted };
+  const soleName = to.length === 1 ? firstName(to[0]) : undefined;
+
+  return [{
+    category: 'wrong_recipient_reference',
+    severity: 'high',
+    problem: inCc
+      ? `The greeting addresses ${greeted}, who is only in Cc, not in To.`
+      : `The greeting addresses ${greeted}, but nobody by that name is in the To line.`,
+    suggestion: soleName
+      ? `Greet ${soleName}, or add ${greeted} to the recipients.`
+      : `Check the recipients, or change the greeting to someone in the To line.`,
+    confidence: 0.9,
+    spans: [span],
+    replacement: soleName && /^\p{Lu}/u.test(soleName) ? { ...span, text: soleName } : undefined,
+    source: 'local'
+  }];
+};
+
+export const checkSubjectLine: LocalCheck = ({ context }) => {
+  if (!context?.headers || context.headers.subject) return [];
+  return [{
+    category: 'subject',
+    severity: 'medium',
+    problem: 'The email has no subject line.',
+    suggestion: 'Add a short subject that says what the email is about.',
+    confidence: 1.0,
+    source: 'local'
+  }];
+};
+
+// Kinds worth a warning. Email addresses and phone numbers are usually the
+// sender's own, so they are only redacted, never reported.
+const SENSITIVE_WARNINGS: Partial<Record<SensitiveKind, Pick<SanityIssue, 'severity' | 'suggestion' | 'confidence'>>> = {
+  secret: {
+    severity: 'high',
+    suggestion: 'Remove it and share credentials through a password manager or another secure channel. If it has been sent anywhere already, revoke it.',
+    confidence: 0.9
+  },
+  credit_card: {
+    severity: 'high',
+    suggestion: 'Remove the card number. Card details should only be entered in a payment form, never sent in a message.',
+    confidence: 1.0
+  },
+  national_id: {
+    severity: 'high',
+    suggestion: 'Remove it unless the recipient needs it, and send it through a secure channel if they do.',
+    confidence: 0.8
+  },
+  iban: {
+    severity: 'medium',
+    suggestion: 'Make sure the recipient is meant to have these bank details, and that they are yours.',
+    confidence: 1.0
+  },
+  internal_url: {
+    severity: 'medium',
+    suggestion: 'The recipient probably can\'t open internal links, and they reveal internal host names. Share a public link or the content instead.',
+    confidence: 0.8
+  }
+};
+
+function describeSensitive(matches: SensitiveMatch[]): string {
+  const labels = matches.map(match => match.label).filter((label, index, all) => all.indexOf(label) === index);
+  const list = labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels[0];
+  if (matches.length > 1) return `The message contains ${matches.length} sensitive values (${list}).`;
+  return `The message contains ${/^[aeio]/i.test(list) ? 'an' : 'a'} ${list}.`;
+}
+
+// One issue per kind, covering every occurrence
+export const checkSensitiveData: LocalCheck = ({ message }) => {
+  const byKind = new Map<SensitiveKind, SensitiveMatch[]>();
+  for (const match of findSensitiveData(message)) {
+    if (!SENSITIVE_WARNINGS[match.kind]) continue;
+    byKind.set(match.kind, [...(byKind.get(match.kind) || []), match]);
+  }
+
+  const issues: SanityIssue[] = [];
+  byKind.forEach((matches, kind) => {
+    issues.push({
+      category: 'sensitive_data',
+      ...SENSITIVE_WARNINGS[kind]!,
+      problem: describeSensitive(matches),
+      spans: matches.map(({ start, end, value }) => ({ start, end, quote: value })),
+      source: 'local'
+    });
+  });
+  return issues;
+};
+
+export const checkCustomRules: LocalCheck = ({ message, rules }) =>
+  rules ? runCustomRules(rules, message) : [];
+
+export const LOCAL_CHECKS: LocalCheck[] = [
+  checkAttachmentMentions,
+  checkEntityMismatches,
+  checkGreetingRecipient,
+  checkSubjectLine,
+  checkSensitiveData,
+  checkPlatformConventions,
+  checkCustomRules,
+];
+
+export function runLocalChecks(input: LocalCheckInput, checks: LocalCheck[] = LOCAL_CHECKS): SanityIssue[] {
+  const issues: SanityIssue[] = [];
+  for (const check of checks) {
+    try {
+      issues.push(...check(input));
+    } catch (error) {
+      // A broken rule must never take the whole analysis down
+      console.error('Local check failed:', error);
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,401 @@
+// Validation and formatting for the structured MessageContext
+
+import {
+  ContactInfo,
+  ContextSource,
+  ContextSourceKind,
+  ExtractedFields,
+  MessageContext,
+  MessageHeaders,
+  Relationship,
+  RELATIONSHIPS,
+  ThreadMessage
+} from '../types';
+import { formatExtractedFields } from './extractors/fields';
+
+export const RELATIONSHIP_LABELS: Record<Relationship, string> = {
+  cold_outreach: 'Cold outreach (first contact)',
+  recruiter: 'Recruiter',
+  hiring_manager: 'Hiring manager',
+  colleague: 'Colleague',
+  manager: 'My manager',
+  direct_report: 'My direct report',
+  client: 'Client or customer',
+  vendor: 'Vendor or partner',
+  friend: 'Friend',
+  other: 'Other'
+};
+
+const SOURCE_KINDS: ContextSourceKind[] = ['url', 'pasted', 'file'];
+const MAX_SHORT_FIELD = 200;
+const MAX_BODY_LENGTH = 10000;
+const MAX_THREAD_MESSAGES = 20;
+const MAX_SOURCES = 5;
+const MAX_ATTACHMENTS = 20;
+const MAX_RECIPIENTS = 50;
+// All text in the context together, so a full thread plus full sources
+// can't add up to a prompt far larger than any single field allows
+const MAX_CONTEXT_LENGTH = 40000;
+// RFC 5322 line length limit
+const MAX_SUBJECT_LENGTH = 998;
+const FIELD_KEYS: Array<keyof ExtractedFields> = ['company', 'title', 'location', 'hiringManager', 'employmentType', 'datePosted'];
+
+export interface ContextValidation {
+  context?: MessageContext;
+  errors: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Returns the trimmed string, or undefined when absent. Wrong types and
+// over-long values are reported.
+function readString(value: unknown, path: string, maxLength: number, errors: string[]): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    errors.push(`${path} must be a string`);
+    return undefined;
+  }
+  if (value.length > maxLength) {
+    errors.push(`${path} exceeds maximum length (${maxLength} characters)`);
+    return undefined;
+  }
+  return value.trim() || undefined;
+}
+
+function readContact(value: unknown, path: string, errors: string[]): ContactInfo | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return undefined;
+  }
+  const contact: ContactInfo = {
+    name: readString(value.name, `${path}.name`, MAX_SHORT_FIELD, errors),
+    role: readString(value.role, `${path}.role`, MAX_SHORT_FIELD, errors),
+    company: readString(value.company, `${path}.company`, MAX_SHORT_FIELD, errors)
+  };
+  return contact.name || contact.role || contact.company ? contact : undefined;
+}
+
+function readList<T>(
+  value: unknown,
+  path: string,
+  maxItems: number,
+  errors: string[],
+  readItem: (item: unknown, itemPath: string) => T | undefined
+): T[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`);
+    return undefined;
+  }
+  if (value.length > maxItems) {
+    errors.push(`${path} can have at most ${maxItems} entries`);
+    return undefined;
+  }
+  return value
+    .map((item, index) => readItem(item, `${path}[${index}]`))
+    .filter((item): item is T => item !== undefined);
+}
+
+function readHeaders(value: unknown, path: string, errors: string[]): MessageHeaders | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return undefined;
+  }
+  const readAddresses = (list: unknown, listPath: string) =>
+    readList(list, listPath, MAX_RECIPIENTS, errors, (item, itemPath) => readString(item, itemPath, 320, errors));
+
+  let subject: string | undefined;
+  if (value.subject !== undefined && value.subject !== null) {
+    // Unlike other fields, an empty subject is meaningful
+    subject = value.subject === '' ? '' : readString(value.subject, `${path}.subject`, MAX_SUBJECT_LENGTH, errors) ?? '';
+  }
+  return {
+    from: readString(value.from, `${path}.from`, 320, errors),
+    to: readAddresses(value.to, `${path}.to`),
+    cc: readAddresses(value.cc, `${path}.cc`),
+    subject
+  };
+}
+
+function readThreadMessage(value: unknown, path: string, errors: string[]): ThreadMessage | undefined {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return undefined;
+  }
+  const body = readString(value.body, `${path}.body`, MAX_BODY_LENGTH, errors);
+  if (!body) {
+    errors.push(`${path}.body is required`);
+    return undefined;
+  }
+  return {
+    from: readString(value.from, `${path}.from`, MAX_SHORT_FIELD, errors),
+    sentAt: readString(value.sentAt, `${path}.sentAt`, MAX_SHORT_FIELD, errors),
+    body
+  };
+}
+
+function readFields(value: unknown, path: string, errors: string[]): ExtractedFields | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return undefined;
+  }
+  const fields: ExtractedFields = {};
+  for (const key of FIELD_KEYS) {
+    const field = readString(value[key], `${path}.${key}`, MAX_SHORT_FIELD, errors);
+    if (field) fields[key] = field;
+  }
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+function readSource(value: unknown, path: string, errors: string[]): ContextSource | undefined {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return undefined;
+  }
+  if (!SOURCE_KINDS.includes(value.kind as ContextSourceKind)) {
+    errors.push(`${path}.kind must be one of: ${SOURCE_KINDS.join(', ')}`);
+    return undefined;
+  }
+  const content = readString(value.content, `${path}.content`, MAX_BODY_LENGTH, errors);
+  if (!content) {
+    errors.push(`${path}.content is required`);
+    return undefined;
+  }
+  return {
+    kind: value.kind as ContextSourceKind,
+    label: readString(value.label, `${path}.label`, MAX_SHORT_FIELD, errors),
+    url: readString(value.url, `${path}.url`, 2048, errors),
+    retrievedAt: readString(value.retrievedAt, `${path}.retrievedAt`, MAX_SHORT_FIELD, errors),
+    fields: readFields(value.fields, `${path}.fields`, errors),
+    content
+  };
+}
+
+// Accepts the structured object, or a plain string for clients that still
+// send free-text context (it becomes `notes`).
+export function validateMessageContext(value: unknown): ContextValidation {
+  const errors: string[] = [];
+  if (value === undefined || value === null || value === '') {
+    return { context: {}, errors };
+  }
+  if (typeof value === 'string') {
+    const notes = readString(value, 'context', MAX_BODY_LENGTH, errors);
+    return errors.length > 0 ? { errors } : { context: notes ? { notes } : {}, errors };
+  }
+  if (!isRecord(value)) {
+    return { errors: ['context must be a string or an object'] };
+  }
+
+  let relationship: Relationship | undefined;
+  if (value.relationship !== undefined && value.relationship !== null && value.relationship !== '') {
+    if (RELATIONSHIPS.includes(value.relationship as Relationship)) {
+      relationship = value.relationship as Relationship;
+    } else {
+      errors.push(`context.relationship must be one of: ${RELATIONSHIPS.join(', ')}`);
+    }
+  }
+
+  const context: MessageContext = {
+    recipient: readContact(value.recipient, 'context.recipient', errors),
+    sender: readContact(value.sender, 'context.sender', errors),
+    relationship,
+    headers: readHeaders(value.headers, 'context.headers', errors),
+    thread: readList(value.thread, 'context.thread', MAX_THREAD_MESSAGES, errors,
+      (item, path) => readThreadMessage(item, path, errors)),
+    attachments: readList(value.attachments, 'context.attachments', MAX_ATTACHMENTS, errors,
+      (item, path) => readString(item, path, 255, errors)),
+    sources: readList(value.sources, 'context.sources', MAX_SOURCES, errors,
+      (item, path) => readSource(item, path, errors)),
+    notes: readString(value.notes, 'context.notes', MAX_BODY_LENGTH, errors)
+  };
+
+  if (errors.length === 0) {
+    const total = contextStrings(context).reduce((sum, [, text]) => sum + text.length, 0);
+    if (total > MAX_CONTEXT_LENGTH) {
+      errors.push(`context exceeds maximum total length (${MAX_CONTEXT_LENGTH} characters across all fields, got ${total})`);
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { context, errors };
+}
+
+// Every free-text value in the context with its path, for security checks
+export function contextStrings(context: MessageContext): Array<[string, string]> {
+  const strings: Array<[string, string]> = [];
+  const add = (path: string, value?: string) => {
+    if (value) strings.push([path, value]);
+  };
+
+  for (const key of ['recipient', 'sender'] as const) {
+    add(`context.${key}.name`, context[key]?.name);
+    add(`context.${key}.role`, context[key]?.role);
+    add(`context.${key}.company`, context[key]?.company);
+  }
+  add('context.headers.from', context.headers?.from);
+  context.headers?.to?.forEach((address, index) => add(`context.headers.to[${index}]`, address));
+  context.headers?.cc?.forEach((address, index) => add(`context.headers.cc[${index}]`, address));
+  add('context.headers.subject', context.headers?.subject);
+  context.thread?.forEach((message, index) => {
+    add(`context.thread[${index}].from`, message.from);
+    add(`context.thread[${index}].body`, message.body);
+  });
+  context.attachments?.forEach((name, index) => add(`context.attachments[${index}]`, name));
+  context.sources?.forEach((source, index) => {
+    add(`context.sources[${index}].label`, source.label);
+    FIELD_KEYS.forEach(key => add(`context.sources[${index}].fields.${key}`, source.fields?.[key]));
+    add(`context.sources[${index}].content`, source.content);
+  });
+  add('context.notes', context.notes);
+  return strings;
+}
+
+// Returns a copy with every free-text value passed through `transform`
+export function mapContextStrings(context: MessageContext, transform: (value: string) => string): MessageContext {
+  const mapString = (value?: string) => (value === undefined ? undefined : transform(value));
+  const mapContact = (contact?: ContactInfo) =>
+    contact && { name: mapString(contact.name), role: mapString(contact.role), company: mapString(contact.company) };
+  const mapFields = (fields?: ExtractedFields) => {
+    if (!fields) return undefined;
+    const mapped: ExtractedFields = {};
+    FIELD_KEYS.forEach(key => {
+      if (fields[key]) mapped[key] = transform(fields[key]!);
+    });
+    return mapped;
+  };
+
+  return {
+    ...context,
+    recipient: mapContact(context.recipient),
+    sender: mapContact(context.sender),
+    headers: context.headers && {
+      from: mapString(context.headers.from),
+      to: context.headers.to?.map(transform),
+      cc: context.headers.cc?.map(transform),
+      subject: mapString(context.headers.subject)
+    },
+    thread: context.thread?.map(message => ({
+      ...message,
+      from: mapString(message.from),
+      body: transform(message.body)
+    })),
+    attachments: context.attachments?.map(transform),
+    sources: context.sources?.map(source => ({
+      ...source,
+      label: mapString(source.label),
+      fields: mapFields(source.fields),
+      content: transform(source.content)
+    })),
+    notes: mapString(context.notes)
+  };
+}
+
+// A page returned by /api/extract-url, added as a source. The recipient's
+// company is pre-filled from the page when it isn't already set.
+export function addExtractedSource(
+  context: MessageContext,
+  url: string,
+  data: { url?: string; source?: string; retrievedAt?: string; fields?: ExtractedFields; content: string }
+): MessageContext {
+  const source: ContextSource = {
+    kind: 'url',
+    label: data.fields?.title || data.source,
+    url: data.url || url,
+    retrievedAt: data.retrievedAt,
+    fields: data.fields,
+    content: data.content
+  };
+  return {
+    ...context,
+    sources: [...(context.sources || []), source],
+    recipient: context.recipient?.company || !data.fields?.company
+      ? context.recipient
+      : { ...context.recipient, company: data.fields.company }
+  };
+}
+
+// The company the message is meant for, when the context states it
+// explicitly rather than only mentioning it in prose
+export function getExpectedCompany(context: MessageContext = {}): string | undefined {
+  return context.recipient?.company || context.sources?.find(source => source.fields?.company)?.fields?.company;
+}
+
+// Plain-text rendering of the documents and notes, for checks that scan prose
+export function contextToText(context: MessageContext = {}): string {
+  const parts: string[] = [];
+  for (const source of context.sources || []) {
+    const fields = formatExtractedFields(source.fields);
+    parts.push(fields ? `${fields}\n\n${source.content}` : source.content);
+  }
+  if (context.notes) parts.push(context.notes);
+  return parts.join('\n\n');
+}
+
+function describeContact(contact?: ContactInfo): string | undefined {
+  if (!contact) return undefined;
+  const role = [contact.role, contact.company].filter(Boolean).join(' at ');
+  return [contact.name, role].filter(Boolean).join(', ') || undefined;
+}
+
+function describeSource(source: ContextSource): string {
+  const origin = source.url
+    ? `from ${source.url}${source.retrievedAt ? `, retrieved ${source.retrievedAt}` : ''}`
+    : source.kind === 'file' ? 'from an uploaded file' : 'pasted by the sender';
+  return `${source.label || 'Document'} (${origin})`;
+}
+
+// Prompt section listing each known fact on its own line so the model can
+// compare the message against them
+export function buildContextPrompt(context: MessageContext = {}, platform?: string): string {
+  const lines = [`- Platform: ${platform || 'Unknown'}`];
+  const recipient = describeContact(context.recipient);
+  const sender = describeContact(context.sender);
+  if (recipient) lines.push(`- Recipient: ${recipient}`);
+  if (sender) lines.push(`- Sender: ${sender}`);
+  if (context.relationship) lines.push(`- Relationship to recipient: ${RELATIONSHIP_LABELS[context.relationship]}`);
+  if (context.headers) {
+    const { from, to, cc, subject } = context.headers;
+    if (from) lines.push(`- Email from: ${from}`);
+    lines.push(`- Email to: ${to && to.length > 0 ? to.join(', ') : 'Nobody'}`);
+    if (cc && cc.length > 0) lines.push(`- Email cc: ${cc.join(', ')}`);
+    lines.push(`- Email subject: ${subject ? `"${subject}"` : '(empty)'}`);
+  }
+  lines.push(`- Files actually attached: ${
+    context.attachments === undefined
+      ? 'Unknown'
+      : context.attachments.length > 0 ? context.attachments.join(', ') : 'None'
+  }`);
+
+  const sections = [`CONTEXT:\n${lines.join('\n')}`];
+
+  if (context.thread && context.thread.length > 0) {
+    const last = context.thread.length - 1;
+    const messages = context.thread.map((message, index) => {
+      const header = [
+        message.from && `from ${message.from}`,
+        message.sentAt,
+        index === last && 'the message being replied to'
+      ].filter(Boolean).join(', ');
+      return `[${index + 1}]${header ? ` (${header})` : ''}\n"""\n${message.body}\n"""`;
+    });
+    sections.push(`EARLIER MESSAGES IN THIS THREAD (oldest first):\n${messages.join('\n')}`);
+  }
+
+  if (context.sources && context.sources.length > 0) {
+    const documents = context.sources.map((source, index) => {
+      const fields = formatExtractedFields(source.fields);
+      return `[${index + 1}] ${describeSource(source)}${fields ? `\n${fields}` : ''}\n"""\n${source.content}\n"""`;
+    });
+    sections.push(`SOURCE DOCUMENTS:\n${documents.join('\n')}`);
+  }
+
+  if (context.notes) {
+    sections.push(`ADDITIONAL NOTES FROM THE SENDER:\n"""\n${context.notes}\n"""`);
+  }
+
+  return sections.join('\n\n');
+}
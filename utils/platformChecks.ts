@@ -0,0 +1,207 @@
+// Local checks driven by the platform profiles: length limits, formatting
+// that won't render, mention syntax and letter conventions on chat platforms
+
+import { IssueSpan, SanityIssue } from '../types';
+import type { LocalCheck } from './localChecks';
+import { FormattingSyntax, getPlatformProfile, LengthLimit, PlatformProfile } from './platforms';
+
+interface UnrenderedSyntax {
+  name: string;
+  pattern: RegExp;
+}
+
+const MARKDOWN_BOLD: UnrenderedSyntax = { name: '**bold**', pattern: /\*\*[^*\n]+\*\*/g };
+const MARKDOWN_HEADING: UnrenderedSyntax = { name: '# headings', pattern: /^#{1,6}[ \t]+\S.*$/gm };
+const MARKDOWN_LINK: UnrenderedSyntax = { name: '[text](url) links', pattern: /\[[^\]\n]+\]\(\s*(?:https?:\/\/|mailto:)[^)\s]+\s*\)/g };
+const CODE_FENCE: UnrenderedSyntax = { name: '``` code blocks', pattern: /^[ \t]*```/gm };
+
+// Markup the reader would see as typed
+const UNRENDERED_SYNTAX: Record<FormattingSyntax, UnrenderedSyntax[]> = {
+  plain: [MARKDOWN_BOLD, MARKDOWN_HEADING, MARKDOWN_LINK, CODE_FENCE],
+  mrkdwn: [MARKDOWN_BOLD, MARKDOWN_HEADING, MARKDOWN_LINK],
+  markdown: []
+};
+
+const FORMATTING_TIPS: Record<FormattingSyntax, string> = {
+  plain: 'Remove the formatting characters and write links out in full.',
+  mrkdwn: 'Use Slack\'s own formatting: *bold* and <https://example.com|link text>.',
+  markdown: ''
+};
+
+// Slack-style markup on a platform without mentions
+const FOREIGN_MENTION = /<[@#!][A-Za-z0-9^|]+[^>\s]*>/g;
+
+const FORMAL_GREETING = /^(?:dear|to\s+whom\s+it\s+may\s+concern|sehr\s+geehrte[rn]?|estimad[oa]s?|madame,?\s+monsieur)\b[^\n]*/i;
+const FORMAL_SIGN_OFF = /^[ \t]*(?:(?:best|kind|warm|warmest)\s+regards|regards|sincerely|yours\s+(?:sincerely|faithfully|truly)|respectfully(?:\s+yours)?|mit\s+freundlichen\s+grüßen|cordialement|atentamente)[ \t]*[,.!]?[ \t]*$/gim;
+
+function findSpans(text: string, pattern: RegExp): IssueSpan[] {
+  const spans: IssueSpan[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    spans.push({ start: match.index, end: match.index + match[0].length, quote: match[0] });
+    if (!pattern.global) break;
+  }
+  return spans;
+}
+
+// Lengths count characters as people do, so an emoji is one
+function characterCount(text: string): number {
+  return Array.from(text).length;
+}
+
+function checkLength(
+  text: string,
+  limit: LengthLimit | undefined,
+  what: string,
+  profile: PlatformProfile
+): Omit<SanityIssue, 'category'> | null {
+  if (!limit) return null;
+  const length = characterCount(text);
+
+  if (limit.max !== undefined && length > limit.max) {
+    // The part that doesn't fit
+    const start = Array.from(text).slice(0, limit.max).join('').length;
+    return {
+      severity: 'high',
+      problem: `The ${what} is ${length} characters long; ${profile.label} allows ${limit.max}.`,
+      suggestion: `Shorten it by at least ${length - limit.max} characters.`,
+      confidence: 1.0,
+      spans: what === 'message' ? [{ start, end: text.length, quote: text.slice(start) }] : undefined,
+      source: 'local'
+    };
+  }
+  if (limit.recommended !== undefined && length > limit.recommended) {
+    return {
+      severity: 'low',
+      problem: `The ${what} is ${length} characters long; on ${profile.label} anything over ${limit.recommended} ${limit.note || 'is hard to read'}.`,
+      suggestion: `Shorten it to ${limit.recommended} characters if you can.`,
+      confidence: 1.0,
+      source: 'local'
+    };
+  }
+  return null;
+}
+
+function checkFormatting(message: string, profile: PlatformProfile): SanityIssue | null {
+  const found = UNRENDERED_SYNTAX[profile.formatting]
+    .map(syntax => ({ name: syntax.name, spans: findSpans(message, syntax.pattern) }))
+    .filter(({ spans }) => spans.length > 0);
+  if (found.length === 0) return null;
+
+  return {
+    category: 'other',
+    severity: 'medium',
+    problem: `${profile.label} doesn't format ${found.map(({ name }) => name).join(', ')}; the symbols will show as typed.`,
+    suggestion: FORMATTING_TIPS[profile.formatting],
+    confidence: 0.9,
+    spans: found.reduce<IssueSpan[]>((all, { spans }) => all.concat(spans), []).sort((a, b) => a.start - b.start),
+    source: 'local'
+  };
+}
+
+function checkMentions(message: string, profile: PlatformProfile): SanityIssue[] {
+  const { mentions } = profile;
+  if (!mentions) {
+    const foreign = findSpans(message, FOREIGN_MENTION);
+    return foreign.length === 0 ? [] : [{
+      category: 'other',
+      severity: 'medium',
+      problem: `${foreign[0].quote} is chat mention syntax; ${profile.label} will show it as typed.`,
+      suggestion: 'Write the person\'s or channel\'s name instead.',
+      confidence: 0.9,
+      spans: foreign,
+      source: 'local'
+    }];
+  }
+
+  const issues: SanityIssue[] = [];
+  const malformed = findSpans(message, mentions.markup).filter(span => !mentions.valid.test(span.quote));
+  if (malformed.length > 0) {
+    issues.push({
+      category: 'other',
+      severity: 'medium',
+      problem: `${malformed[0].quote} isn't a valid ${profile.label} mention, so nobody will be notified.`,
+      suggestion: `Type @ and pick the person from the list, or use the ID form ${mentions.example}.`,
+      confidence: 0.9,
+      spans: malformed,
+      source: 'local'
+    });
+  }
+
+  // Trim the character before "@here" that the pattern needs to match
+  const broadcasts = mentions.broadcast
+    ? findSpans(message, mentions.broadcast).map(span => {
+      const offset = Math.max(0, span.quote.search(/[@<]/));
+      return { start: span.start + offset, end: span.end, quote: span.quote.slice(offset) };
+    })
+    : [];
+  if (broadcasts.length > 0) {
+    issues.push({
+      category: 'other',
+      severity: 'low',
+      problem: `${broadcasts[0].quote} notifies everyone in the channel.`,
+      suggestion: 'Make sure it needs everyone\'s attention; otherwise mention the people who need to act.',
+      confidence: 0.8,
+      spans: broadcasts,
+      source: 'local'
+    });
+  }
+  return issues;
+}
+
+function checkLetterConventions(message: string, profile: PlatformProfile): SanityIssue[] {
+  const issues: SanityIssue[] = [];
+  if (profile.greeting === 'unusual') {
+    const leading = message.length - message.replace(/^\s+/, '').length;
+    const greeting = findSpans(message.slice(leading), FORMAL_GREETING)
+      .map(span => ({ ...span, start: span.start + leading, end: span.end + leading }));
+    if (greeting.length > 0) {
+      issues.push({
+        category: 'tone',
+        severity: 'low',
+        problem: `"${greeting[0].quote}" is a letter greeting; on ${profile.label} it reads as stiff.`,
+        suggestion: 'Use a short greeting such as "Hi" and the person\'s name, or none.',
+        confidence: 0.8,
+        spans: greeting,
+        source: 'local'
+      });
+    }
+  }
+  if (profile.signOff === 'unusual') {
+    // Only the closing lines count
+    const trimmed = message.replace(/\s+$/, '');
+    const tail = trimmed.length - trimmed.split('\n').slice(-3).join('\n').length;
+    const signOff = findSpans(message, FORMAL_SIGN_OFF).filter(span => span.start >= tail);
+    if (signOff.length > 0) {
+      issues.push({
+        category: 'tone',
+        severity: 'low',
+        problem: `"${signOff[0].quote.trim()}" is a letter sign-off; on ${profile.label} it reads as stiff.`,
+        suggestion: 'Leave it out, or end with a short "Thanks!".',
+        confidence: 0.8,
+        spans: signOff,
+        source: 'local'
+      });
+    }
+  }
+  return issues;
+}
+
+export const checkPlatformConventions: LocalCheck = ({ message, context, platform }) => {
+  const profile = getPlatformProfile(platform);
+  if (!profile) return [];
+
+  const issues: SanityIssue[] = [];
+  const messageLength = checkLength(message.replace(/\s+$/, ''), profile.limits.message, 'message', profile);
+  if (messageLength) issues.push({ category: 'other', ...messageLength });
+
+  const subject = context?.headers?.subject;
+  const subjectLength = subject ? checkLength(subject, profile.limits.subject, 'subject', profile) : null;
+  if (subjectLength) issues.push({ category: 'subject', ...subjectLength });
+
+  const formatting = checkFormatting(message, profile);
+  if (formatting) issues.push(formatting);
+
+  return issues.concat(checkMentions(message, profile), checkLetterConventions(message, profile));
+};
@@ -0,0 +1,207 @@
+// What each platform allows and what its readers expect. Shared by the API
+// (local checks and prompt guidance) and the UI (the platform picker and the
+// length counter), so this module has no server dependencies. To support a
+// new platform, add its id to PLATFORMS in types/index.ts and a profile here.
+
+import { Platform, PLATFORMS } from '../types';
+
+// 'mrkdwn' is Slack's own markup: *bold*, _italic_, <url|text> links
+export type FormattingSyntax = 'plain' | 'markdown' | 'mrkdwn';
+
+// Whether readers expect a greeting or sign-off. 'unusual' means letter-style
+// ones ("Dear ...", "Kind regards") read as stiff.
+export type Convention = 'expected' | 'optional' | 'unusual';
+
+export interface LengthLimit {
+  // Longer text is cut off or can't be sent
+  max?: number;
+  // Longer text still sends, but `note` happens to it
+  recommended?: number;
+  note?: string;
+}
+
+export interface MentionSyntax {
+  // Anything that looks like mention markup, valid or not
+  markup: RegExp;
+  // A single markup token that the platform turns into a mention
+  valid: RegExp;
+  // Mentions that notify a whole channel
+  broadcast?: RegExp;
+  example: string;
+}
+
+export interface PlatformProfile {
+  id: Platform;
+  label: string;
+  // Completes "The message will be sent as ..."
+  description: string;
+  // Other names clients may send, lowercased
+  aliases?: string[];
+  // Lengths in characters
+  limits: { message?: LengthLimit; subject?: LengthLimit };
+  formatting: FormattingSyntax;
+  // Platforms without mentions treat any mention markup as plain text
+  mentions?: MentionSyntax;
+  greeting: Convention;
+  signOff: Convention;
+  // The tone readers expect unless the relationship says otherwise
+  tone?: string;
+  guidance?: string;
+}
+
+const EMAIL_SUBJECT: LengthLimit = { recommended: 70, note: 'is cut off in most inboxes' };
+
+const SLACK_MENTIONS: MentionSyntax = {
+  markup: /<[@#!][^>\s]*>?/g,
+  valid: /^<(?:@[UW][A-Z0-9]{2,}|#C[A-Z0-9]{2,}(?:\|[^>]*)?|!(?:here|channel|everyone)|!subteam\^S[A-Z0-9]{2,}(?:\|[^>]*)?|!date\^\d+\^[^>]*)>$/,
+  broadcast: /<!(?:here|channel|everyone)>|(?:^|[^\w@])@(?:here|channel|everyone)\b/g,
+  example: '<@U012AB3CD>'
+};
+
+export const PLATFORM_PROFILES: Record<Platform, PlatformProfile> = {
+  email: {
+    id: 'email',
+    label: 'Email',
+    description: 'an email',
+    aliases: ['e-mail', 'mail', 'outlook'],
+    limits: { subject: EMAIL_SUBJECT },
+    formatting: 'plain',
+    greeting: 'expected',
+    signOff: 'expected',
+    tone: 'Polite and complete, in short paragraphs; the recipient may read it out of context later.'
+  },
+  gmail: {
+    id: 'gmail',
+    label: 'Gmail',
+    description: 'an email from Gmail',
+    limits: { subject: EMAIL_SUBJECT },
+    formatting: 'plain',
+    greeting: 'expected',
+    signOff: 'expected',
+    tone: 'Polite and complete, in short paragraphs; the recipient may read it out of context later.'
+  },
+  linkedin: {
+    id: 'linkedin',
+    label: 'LinkedIn',
+    description: 'a LinkedIn message',
+    limits: { message: { max: 8000 } },
+    formatting: 'plain',
+    greeting: 'optional',
+    signOff: 'optional',
+    tone: 'Professional but conversational. The first line shows in the preview, so it should say why you are writing.'
+  },
+  linkedin_connection: {
+    id: 'linkedin_connection',
+    label: 'LinkedIn connection note',
+    description: 'the note on a LinkedIn connection request',
+    aliases: ['linkedin connection', 'linkedin note', 'connection request'],
+    limits: { message: { max: 300 } },
+    formatting: 'plain',
+    greeting: 'optional',
+    signOff: 'optional',
+    tone: 'Brief and personal: how you know the person or why you want to connect. A sales pitch or a job request in the first note reads as pushy.',
+    guidance: 'There is no subject line and nothing can be attached.'
+  },
+  linkedin_inmail: {
+    id: 'linkedin_inmail',
+    label: 'LinkedIn InMail',
+    description: 'a LinkedIn InMail',
+    aliases: ['inmail'],
+    limits: { message: { max: 1900 }, subject: { max: 200 } },
+    formatting: 'plain',
+    greeting: 'expected',
+    signOff: 'optional',
+    tone: 'Professional. The recipient didn\'t ask to hear from the sender, so the opening should say why they are the right person to write to.'
+  },
+  slack: {
+    id: 'slack',
+    label: 'Slack',
+    description: 'a Slack message',
+    limits: { message: { max: 40000, recommended: 4000, note: 'is collapsed behind "Show more"' } },
+    formatting: 'mrkdwn',
+    mentions: SLACK_MENTIONS,
+    greeting: 'unusual',
+    signOff: 'unusual',
+    tone: 'Casual and brief is normal, even with managers and other teams; letter conventions read as stiff.',
+    guidance: 'Slack formats *bold*, _italic_, ~strikethrough~, `code` and <https://example.com|link text>; Markdown\'s **bold**, # headings and [text](url) links are shown as typed.'
+  },
+  teams: {
+    id: 'teams',
+    label: 'Microsoft Teams',
+    description: 'a Microsoft Teams chat message',
+    aliases: ['microsoft teams', 'ms teams'],
+    limits: { message: { max: 28000 } },
+    formatting: 'markdown',
+    greeting: 'unusual',
+    signOff: 'unusual',
+    tone: 'Conversational, like chat; letter conventions read as stiff.'
+  },
+  sms: {
+    id: 'sms',
+    label: 'Text message (SMS)',
+    description: 'a text message (SMS)',
+    aliases: ['text', 'text message', 'imessage', 'whatsapp'],
+    limits: { message: { recommended: 160, note: 'is split into several texts' } },
+    formatting: 'plain',
+    greeting: 'unusual',
+    signOff: 'unusual',
+    tone: 'Short and direct. Abbreviations are fine between people who know each other.'
+  },
+  other: {
+    id: 'other',
+    label: 'Other',
+    description: 'a message',
+    limits: {},
+    formatting: 'markdown',
+    greeting: 'optional',
+    signOff: 'optional'
+  }
+};
+
+function normalizePlatformName(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+// Accepts ids, labels and aliases in any case ("LinkedIn", "linkedin_inmail",
+// "Microsoft Teams"). Undefined when the value names no platform.
+export function parsePlatform(value: unknown): Platform | undefined {
+  if (typeof value !== 'string') return undefined;
+  const name = normalizePlatformName(value);
+  return PLATFORMS.find(id => {
+    const profile = PLATFORM_PROFILES[id];
+    return [id, profile.label, ...(profile.aliases || [])].some(candidate => normalizePlatformName(candidate) === name);
+  });
+}
+
+export function getPlatformProfile(platform?: Platform): PlatformProfile | undefined {
+  return platform ? PLATFORM_PROFILES[platform] : undefined;
+}
+
+const CONVENTION_NOTES: Record<'greeting' | 'signOff', Partial<Record<Convention, string>>> = {
+  greeting: {
+    expected: 'Readers expect a greeting.',
+    unusual: 'A letter-style greeting ("Dear ...") is unusual.'
+  },
+  signOff: {
+    expected: 'Readers expect a sign-off.',
+    unusual: 'A letter-style sign-off ("Kind regards") is unusual.'
+  }
+};
+
+// Appended to the system prompt. Empty when the platform is unknown.
+export function buildPlatformPrompt(platform?: Platform): string {
+  const profile = getPlatformProfile(platform);
+  if (!profile || !profile.tone) return '';
+
+  const notes = [
+    `The message will be sent as ${profile.description}. Expected tone: ${profile.tone}`,
+    CONVENTION_NOTES.greeting[profile.greeting],
+    CONVENTION_NOTES.signOff[profile.signOff],
+    profile.guidance,
+    'Judge tone against these conventions and the relationship. Length limits, formatting and mention syntax are checked separately.'
+  ];
+  return `
+
+PLATFORM:
+${notes.filter(Boolean).join(' ')}`;
+}
@@ -1,229 +1,230 @@
-// Comprehensive prompt injection protection utilities
-
-export interface SecurityValidationResult {
-  isValid: boolean;
-  violations: string[];
-  sanitizedInput?: string;
-  riskLevel: 'low' | 'medium' | 'high' | 'critical';
+// Prompt injection defences. Messages and their context are untrusted data:
+// they reach the model inside delimited blocks whose id the sender can't
+// guess, and the model's output is validated. Text that looks like an
+// injection attempt is scored and reported rather than refused; only
+// requests at PROMPT_RISK_REJECT_LEVEL are rejected outright.
+
+import crypto from 'crypto';
+import { PromptRisk, RiskLevel } from '../types';
+
+export interface RiskSignal {
+  id: string;
+  // The input field it was found in, e.g. "message" or "context.notes"
+  field: string;
+  weight: number;
+  description: string;
 }
 
-// Common prompt injection patterns
-const INJECTION_PATTERNS = [
-  // Direct instruction hijacking
-  /ignore\s+(previous|above|all|prior)\s+(instructions?|prompts?|rules?|commands?)/gi,
-  /forget\s+(everything|all|previous|above)/gi,
-  /new\s+(instructions?|task|role|system|prompt)/gi,
-  /now\s+(you\s+are|act\s+as|pretend|ignore)/gi,
-  
-  // Role manipulation
-  /you\s+are\s+(now|actually|really)\s+(a|an|the)/gi,
-  /act\s+as\s+(if\s+you\s+are\s+)?(a|an|the)/gi,
-  /pretend\s+(you\s+are|to\s+be)/gi,
-  /roleplay\s+as/gi,
-  
-  // System message injection
-  /\[?\s*system\s*\]?\s*:/gi,
-  /\[?\s*assistant\s*\]?\s*:/gi,
-  /\[?\s*user\s*\]?\s*:/gi,
-  /<\s*system\s*>/gi,
-  /<\s*\/?\s*(system|assistant|user)\s*>/gi,
-  
-  // Prompt termination attempts
-  /"""\s*\n\s*(ignore|forget|new|system)/gi,
-  /```\s*\n\s*(ignore|forget|new|system)/gi,
-  /---+\s*\n\s*(ignore|forget|new|system)/gi,
-  
-  // Jailbreak patterns
-  /DAN\s+(mode|prompt)/gi,
-  /developer\s+mode/gi,
-  /debug\s+mode/gi,
-  /simulation\s+mode/gi,
-  /unrestricted\s+mode/gi,
-  
-  // Instruction override attempts
-  /disregard\s+(previous|above|all|safety)/gi,
-  /override\s+(safety|security|restrictions)/gi,
-  /bypass\s+(safety|security|filters)/gi,
-  /disable\s+(safety|security|filters)/gi,
-  
-  // Context escape attempts
-  /break\s+out\s+of/gi,
-  /escape\s+(the|this)\s+(context|prompt|system)/gi,
-  /exit\s+(prompt|system|context)/gi,
-  
-  // Multi-language injection attempts
-  /(traduire|traduzir|翻译|번역|翻訳)\s*[:：]/gi,
-  
-  // Encoded injection attempts
-  /base64\s*[:：]/gi,
-  /rot13\s*[:：]/gi,
-  /hex\s*[:：]/gi,
-  
-  // Tool/function abuse
-  /execute\s+(code|command|function)/gi,
-  /run\s+(code|command|script)/gi,
-  /eval\s*\(/gi,
-];
-
-// Suspicious character combinations that might indicate encoding
-const SUSPICIOUS_PATTERNS = [
-  /[^\x00-\x7F]{20,}/g, // Long non-ASCII sequences
-  /&#x[0-9a-f]+;/gi, // HTML hex entities
-  /\\u[0-9a-f]{4}/gi, // Unicode escape sequences
-  /\\x[0-9a-f]{2}/gi, // Hex escape sequences
-  /%[0-9a-f]{2}/gi, // URL encoded sequences
-];
-
-// Words that are commonly used in prompt injections
-const HIGH_RISK_KEYWORDS = [
-  'system', 'admin', 'root', 'debug', 'developer', 'override', 'bypass',
-  'jailbreak', 'unrestricted', 'unlimited', 'disable', 'ignore', 'forget',
-  'disregard', 'override', 'replace', 'substitute', 'new instructions',
-  'act as', 'pretend', 'roleplay', 'simulate', 'emulate'
-];
+export interface RiskAssessment extends PromptRisk {
+  details: RiskSignal[];
+}
 
-export function validateInput(input: string, fieldName: string = 'input'): SecurityValidationResult {
-  const violations: string[] = [];
-  let riskLevel: SecurityValidationResult['riskLevel'] = 'low';
+interface RiskPattern {
+  id: string;
+  pattern: RegExp;
+  weight: number;
+  description: string;
+}
 
-  if (!input || typeof input !== 'string') {
-    return {
-      isValid: true,
-      violations: [],
-      riskLevel: 'low'
-    };
+// Weights add up per request, once per signal. Phrases that ordinary
+// messages use ("act as a", "debug mode", "new task") weigh little; only
+// several strong signals together reach 'critical'.
+const RISK_PATTERNS: RiskPattern[] = [
+  {
+    id: 'instruction_override',
+    pattern: /\b(?:ignore|disregard|forget|override)\s+(?:all\s+|any\s+)?(?:of\s+)?(?:the\s+|your\s+)?(?:(?:previous|prior|above|earlier|preceding|original|system)\s+(?:instructions?|prompts?|rules?|directions?|guidelines?)|above\b)/i,
+    weight: 45,
+    description: 'asks the model to ignore its instructions'
+  },
+  {
+    // The same in German, French, Spanish, Italian, Portuguese, Russian,
+    // Japanese, Chinese and Korean. Scored once with the English pattern.
+    id: 'instruction_override',
+    pattern: /\b(?:ignorier(?:e|en)?|vergiss|vergessen)\b[^.\n]{0,40}\b(?:vorherigen|bisherigen|obigen|vorigen)\s+(?:Anweisungen|Instruktionen|Regeln)|\b(?:ignore[sz]?|oublie[sz]?)\b[^.\n]{0,30}\b(?:instructions|consignes)\s+(?:pr[ée]c[ée]dentes|ci-dessus)|\b(?:ignora|ignore|olvida|esquece|esque[çc]a|dimentica)\b[^.\n]{0,30}\b(?:instrucciones\s+anteriores|istruzioni\s+precedenti|instru[çc][õo]es\s+anteriores)|(?:игнорируй(?:те)?|забудь(?:те)?)\s+(?:все\s+)?(?:предыдущие|прошлые|вышеуказанные)\s+(?:инструкции|указания)|(?:以前|前|上記|これまで)の(?:全ての|すべての)?(?:指示|命令|プロンプト)を(?:無視|忘れ)|(?:忽略|无视|忘记)(?:之前|以上|上面|先前|前面)?(?:的)?(?:所有)?(?:的)?(?:指令|指示|说明|提示)|이전\s*(?:의\s*)?(?:지시|명령|지침)[을를]?\s*(?:모두\s*)?무시/i,
+    weight: 45,
+    description: 'asks the model to ignore its instructions'
+  },
+  {
+    id: 'chat_markup',
+    pattern: /<\|im_(?:start|end)\|>|<\/?\s*(?:system|assistant)\s*>|\[\/?INST\]|<<\/?SYS>>/i,
+    weight: 35,
+    description: 'contains chat-format role markup'
+  },
+  {
+    id: 'forged_result',
+    pattern: /"(?:overallScore|hasIssues)"\s*:/,
+    weight: 50,
+    description: 'contains a pre-written analysis result'
+  },
+  {
+    id: 'verdict_demand',
+    pattern: /\b(?:report|say|return|respond|answer|output)\b[^.\n]{0,40}\b(?:no\s+issues|(?:overall\s*)?score\s*(?:of\s+|[:=]\s*)?100|100\s*\/\s*100|perfect\s+score)/i,
+    weight: 35,
+    description: 'tells the model what verdict to return'
+  },
+  {
+    id: 'prompt_extraction',
+    pattern: /\b(?:reveal|print|show|repeat|output|leak)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+|hidden\s+|initial\s+)?(?:prompt|instructions)\b/i,
+    weight: 30,
+    description: 'asks for the system prompt'
+  },
+  {
+    id: 'model_addressed',
+    pattern: /\bas\s+an?\s+(?:AI|language\s+model|assistant)\b|\b(?:dear|hey|attention)\s+(?:AI|assistant|model|LLM)\b|\b(?:AI|assistant|model|LLM)\s*,\s*(?:please\s+)?(?:ignore|respond|return|mark|rate)\b/i,
+    weight: 20,
+    description: 'addresses an AI model directly'
+  },
+  {
+    id: 'role_reassignment',
+    pattern: /\b(?:you\s+are\s+(?:now|no\s+longer)|from\s+now\s+on,?\s+you)\b/i,
+    weight: 20,
+    description: 'tries to give the model a new role'
+  },
+  {
+    id: 'delimiter_forgery',
+    pattern: /<<\s*(?:BEGIN|END)\s+[A-Z]+\s+untrusted-/i,
+    weight: 35,
+    description: 'imitates the delimiters around the message'
+  },
+  {
+    id: 'delimiter_escape',
+    pattern: /(?:"""|```|-{3,})\s*\n+\s*(?:ignore|forget|disregard|system|assistant|new\s+instructions)\b/i,
+    weight: 15,
+    description: 'closes a quoted block and continues with instructions'
+  },
+  {
+    id: 'jailbreak_term',
+    pattern: /\b(?:jailbreak|jailbroken|DAN\s+(?:mode|prompt)|do\s+anything\s+now)\b/i,
+    weight: 15,
+    description: 'uses jailbreak terminology'
+  },
+  {
+    id: 'role_prefix',
+    pattern: /^\s*(?:system|assistant)\s*:/im,
+    weight: 10,
+    description: 'has a line starting with a chat role name'
+  },
+  {
+    id: 'role_play',
+    pattern: /\b(?:act\s+as\s+(?:if\s+you\s+are\s+)?(?:a|an|the)|pretend\s+(?:you\s+are|to\s+be)|roleplay\s+as)\b/i,
+    weight: 5,
+    description: 'asks someone to play a role'
+  },
+  {
+    id: 'mode_switch',
+    pattern: /\b(?:developer|debug|unrestricted|god)\s+mode\b|\bnew\s+(?:instructions|task|role|system\s+prompt)\b/i,
+    weight: 5,
+    description: 'mentions switching modes or tasks'
+  },
+  {
+    id: 'encoded_payload',
+    pattern: /[A-Za-z0-9+/]{160,}={0,2}/,
+    weight: 10,
+    description: 'contains a long encoded blob'
   }
+];
 
-  // Check length limits
-  if (input.length > 10000) {
-    violations.push(`${fieldName} exceeds maximum length (10000 characters)`);
-    riskLevel = 'medium';
+// Flag emoji such as England's are spelled with tag characters; any other
+// tag characters are text the reader can't see
+const EMOJI_TAG_SEQUENCE = /\uD83C\uDFF4(?:\uDB40[\uDC20-\uDC7E])+\uDB40\uDC7F/g;
+const TAG_CHARACTER = /\uDB40[\uDC00-\uDC7F]/;
+// Zero-width spaces and bidi overrides, which hide or reorder text. ZWJ and
+// ZWNJ are left alone: emoji and several scripts need them.
+const INVISIBLE_CHARACTER = /[\u200B\u202A-\u202E\u2060\u2066-\u2069]/;
+// What sanitizeInput removes: the above plus byte order marks, keeping flags
+const HIDDEN_CHARACTERS = new RegExp(
+  `(${EMOJI_TAG_SEQUENCE.source})|${INVISIBLE_CHARACTER.source}|\\uFEFF|${TAG_CHARACTER.source}`,
+  'g'
+);
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+// Lowest score of each level
+const LEVEL_THRESHOLDS: Record<RiskLevel, number> = { low: 0, medium: 25, high: 50, critical: 80 };
+
+// Signals that aren't a single pattern
+function structuralSignals(field: string, input: string): RiskSignal[] {
+  const signals: RiskSignal[] = [];
+  if (TAG_CHARACTER.test(input.replace(EMOJI_TAG_SEQUENCE, ''))) {
+    signals.push({ id: 'hidden_text', field, weight: 50, description: 'contains text hidden in Unicode tag characters' });
   }
-
-  // Check for prompt injection patterns
-  for (const pattern of INJECTION_PATTERNS) {
-    if (pattern.test(input)) {
-      violations.push(`${fieldName} contains potential prompt injection pattern: ${pattern.source}`);
-      riskLevel = 'high';
-    }
+  if (INVISIBLE_CHARACTER.test(input)) {
+    signals.push({ id: 'invisible_characters', field, weight: 20, description: 'contains invisible or direction-changing characters' });
   }
-
-  // Check for suspicious encoding
-  for (const pattern of SUSPICIOUS_PATTERNS) {
-    const matches = input.match(pattern);
-    if (matches && matches.length > 0) {
-      violations.push(`${fieldName} contains suspicious encoding patterns`);
-      riskLevel = riskLevel === 'high' ? 'high' : 'medium';
-    }
+  // Most lines repeated: more padding than message
+  const lines = input.split('\n').filter(line => line.trim().length > 10);
+  const repeated = lines.filter((line, index) => lines.indexOf(line) !== index);
+  if (lines.length >= 10 && repeated.length > lines.length * 0.5) {
+    signals.push({ id: 'repetition', field, weight: 15, description: 'repeats the same lines many times' });
   }
+  return signals;
+}
 
-  // Check for high-risk keywords concentration
-  const lowercaseInput = input.toLowerCase();
-  const keywordMatches = HIGH_RISK_KEYWORDS.filter(keyword => 
-    lowercaseInput.includes(keyword.toLowerCase())
-  );
-  
-  if (keywordMatches.length >= 3) {
-    violations.push(`${fieldName} contains multiple high-risk keywords: ${keywordMatches.join(', ')}`);
-    riskLevel = riskLevel === 'high' ? 'high' : 'medium';
-  }
+export function riskLevel(score: number): RiskLevel {
+  return RISK_LEVELS.reduce<RiskLevel>((level, candidate) => (score >= LEVEL_THRESHOLDS[candidate] ? candidate : level), 'low');
+}
 
-  // Check for excessive special characters (potential obfuscation)
-  const specialCharCount = (input.match(/[^\w\s.,!?;:()\[\]{}'"@#$%^&*+=|\\/<>-]/g) || []).length;
-  if (specialCharCount > input.length * 0.1) {
-    violations.push(`${fieldName} contains excessive special characters (possible obfuscation)`);
-    riskLevel = riskLevel === 'high' ? 'high' : 'medium';
+export function findRiskSignals(fields: Array<[string, string | undefined]>): RiskSignal[] {
+  const signals: RiskSignal[] = [];
+  for (const [field, value] of fields) {
+    if (!value) continue;
+    for (const { id, pattern, weight, description } of RISK_PATTERNS) {
+      if (pattern.test(value)) signals.push({ id, field, weight, description });
+    }
+    signals.push(...structuralSignals(field, value));
   }
+  return signals;
+}
 
-  // Check for multiple triple quotes/backticks (prompt termination attempts)
-  const tripleQuoteCount = (input.match(/"""|```/g) || []).length;
-  if (tripleQuoteCount >= 2) {
-    violations.push(`${fieldName} contains multiple triple quotes/backticks (potential prompt escape)`);
-    riskLevel = 'high';
-  }
+// Scores the signals of one request together, so the same trick spread over
+// the message and its context counts once per kind
+export function scoreRisk(details: RiskSignal[]): RiskAssessment {
+  const weights = new Map<string, number>();
+  details.forEach(signal => weights.set(signal.id, signal.weight));
+  let score = 0;
+  weights.forEach(weight => { score += weight; });
+  score = Math.min(100, score);
 
-  // Check for XML/HTML-like tags that might be system prompts
-  const xmlTagPattern = /<\/?[a-zA-Z][^>]*>/g;
-  const xmlTags = input.match(xmlTagPattern) || [];
-  if (xmlTags.length > 0) {
-    const suspiciousTags = xmlTags.filter(tag => 
-      /system|assistant|user|prompt|instruction/gi.test(tag)
-    );
-    if (suspiciousTags.length > 0) {
-      violations.push(`${fieldName} contains suspicious XML/HTML tags: ${suspiciousTags.join(', ')}`);
-      riskLevel = 'high';
-    }
-  }
+  return { score, level: riskLevel(score), signals: Array.from(weights.keys()), details };
+}
 
-  // Check for excessive repetition (potential DoS)
-  const lines = input.split('\n');
-  const repeatedLines = lines.filter((line, index) => 
-    lines.indexOf(line) !== index && line.trim().length > 10
-  );
-  if (repeatedLines.length > lines.length * 0.5) {
-    violations.push(`${fieldName} contains excessive repetition (potential DoS attempt)`);
-    riskLevel = 'critical';
-  }
+export function assessRisk(fields: Array<[string, string | undefined]>): RiskAssessment {
+  return scoreRisk(findRiskSignals(fields));
+}
 
-  return {
-    isValid: violations.length === 0,
-    violations,
-    riskLevel,
-    sanitizedInput: sanitizeInput(input)
-  };
+// PROMPT_RISK_REJECT_LEVEL: 'critical' (default), 'high' or 'off'
+export function shouldRejectRisk(risk: RiskAssessment, env: NodeJS.ProcessEnv = process.env): boolean {
+  const setting = (env.PROMPT_RISK_REJECT_LEVEL || 'critical').toLowerCase();
+  if (setting === 'off') return false;
+  const threshold = RISK_LEVELS.includes(setting as RiskLevel) ? setting as RiskLevel : 'critical';
+  return risk.score >= LEVEL_THRESHOLDS[threshold];
 }
 
+// Normalizes untrusted text without changing what it says. Markup, quotes
+// and code are left as they are: delimiting makes them harmless.
 export function sanitizeInput(input: string): string {
   if (!input || typeof input !== 'string') return '';
 
   return input
-    // Remove potentially dangerous XML-like tags
-    .replace(/<\/?(?:system|assistant|user|prompt|instruction)[^>]*>/gi, '[REMOVED_TAG]')
-    // Remove triple quotes/backticks that could be used for prompt escape
-    .replace(/```/g, '\'\'\'')
-    .replace(/"""/g, '\'\'\'')
     // Normalize excessive whitespace
     .replace(/\n{4,}/g, '\n\n\n')
     .replace(/\s{10,}/g, ' ')
-    // Remove some suspicious Unicode characters
-    .replace(/[\u200B-\u200F\u202A-\u202E\uFEFF]/g, '')
+    // Characters that hide or reorder text
+    .replace(HIDDEN_CHARACTERS, (_, flag) => flag || '')
     // Limit length
     .slice(0, 10000)
     .trim();
 }
 
-export function createSecurePrompt(userMessage: string, context: string, platform: string): {
-  isSecure: boolean;
-  violations: string[];
-  sanitizedMessage?: string;
-  sanitizedContext?: string;
-  sanitizedPlatform?: string;
-} {
-  const messageValidation = validateInput(userMessage, 'message');
-  const contextValidation = validateInput(context, 'context');
-  const platformValidation = validateInput(platform, 'platform');
-
-  const allViolations = [
-    ...messageValidation.violations,
-    ...contextValidation.violations,
-    ...platformValidation.violations
-  ];
-
-  const highestRiskLevel = [messageValidation, contextValidation, platformValidation]
-    .map(v => v.riskLevel)
-    .reduce((highest, current) => {
-      const levels = { low: 1, medium: 2, high: 3, critical: 4 };
-      return levels[current] > levels[highest] ? current : highest;
-    }, 'low');
-
-  const isSecure = allViolations.length === 0 && highestRiskLevel !== 'critical';
-
-  return {
-    isSecure,
-    violations: allViolations,
-    sanitizedMessage: messageValidation.sanitizedInput,
-    sanitizedContext: contextValidation.sanitizedInput,
-    sanitizedPlatform: platformValidation.sanitizedInput
-  };
+// A fresh id per request for the blocks untrusted text is placed in. Text
+// can't close a block it doesn't know the id of.
+export function createBoundary(): string {
+  return `untrusted-${crypto.randomBytes(8).toString('hex')}`;
 }
 
+// Matches any boundary, e.g. to compare prompts that differ only in it
+export const BOUNDARY_PATTERN = /untrusted-[0-9a-f]{16}/g;
+
+export function wrapUntrusted(label: string, text: string, boundary: string): string {
+  return `<<BEGIN ${label} ${boundary}>>\n${text}\n<<END ${label} ${boundary}>>`;
+}
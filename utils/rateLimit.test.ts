@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { createFileStore, createMemoryStore, RateLimitStore } from './rateLimit';
+
+const LIMIT = 10;
+const WINDOW_MS = 1000;
+
+let now = 0;
+
+async function hits(store: RateLimitStore, count: number, key = 'client') {
+  const results = [];
+  for (let i = 0; i < count; i++) results.push(await store.hit(key, LIMIT, WINDOW_MS));
+  return results;
+}
+
+describe('sliding window rate limit', () => {
+  beforeEach(() => {
+    now = 0;
+    mock.method(Date, 'now', () => now);
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it('allows the limit within one window and counts down remaining', async () => {
+    const store = createMemoryStore();
+    now = 500;
+    const results = await hits(store, LIMIT + 1);
+    assert.deepEqual(results.map(result => result.allowed), [...Array(LIMIT).fill(true), false]);
+    assert.equal(results[0].remaining, LIMIT - 1);
+    assert.equal(results[0].retryAfterMs, 0);
+    assert.equal(results[0].resetTime, 1000);
+    assert.equal(results[LIMIT].remaining, 0);
+  });
+
+  it('waits for the full window to slide out of the next one', async () => {
+    const store = createMemoryStore();
+    now = 500;
+    const [denied] = (await hits(store, LIMIT + 1)).slice(-1);
+    // In the next window the ten hits weigh 10 * (1 - elapsed / 1000), which
+    // leaves room for one more after 100ms of it
+    assert.equal(denied.retryAfterMs, 600);
+    assert.equal(denied.resetTime, 1100);
+
+    now = 1099;
+    assert.equal((await store.hit('client', LIMIT, WINDOW_MS)).allowed, false);
+    now = 1100;
+    assert.equal((await store.hit('client', LIMIT, WINDOW_MS)).allowed, true);
+  });
+
+  it('weights the previous window by how much of it still overlaps', async () => {
+    const store = createMemoryStore();
+    now = 900;
+    await hits(store, LIMIT);
+
+    // Halfway through the next window the previous ten count as five
+    now = 1500;
+    const results = await hits(store, 6);
+    assert.deepEqual(results.map(result => result.allowed), [true, true, true, true, true, false]);
+    assert.equal(results[0].remaining, 4);
+
+    // 10 * (1 - 0.6) + 5 + 1 = 10 first fits 600ms into the window
+    const denied = results[5];
+    assert.equal(denied.retryAfterMs, 100);
+    now = 1599;
+    assert.equal((await store.hit('client', LIMIT, WINDOW_MS)).allowed, false);
+    now = 1600;
+    assert.equal((await store.hit('client', LIMIT, WINDOW_MS)).allowed, true);
+  });
+
+  it('forgets windows more than one window old', async () => {
+    const store = createMemoryStore();
+    now = 500;
+    await hits(store, LIMIT);
+    now = 2000;
+    const [result] = await hits(store, 1);
+    assert.equal(result.allowed, true);
+    assert.equal(result.remaining, LIMIT - 1);
+  });
+
+  it('counts keys separately', async () => {
+    const store = createMemoryStore();
+    await hits(store, LIMIT, 'a');
+    assert.equal((await store.hit('a', LIMIT, WINDOW_MS)).allowed, false);
+    assert.equal((await store.hit('b', LIMIT, WINDOW_MS)).allowed, true);
+  });
+});
+
+describe('createFileStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rate-limit-'));
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('shares counts between stores using the same file', async () => {
+    const file = path.join(dir, 'limits.json');
+    const first = createFileStore(file);
+    const second = createFileStore(file);
+    const results = await Promise.all(
+      Array.from({ length: LIMIT + 2 }, (_, i) => (i % 2 ? first : second).hit('client', LIMIT, 60000))
+    );
+    assert.equal(results.filter(result => result.allowed).length, LIMIT);
+    assert.equal(fs.existsSync(`${file}.lock`), false);
+  });
+});
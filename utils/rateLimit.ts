@@ -1,61 +1,248 @@
 // Rate limiting utilities
+//
+// Uses a sliding window counter: the count for the previous fixed window is
+// weighted by how much of it still overlaps the sliding window, which smooths
+// out the burst a plain fixed window allows at every boundary.
 
-interface RateLimitData {
-  count: number;
-  resetTime: number;
-}
-
-// In-memory storage for rate limiting (use Redis in production)
-const requestCounts = new Map<string, RateLimitData>();
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { withFileLock } from './fileLock';
+import { getRedisClient, RedisReply } from './redisClient';
 
 export interface RateLimitResult {
   allowed: boolean;
+  limit: number;
   remaining: number;
   resetTime: number;
+  // Milliseconds until the next request would be allowed; 0 when allowed
+  retryAfterMs: number;
 }
 
-export function checkRateLimit(
-  clientId: string,
-  maxRequests: number = 10,
-  windowMs: number = 60000
-): RateLimitResult {
-  const now = Date.now();
-  const clientData = requestCounts.get(clientId);
-
-  if (!clientData || now > clientData.resetTime) {
-    const resetTime = now + windowMs;
-    requestCounts.set(clientId, { count: 1, resetTime });
-    return {
-      allowed: true,
-      remaining: maxRequests - 1,
-      resetTime,
-    };
+export interface RateLimitStore {
+  name: string;
+  hit(key: string, maxRequests: number, windowMs: number): Promise<RateLimitResult>;
+}
+
+interface WindowCounts {
+  windowStart: number;
+  windowMs: number;
+  current: number;
+  previous: number;
+}
+
+function windowStartFor(now: number, windowMs: number): number {
+  return Math.floor(now / windowMs) * windowMs;
+}
+
+function weightedCount(counts: WindowCounts, now: number): number {
+  const elapsed = now - counts.windowStart;
+  return counts.previous * ((counts.windowMs - elapsed) / counts.windowMs) + counts.current;
+}
+
+// Brings stored counts forward to the window containing `now`
+function rollWindow(counts: WindowCounts | undefined, now: number, windowMs: number): WindowCounts {
+  const windowStart = windowStartFor(now, windowMs);
+  if (!counts || counts.windowMs !== windowMs || counts.windowStart < windowStart - windowMs) {
+    return { windowStart, windowMs, current: 0, previous: 0 };
+  }
+  if (counts.windowStart < windowStart) {
+    return { windowStart, windowMs, current: 0, previous: counts.current };
   }
+  return { ...counts };
+}
 
-  if (clientData.count >= maxRequests) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetTime: clientData.resetTime,
-    };
+function retryAfter(counts: WindowCounts, maxRequests: number, now: number): number {
+  const { windowStart, windowMs, current, previous } = counts;
+  if (current + 1 <= maxRequests && previous > 0) {
+    // Wait for enough of the previous window to slide out
+    const fraction = 1 - (maxRequests - 1 - current) / previous;
+    return Math.max(0, Math.ceil(windowStart + fraction * windowMs - now));
   }
+  // The current window alone is full; in the next one it becomes "previous"
+  const nextFraction = current > 0 ? Math.max(0, 1 - (maxRequests - 1) / current) : 0;
+  return Math.ceil(windowStart + windowMs + nextFraction * windowMs - now);
+}
 
-  clientData.count++;
+function toResult(counts: WindowCounts, allowed: boolean, maxRequests: number, now: number): RateLimitResult {
+  const retryAfterMs = allowed ? 0 : retryAfter(counts, maxRequests, now);
   return {
-    allowed: true,
-    remaining: maxRequests - clientData.count,
-    resetTime: clientData.resetTime,
+    allowed,
+    limit: maxRequests,
+    remaining: Math.max(0, Math.floor(maxRequests - weightedCount(counts, now))),
+    resetTime: allowed ? counts.windowStart + counts.windowMs : now + retryAfterMs,
+    retryAfterMs
   };
 }
 
-export function cleanupExpiredEntries(): void {
-  const now = Date.now();
-  for (const [clientId, data] of requestCounts.entries()) {
-    if (now > data.resetTime) {
-      requestCounts.delete(clientId);
+function applyHit(
+  stored: WindowCounts | undefined,
+  maxRequests: number,
+  windowMs: number,
+  now: number
+): { counts: WindowCounts; result: RateLimitResult } {
+  const counts = rollWindow(stored, now, windowMs);
+  const allowed = weightedCount(counts, now) + 1 <= maxRequests;
+  if (allowed) {
+    counts.current++;
+  }
+  return { counts, result: toResult(counts, allowed, maxRequests, now) };
+}
+
+function isExpired(counts: WindowCounts, now: number): boolean {
+  return counts.windowStart + 2 * counts.windowMs <= now;
+}
+
+// Per-process counters. Fine for local development and long-running servers;
+// on serverless platforms each instance gets its own counters.
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, WindowCounts>();
+  let lastSweep = Date.now();
+
+  return {
+    name: 'memory',
+    async hit(key, maxRequests, windowMs) {
+      const now = Date.now();
+      // Sweep lazily instead of on a timer so nothing keeps the process alive
+      if (now - lastSweep > 5 * 60 * 1000) {
+        counters.forEach((counts, id) => {
+          if (isExpired(counts, now)) counters.delete(id);
+        });
+        lastSweep = now;
+      }
+
+      const { counts, result } = applyHit(counters.get(key), maxRequests, windowMs, now);
+      counters.set(key, counts);
+      return result;
     }
+  };
+}
+
+// Counters in a JSON file, shared by every process that can see the file
+// (e.g. several workers on one host, or a mounted volume).
+export function createFileStore(filePath: string): RateLimitStore {
+  const lockPath = `${filePath}.lock`;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const readCounters = async (): Promise<Record<string, WindowCounts>> => {
+    try {
+      return JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      // A corrupt file only costs us the current counts
+      console.error('Discarding unreadable rate limit file:', error);
+      return {};
+    }
+  };
+
+  const hit = (key: string, maxRequests: number, windowMs: number) =>
+    withFileLock(lockPath, async () => {
+      const now = Date.now();
+      const counters = await readCounters();
+      for (const id of Object.keys(counters)) {
+        if (isExpired(counters[id], now)) delete counters[id];
+      }
+
+      const { counts, result } = applyHit(counters[key], maxRequests, windowMs, now);
+      counters[key] = counts;
+
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(counters));
+      await fs.promises.rename(tempPath, filePath);
+      return result;
+    });
+
+  return {
+    name: 'file',
+    hit(key, maxRequests, windowMs) {
+      // Serialize within this process so we don't contend for our own lock
+      const result = queue.then(() => hit(key, maxRequests, windowMs));
+      queue = result.catch(() => undefined);
+      return result;
+    }
+  };
+}
+
+// Reads both windows and increments atomically on the Redis server.
+// KEYS: current window, previous window. ARGV: limit, window ms, elapsed ms.
+const SLIDING_WINDOW_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local previous = tonumber(redis.call('GET', KEYS[2]) or '0')
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local elapsed = tonumber(ARGV[3])
+if previous * ((window - elapsed) / window) + current + 1 > limit then
+  return {0, current, previous}
+end
+current = redis.call('INCR', KEYS[1])
+redis.call('PEXPIRE', KEYS[1], window * 2)
+return {1, current, previous}
+`;
+
+export function createRedisStore(): RateLimitStore {
+  return {
+    name: 'redis',
+    async hit(key, maxRequests, windowMs) {
+      const now = Date.now();
+      const windowStart = windowStartFor(now, windowMs);
+      const reply = await getRedisClient().command([
+        'EVAL',
+        SLIDING_WINDOW_SCRIPT,
+        2,
+        `ratelimit:${key}:${windowMs}:${windowStart}`,
+        `ratelimit:${key}:${windowMs}:${windowStart - windowMs}`,
+        maxRequests,
+        windowMs,
+        now - windowStart
+      ]);
+
+      const [allowed, current, previous] = reply as RedisReply[] as number[];
+      return toResult({ windowStart, windowMs, current, previous }, allowed === 1, maxRequests, now);
+    }
+  };
+}
+
+export function createRateLimitStore(
+  name: string = process.env.RATE_LIMIT_STORE || 'memory'
+): RateLimitStore {
+  switch (name) {
+    case 'memory':
+      return createMemoryStore();
+    case 'file':
+      return createFileStore(
+        process.env.RATE_LIMIT_FILE || path.join(os.tmpdir(), 'sanity-check-rate-limits.json')
+      );
+    case 'redis':
+      return createRedisStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${name}". Expected memory, file or redis.`);
+  }
+}
+
+let store: RateLimitStore | null = null;
+let fallbackStore: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createRateLimitStore();
   }
+  return store;
 }
 
-// Cleanup expired entries every 5 minutes
-setInterval(cleanupExpiredEntries, 5 * 60 * 1000);
+export async function checkRateLimit(
+  clientId: string,
+  maxRequests: number = 10,
+  windowMs: number = 60000
+): Promise<RateLimitResult> {
+  try {
+    return await getRateLimitStore().hit(clientId, maxRequests, windowMs);
+  } catch (error) {
+    // An unreachable shared store shouldn't take the API down; limit per
+    // instance until it comes back.
+    console.error('Rate limit store failed, using in-memory limits:', error);
+    if (!fallbackStore) {
+      fallbackStore = createMemoryStore();
+    }
+    return fallbackStore.hit(clientId, maxRequests, windowMs);
+  }
+}
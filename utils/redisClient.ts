@@ -0,0 +1,196 @@
+// Minimal Redis (RESP2) client over a single pipelined connection. Enough
+// for EVAL, GET/SET and friends without pulling in a driver dependency.
+
+import net from 'net';
+import tls from 'tls';
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export interface RedisClient {
+  command(args: Array<string | number>): Promise<RedisReply>;
+  close(): void;
+}
+
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisError';
+  }
+}
+
+interface PendingReply {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+const COMMAND_TIMEOUT_MS = 2000;
+
+function encodeCommand(args: Array<string | number>): string {
+  let encoded = `*${args.length}\r\n`;
+  for (const arg of args) {
+    const value = String(arg);
+    encoded += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return encoded;
+}
+
+// Parses one reply starting at `offset`. Returns null when the buffer does
+// not yet hold a complete reply.
+function parseReply(buffer: Buffer, offset: number): { value: RedisReply | RedisError; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RedisError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+      const items: RedisReply[] = [];
+      let error: RedisError | null = null;
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        if (item.value instanceof RedisError) {
+          error = error || item.value;
+        } else {
+          items.push(item.value);
+        }
+        position = item.offset;
+      }
+      return { value: error || items, offset: position };
+    }
+    default:
+      throw new RedisError(`Unexpected reply type "${type}"`);
+  }
+}
+
+// Accepts redis://[user:password@]host[:port][/db] and rediss:// for TLS
+export function createRedisClient(url: string): RedisClient {
+  const parsed = new URL(url);
+  const useTls = parsed.protocol === 'rediss:';
+  const port = Number(parsed.port || 6379);
+  const db = parsed.pathname.replace('/', '');
+
+  let socket: net.Socket | null = null;
+  let buffer = Buffer.alloc(0);
+  const pending: PendingReply[] = [];
+
+  const failAll = (error: Error) => {
+    while (pending.length > 0) {
+      const reply = pending.shift()!;
+      clearTimeout(reply.timeoutId);
+      reply.reject(error);
+    }
+    buffer = Buffer.alloc(0);
+  };
+
+  const disconnect = (error: Error) => {
+    if (socket) {
+      socket.destroy();
+      socket = null;
+    }
+    failAll(error);
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    try {
+      let reply = parseReply(buffer, 0);
+      while (reply) {
+        buffer = buffer.subarray(reply.offset);
+        const waiting = pending.shift();
+        if (waiting) {
+          clearTimeout(waiting.timeoutId);
+          if (reply.value instanceof RedisError) {
+            waiting.reject(reply.value);
+          } else {
+            waiting.resolve(reply.value);
+          }
+        }
+        reply = parseReply(buffer, 0);
+      }
+    } catch (error) {
+      disconnect(error as Error);
+    }
+  };
+
+  const send = (args: Array<string | number>): Promise<RedisReply> =>
+    new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        // Replies are matched by order, so a lost reply poisons the connection
+        disconnect(new RedisError(`Redis command timed out after ${COMMAND_TIMEOUT_MS}ms`));
+      }, COMMAND_TIMEOUT_MS);
+      pending.push({ resolve, reject, timeoutId });
+      socket!.write(encodeCommand(args));
+    });
+
+  const connect = () => {
+    const current = useTls
+      ? tls.connect({ host: parsed.hostname, port, servername: parsed.hostname })
+      : net.connect({ host: parsed.hostname, port });
+    socket = current;
+    current.setNoDelay(true);
+    current.on('data', onData);
+    // Ignore events from sockets that have already been replaced
+    current.on('error', error => {
+      if (socket === current) disconnect(error);
+    });
+    current.on('close', () => {
+      if (socket === current) disconnect(new RedisError('Redis connection closed'));
+    });
+
+    // Queued ahead of the first command; their replies arrive first
+    if (parsed.password) {
+      const auth = parsed.username
+        ? ['AUTH', decodeURIComponent(parsed.username), decodeURIComponent(parsed.password)]
+        : ['AUTH', decodeURIComponent(parsed.password)];
+      send(auth).catch(() => undefined);
+    }
+    if (db) {
+      send(['SELECT', db]).catch(() => undefined);
+    }
+  };
+
+  return {
+    command(args) {
+      if (!socket) connect();
+      return send(args);
+    },
+    close() {
+      if (socket) {
+        socket.end();
+        socket = null;
+      }
+    }
+  };
+}
+
+let sharedClient: RedisClient | null = null;
+
+export function getRedisClient(): RedisClient {
+  const url = process.env.REDIS_URL;
+  if (!url) {
+    throw new Error('REDIS_URL is not set');
+  }
+  if (!sharedClient) {
+    sharedClient = createRedisClient(url);
+  }
+  return sharedClient;
+}
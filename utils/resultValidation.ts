@@ -0,0 +1,171 @@
+// Runtime validation of model output against the SanityResult shape
+
+import {
+  ISSUE_CATEGORIES,
+  ISSUE_SEVERITIES,
+  IssueCategory,
+  IssueSeverity,
+  SanityIssue,
+  SanityResult
+} from '../types';
+
+const MAX_QUOTES_PER_ISSUE = 5;
+
+// An issue as reported by the model, before its quotes are anchored to spans
+export interface ModelIssue extends SanityIssue {
+  quotes: string[];
+  fix?: { quote: string; replacement: string };
+  ruleId?: string;
+}
+
+export interface ModelResult extends SanityResult {
+  issues: ModelIssue[];
+}
+
+export interface ResultValidation {
+  isValid: boolean;
+  errors: string[];
+  result?: ModelResult;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+// Models sometimes wrap JSON in markdown fences or add a sentence before it.
+// Pull out the outermost object so those cases don't cost a retry.
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : trimmed;
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new Error('Response does not contain a JSON object');
+    }
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+export function validateIssue(value: unknown, path: string = 'issue'): { issue?: ModelIssue; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!isRecord(value)) {
+    return { errors: [`${path} must be an object`] };
+  }
+
+  if (!ISSUE_CATEGORIES.includes(value.category as IssueCategory)) {
+    errors.push(`${path}.category must be one of: ${ISSUE_CATEGORIES.join(', ')}`);
+  }
+  if (!ISSUE_SEVERITIES.includes(value.severity as IssueSeverity)) {
+    errors.push(`${path}.severity must be one of: ${ISSUE_SEVERITIES.join(', ')}`);
+  }
+  if (typeof value.problem !== 'string' || !value.problem.trim()) {
+    errors.push(`${path}.problem must be a non-empty string`);
+  }
+  if (typeof value.suggestion !== 'string') {
+    errors.push(`${path}.suggestion must be a string`);
+  }
+  if (!isNumberInRange(value.confidence, 0, 1)) {
+    errors.push(`${path}.confidence must be a number between 0 and 1`);
+  }
+  if (value.quotes !== undefined &&
+      (!Array.isArray(value.quotes) || value.quotes.some(quote => typeof quote !== 'string'))) {
+    errors.push(`${path}.quotes must be an array of strings`);
+  }
+  if (value.fix !== undefined && value.fix !== null &&
+      (!isRecord(value.fix) || typeof value.fix.quote !== 'string' || typeof value.fix.replacement !== 'string')) {
+    errors.push(`${path}.fix must be null or an object with "quote" and "replacement" strings`);
+  }
+
+  if (value.ruleId !== undefined && value.ruleId !== null && typeof value.ruleId !== 'string') {
+    errors.push(`${path}.ruleId must be a string or null`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const fix = isRecord(value.fix) && value.fix.quote !== value.fix.replacement
+    ? { quote: value.fix.quote as string, replacement: value.fix.replacement as string }
+    : undefined;
+
+  return {
+    errors,
+    issue: {
+      category: value.category as IssueCategory,
+      severity: value.severity as IssueSeverity,
+      problem: (value.problem as string).trim(),
+      suggestion: (value.suggestion as string).trim(),
+      confidence: value.confidence as number,
+      quotes: ((value.quotes as string[] | undefined) || []).slice(0, MAX_QUOTES_PER_ISSUE),
+      fix,
+      ruleId: typeof value.ruleId === 'string' ? value.ruleId : undefined
+    }
+  };
+}
+
+export function validateSanityResult(value: unknown): ResultValidation {
+  if (!isRecord(value)) {
+    return { isValid: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+
+  if (!isNumberInRange(value.overallScore, 0, 100)) {
+    errors.push('overallScore must be a number between 0 and 100');
+  }
+  if (typeof value.hasIssues !== 'boolean') {
+    errors.push('hasIssues must be a boolean');
+  }
+  if (typeof value.summary !== 'string') {
+    errors.push('summary must be a string');
+  }
+
+  const issues: ModelIssue[] = [];
+  if (!Array.isArray(value.issues)) {
+    errors.push('issues must be an array');
+  } else {
+    value.issues.forEach((item, index) => {
+      const validation = validateIssue(item, `issues[${index}]`);
+      errors.push(...validation.errors);
+      if (validation.issue) {
+        issues.push(validation.issue);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    errors,
+    result: {
+      overallScore: Math.round(value.overallScore as number),
+      // Trust the issue list over the flag when the two disagree
+      hasIssues: issues.length > 0,
+      issues,
+      summary: (value.summary as string).trim()
+    }
+  };
+}
+
+export function parseSanityResult(text: string): ResultValidation {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(text);
+  } catch (error) {
+    return { isValid: false, errors: [`Invalid JSON: ${(error as Error).message}`] };
+  }
+  return validateSanityResult(parsed);
+}
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { getWorkspaceRules } from './ruleStore';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rule-store-test-'));
+const rule = (id: string) => ({ id, name: id, type: 'keyword', category: 'other', severity: 'low', keywords: ['synergy'] });
+
+// Each test reads a different workspace, so the per-workspace cache doesn't
+// carry one test's rules into the next
+function useRulesFile(document: unknown): void {
+  const file = path.join(directory, `${Math.random().toString(36).slice(2)}.json`);
+  fs.writeFileSync(file, JSON.stringify(document));
+  process.env.CUSTOM_RULES_PATH = file;
+}
+
+describe('getWorkspaceRules from a single file', () => {
+  let originalError: typeof console.error;
+  before(() => {
+    originalError = console.error;
+    console.error = () => undefined;
+  });
+  after(() => {
+    console.error = originalError;
+    delete process.env.CUSTOM_RULES_PATH;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reads a plain rule list', async () => {
+    useRulesFile([rule('plain')]);
+    assert.deepEqual((await getWorkspaceRules('plain-list')).map(({ id }) => id), ['plain']);
+  });
+
+  it('picks the workspace, falling back to the default one', async () => {
+    useRulesFile({ workspaces: { sales: [rule('sales')], default: [rule('fallback')] } });
+    assert.deepEqual((await getWorkspaceRules('sales')).map(({ id }) => id), ['sales']);
+    assert.deepEqual((await getWorkspaceRules('support')).map(({ id }) => id), ['fallback']);
+  });
+
+  it('ignores a workspaces field that is not an object of lists', async () => {
+    useRulesFile({ workspaces: 'all' });
+    assert.deepEqual(await getWorkspaceRules('string-workspaces'), []);
+    useRulesFile({ workspaces: [[rule('listed')]] });
+    assert.deepEqual(await getWorkspaceRules('array-workspaces'), []);
+  });
+
+  it('does not look up inherited properties as workspaces', async () => {
+    useRulesFile({ workspaces: { sales: [rule('sales')] } });
+    assert.deepEqual(await getWorkspaceRules('constructor'), []);
+  });
+});
@@ -0,0 +1,169 @@
+// Loading and saving team style rules per workspace
+
+import fs from 'fs';
+import path from 'path';
+import { NextApiRequest } from 'next';
+import { StyleRule } from '../types';
+import { parseRulesDocument, validateRules } from './customRules';
+
+export const DEFAULT_WORKSPACE = 'default';
+
+const WORKSPACE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+const RULE_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+interface CachedRules {
+  rules: StyleRule[];
+  expiresAt: number;
+}
+
+const cache = new Map<string, CachedRules>();
+// Rules saved through the API when there is no rules directory to write to
+const savedRules = new Map<string, StyleRule[]>();
+
+export function isValidWorkspaceId(workspace: string): boolean {
+  return WORKSPACE_ID_PATTERN.test(workspace);
+}
+
+// Workspace from the X-Workspace-Id header or a `workspace` body/query field.
+// Returns null when the id is malformed.
+export function resolveWorkspace(req: NextApiRequest): string | null {
+  const header = req.headers['x-workspace-id'];
+  const raw =
+    (Array.isArray(header) ? header[0] : header) ||
+    (typeof req.body?.workspace === 'string' ? req.body.workspace : '') ||
+    (typeof req.query.workspace === 'string' ? req.query.workspace : '') ||
+    DEFAULT_WORKSPACE;
+  const workspace = raw.trim();
+  return isValidWorkspaceId(workspace) ? workspace : null;
+}
+
+function getCacheTtlMs(): number {
+  return Number(process.env.CUSTOM_RULES_CACHE_TTL_MS || 60000);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDirectory(target: string): boolean {
+  try {
+    return fs.statSync(target).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function toRules(document: unknown, source: string): StyleRule[] {
+  const validation = validateRules(document);
+  if (validation.errors.length > 0) {
+    console.error(`Ignoring invalid rules from ${source}:`, validation.errors);
+    return [];
+  }
+  return validation.rules;
+}
+
+function readRulesFile(file: string): unknown {
+  return parseRulesDocument(fs.readFileSync(file, 'utf8'));
+}
+
+// CUSTOM_RULES_PATH may be a directory of <workspace>.json|yaml files or a
+// single file holding either one rule list or { workspaces: { id: rules } }.
+function loadFromPath(rulesPath: string, workspace: string): StyleRule[] | null {
+  if (isDirectory(rulesPath)) {
+    for (const name of [workspace, DEFAULT_WORKSPACE]) {
+      for (const extension of RULE_FILE_EXTENSIONS) {
+        const file = path.join(rulesPath, `${name}${extension}`);
+        if (fs.existsSync(file)) {
+          return toRules(readRulesFile(file), file);
+        }
+      }
+    }
+    return null;
+  }
+
+  if (!fs.existsSync(rulesPath)) return null;
+
+  const document = readRulesFile(rulesPath);
+  if (isRecord(document) && document.workspaces !== undefined) {
+    const { workspaces } = document;
+    if (!isRecord(workspaces)) {
+      console.error(`Ignoring invalid rules from ${rulesPath}: workspaces must be an object of rule lists`);
+      return [];
+    }
+    // Own keys only, so a workspace named e.g. "constructor" finds nothing
+    const own = (name: string) => (Object.prototype.hasOwnProperty.call(workspaces, name) ? workspaces[name] : undefined);
+    const list = own(workspace) ?? own(DEFAULT_WORKSPACE);
+    return list ? toRules(list, `${rulesPath} (${workspace})`) : null;
+  }
+  return toRules(document, rulesPath);
+}
+
+// CUSTOM_RULES_URL may contain a {workspace} placeholder
+async function loadFromUrl(urlTemplate: string, workspace: string): Promise<StyleRule[] | null> {
+  const url = urlTemplate.replace('{workspace}', encodeURIComponent(workspace));
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: {
+        Accept: 'application/json, application/yaml, text/yaml',
+        ...(process.env.CUSTOM_RULES_URL_TOKEN
+          ? { Authorization: `Bearer ${process.env.CUSTOM_RULES_URL_TOKEN}` }
+          : {}),
+      },
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return toRules(parseRulesDocument(await response.text()), url);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export async function getWorkspaceRules(workspace: string = DEFAULT_WORKSPACE): Promise<StyleRule[]> {
+  if (savedRules.has(workspace)) {
+    return savedRules.get(workspace)!;
+  }
+
+  const cached = cache.get(workspace);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.rules;
+  }
+
+  let rules: StyleRule[] = [];
+  try {
+    const rulesPath = process.env.CUSTOM_RULES_PATH;
+    const rulesUrl = process.env.CUSTOM_RULES_URL;
+    rules =
+      (rulesPath ? loadFromPath(rulesPath, workspace) : null) ??
+      (rulesUrl ? await loadFromUrl(rulesUrl, workspace) : null) ??
+      [];
+  } catch (error) {
+    // Rules are an enhancement; never fail an analysis because of them
+    console.error(`Failed to load rules for workspace "${workspace}":`, error);
+  }
+
+  cache.set(workspace, { rules, expiresAt: Date.now() + getCacheTtlMs() });
+  return rules;
+}
+
+// Persists to CUSTOM_RULES_PATH when it is a directory; otherwise the rules
+// are kept in memory for the lifetime of this server instance.
+export async function saveWorkspaceRules(workspace: string, rules: StyleRule[]): Promise<'file' | 'memory'> {
+  const rulesPath = process.env.CUSTOM_RULES_PATH;
+  cache.delete(workspace);
+
+  if (rulesPath && isDirectory(rulesPath)) {
+    const file = path.join(rulesPath, `${workspace}.json`);
+    await fs.promises.writeFile(file, JSON.stringify({ rules }, null, 2));
+    savedRules.delete(workspace);
+    return 'file';
+  }
+
+  savedRules.set(workspace, rules);
+  return 'memory';
+}
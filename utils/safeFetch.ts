@@ -0,0 +1,425 @@
+// Fetching user-supplied URLs without letting them reach our own network.
+//
+// Every hostname is resolved and checked before connecting, and the checked
+// address is the one the socket uses, so DNS can't be swapped between the
+// check and the request. Redirects are followed manually so each hop goes
+// through the same checks.
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import stream from 'stream';
+import zlib from 'zlib';
+
+export type SafeFetchErrorType =
+  | 'blocked_protocol'
+  | 'blocked_port'
+  | 'blocked_credentials'
+  | 'blocked_hostname'
+  | 'blocked_private_address'
+  | 'blocked_loopback_address'
+  | 'blocked_link_local_address'
+  | 'blocked_metadata_address'
+  | 'blocked_reserved_address'
+  | 'dns_resolution_failed'
+  | 'too_many_redirects'
+  | 'invalid_redirect'
+  | 'response_too_large'
+  | 'unsupported_content_type'
+  | 'timeout'
+  | 'network';
+
+export class SafeFetchError extends Error {
+  errorType: SafeFetchErrorType;
+
+  constructor(errorType: SafeFetchErrorType, message: string) {
+    super(message);
+    this.name = 'SafeFetchError';
+    this.errorType = errorType;
+  }
+}
+
+export interface SafeFetchOptions {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  maxBytes?: number;
+  // Media types (without parameters) the caller can handle
+  allowedContentTypes?: string[];
+  allowedPorts?: number[];
+}
+
+export interface SafeFetchResponse {
+  // The URL after redirects
+  url: string;
+  status: number;
+  statusText: string;
+  ok: boolean;
+  headers: http.IncomingHttpHeaders;
+  contentType: string;
+  // Empty for non-2xx responses, which are not read
+  body: string;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<SafeFetchOptions, 'headers'>> = {
+  timeoutMs: 10000,
+  maxRedirects: 5,
+  maxBytes: 2 * 1024 * 1024,
+  allowedContentTypes: ['text/html', 'application/xhtml+xml', 'text/plain'],
+  allowedPorts: [80, 443, 8080, 8443]
+};
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Hostnames of cloud metadata services that don't need DNS to be dangerous
+const METADATA_HOSTNAMES = ['metadata.google.internal', 'metadata.goog', 'metadata'];
+
+type BlockedAddressType = Extract<SafeFetchErrorType, `blocked_${string}_address`>;
+
+// [network, prefix length, classification]; more specific ranges first
+const IPV4_RANGES: Array<[string, number, BlockedAddressType]> = [
+  ['169.254.169.254', 32, 'blocked_metadata_address'],
+  ['169.254.170.2', 32, 'blocked_metadata_address'],
+  ['100.100.100.200', 32, 'blocked_metadata_address'],
+  ['127.0.0.0', 8, 'blocked_loopback_address'],
+  ['169.254.0.0', 16, 'blocked_link_local_address'],
+  ['10.0.0.0', 8, 'blocked_private_address'],
+  ['172.16.0.0', 12, 'blocked_private_address'],
+  ['192.168.0.0', 16, 'blocked_private_address'],
+  ['100.64.0.0', 10, 'blocked_private_address'],
+  ['0.0.0.0', 8, 'blocked_reserved_address'],
+  ['192.0.0.0', 24, 'blocked_reserved_address'],
+  ['192.0.2.0', 24, 'blocked_reserved_address'],
+  ['198.18.0.0', 15, 'blocked_reserved_address'],
+  ['198.51.100.0', 24, 'blocked_reserved_address'],
+  ['203.0.113.0', 24, 'blocked_reserved_address'],
+  ['224.0.0.0', 4, 'blocked_reserved_address'],
+  ['240.0.0.0', 4, 'blocked_reserved_address'],
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function classifyIPv4(address: string): BlockedAddressType | null {
+  const value = ipv4ToNumber(address);
+  for (const [network, prefix, type] of IPV4_RANGES) {
+    const size = 2 ** (32 - prefix);
+    const start = ipv4ToNumber(network);
+    if (value >= start && value < start + size) return type;
+  }
+  return null;
+}
+
+// Expands an IPv6 address to eight 16-bit groups
+function ipv6ToGroups(address: string): number[] {
+  let text = address.split('%')[0].toLowerCase();
+
+  // A trailing dotted IPv4 part becomes two groups
+  const v4 = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const value = ipv4ToNumber(v4[1]);
+    text = text.slice(0, -v4[1].length) + `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = tail !== undefined
+    ? [...headGroups, ...Array(missing).fill('0'), ...tailGroups]
+    : headGroups;
+  return groups.map(group => parseInt(group, 16) || 0);
+}
+
+function classifyIPv6(address: string): BlockedAddressType | null {
+  const groups = ipv6ToGroups(address);
+  const [first] = groups;
+  const embeddedV4 = () => `${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`;
+
+  if (groups.every(group => group === 0)) return 'blocked_reserved_address';
+  if (groups.slice(0, 7).every(group => group === 0) && groups[7] === 1) return 'blocked_loopback_address';
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64
+  // (64:ff9b::a.b.c.d) carry an IPv4 destination
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return classifyIPv4(embeddedV4());
+  }
+  if (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return classifyIPv4(embeddedV4());
+  }
+  // 6to4 (2002:aabb:ccdd::/48) routes to the IPv4 address in its second and third groups
+  if (first === 0x2002) {
+    return classifyIPv4(`${groups[1] >> 8}.${groups[1] & 0xff}.${groups[2] >> 8}.${groups[2] & 0xff}`);
+  }
+  // AWS's IPv6 instance metadata endpoint, fd00:ec2::254
+  if (first === 0xfd00 && groups[1] === 0xec2 && groups.slice(2, 7).every(group => group === 0) && groups[7] === 0x254) {
+    return 'blocked_metadata_address';
+  }
+  if ((first & 0xffc0) === 0xfe80) return 'blocked_link_local_address';
+  if ((first & 0xfe00) === 0xfc00) return 'blocked_private_address';
+  if ((first & 0xff00) === 0xff00) return 'blocked_reserved_address';
+  if (first === 0x2001 && groups[1] === 0x0db8) return 'blocked_reserved_address';
+  return null;
+}
+
+// Returns why an address must not be fetched, or null when it's public
+export function classifyAddress(address: string): BlockedAddressType | null {
+  const family = net.isIP(address);
+  if (family === 4) return classifyIPv4(address);
+  if (family === 6) return classifyIPv6(address);
+  return 'blocked_reserved_address';
+}
+
+const ADDRESS_MESSAGES: Record<BlockedAddressType, string> = {
+  blocked_private_address: 'private network address',
+  blocked_loopback_address: 'loopback address',
+  blocked_link_local_address: 'link-local address',
+  blocked_metadata_address: 'cloud metadata address',
+  blocked_reserved_address: 'reserved address'
+};
+
+function blockedAddressError(type: BlockedAddressType, hostname: string, address: string): SafeFetchError {
+  const target = hostname === address ? address : `${hostname} (${address})`;
+  return new SafeFetchError(type, `Refusing to fetch ${target}: ${ADDRESS_MESSAGES[type]}`);
+}
+
+// Used as the socket's DNS lookup, so the address we check is the address
+// we connect to. Every resolved address must be public.
+function safeLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: Error | null, address?: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { all: true, verbatim: true }, (error, addresses) => {
+    if (error || addresses.length === 0) {
+      callback(new SafeFetchError('dns_resolution_failed', `Could not resolve ${hostname}`));
+      return;
+    }
+
+    for (const { address } of addresses) {
+      const blocked = classifyAddress(address);
+      if (blocked) {
+        callback(blockedAddressError(blocked, hostname, address));
+        return;
+      }
+    }
+
+    const allowed = options.family
+      ? addresses.filter(entry => entry.family === options.family)
+      : addresses;
+    if (allowed.length === 0) {
+      callback(new SafeFetchError('dns_resolution_failed', `No usable address for ${hostname}`));
+    } else if (options.all) {
+      callback(null, allowed);
+    } else {
+      callback(null, allowed[0].address, allowed[0].family);
+    }
+  });
+}
+
+// Checks that don't need DNS: scheme, port, credentials and literal IPs
+export function checkUrl(url: URL, allowedPorts: number[] = DEFAULT_OPTIONS.allowedPorts): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new SafeFetchError('blocked_protocol', `Only http and https URLs can be fetched, not ${url.protocol}`);
+  }
+
+  const port = url.port ? Number(url.port) : url.protocol === 'https:' ? 443 : 80;
+  if (!allowedPorts.includes(port)) {
+    throw new SafeFetchError('blocked_port', `Port ${port} is not allowed`);
+  }
+
+  if (url.username || url.password) {
+    throw new SafeFetchError('blocked_credentials', 'URLs with embedded credentials are not allowed');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (METADATA_HOSTNAMES.includes(hostname)) {
+    throw new SafeFetchError('blocked_metadata_address', `Refusing to fetch ${hostname}: cloud metadata service`);
+  }
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    throw new SafeFetchError('blocked_loopback_address', `Refusing to fetch ${hostname}: loopback address`);
+  }
+  if (!hostname.includes('.') && !net.isIP(hostname)) {
+    // Single-label names only resolve inside a private network
+    throw new SafeFetchError('blocked_hostname', `Refusing to fetch internal hostname ${hostname}`);
+  }
+
+  if (net.isIP(hostname)) {
+    const blocked = classifyAddress(hostname);
+    if (blocked) throw blockedAddressError(blocked, hostname, hostname);
+  }
+}
+
+// Null when the body isn't compressed (or uses an encoding we don't know)
+function createDecoder(response: http.IncomingMessage): zlib.Gunzip | zlib.Inflate | zlib.BrotliDecompress | null {
+  switch (response.headers['content-encoding']) {
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.createGunzip();
+    case 'deflate':
+      return zlib.createInflate();
+    case 'br':
+      return zlib.createBrotliDecompress();
+    default:
+      return null;
+  }
+}
+
+function decodeBody(buffer: Buffer, contentTypeHeader: string): string {
+  const charset = contentTypeHeader.match(/charset=["']?([\w-]+)/i)?.[1] || 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(buffer);
+  } catch {
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+}
+
+// Reads the (decompressed) body, giving up as soon as it passes maxBytes
+function readBody(response: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const declared = Number(response.headers['content-length']);
+    if (declared > maxBytes) {
+      response.destroy();
+      reject(new SafeFetchError('response_too_large', `Response is larger than ${maxBytes} bytes`));
+      return;
+    }
+
+    const decoder = createDecoder(response);
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let settled = false;
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      response.destroy();
+      decoder?.destroy();
+      reject(error instanceof SafeFetchError ? error : new SafeFetchError('network', error.message));
+    };
+
+    // A connection reset or closed partway through the body must fail the
+    // read, whether or not the body goes through a decoder
+    if (decoder) {
+      stream.pipeline(response, decoder, error => {
+        if (error) fail(error);
+      });
+    } else {
+      stream.finished(response, error => {
+        if (error) fail(error);
+      });
+    }
+    response.on('aborted', () => fail(new Error('Connection closed before the response was complete')));
+
+    const body: NodeJS.ReadableStream = decoder || response;
+    body.on('data', (chunk: Buffer) => {
+      if (settled) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        fail(new SafeFetchError('response_too_large', `Response is larger than ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    body.on('end', () => {
+      if (settled) return;
+      settled = true;
+      resolve(Buffer.concat(chunks));
+    });
+    body.on('error', fail);
+  });
+}
+
+function request(url: URL, headers: Record<string, string>, signal: AbortSignal): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.request(url, {
+      method: 'GET',
+      headers: { 'Accept-Encoding': 'gzip, deflate, br', ...headers },
+      lookup: safeLookup as net.LookupFunction,
+      signal,
+    });
+    req.on('response', resolve);
+    req.on('error', error => {
+      if (error instanceof SafeFetchError) {
+        reject(error);
+      } else if (error.name === 'AbortError') {
+        reject(new SafeFetchError('timeout', 'Request timed out'));
+      } else {
+        reject(new SafeFetchError('network', error.message));
+      }
+    });
+    req.end();
+  });
+}
+
+export async function safeFetch(input: string, options: SafeFetchOptions = {}): Promise<SafeFetchResponse> {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  try {
+    let url = new URL(input);
+    for (let redirects = 0; ; redirects++) {
+      checkUrl(url, config.allowedPorts);
+      const response = await request(url, options.headers || {}, controller.signal);
+      const status = response.statusCode || 0;
+
+      if (REDIRECT_STATUSES.includes(status)) {
+        response.resume();
+        if (redirects >= config.maxRedirects) {
+          throw new SafeFetchError('too_many_redirects', `Stopped after ${config.maxRedirects} redirects`);
+        }
+        const location = response.headers.location;
+        if (!location) {
+          throw new SafeFetchError('invalid_redirect', `Redirect from ${url.href} has no Location header`);
+        }
+        try {
+          url = new URL(location, url);
+        } catch {
+          throw new SafeFetchError('invalid_redirect', `Redirect to an invalid URL: ${location}`);
+        }
+        continue;
+      }
+
+      const contentTypeHeader = response.headers['content-type'] || '';
+      const result: SafeFetchResponse = {
+        url: url.href,
+        status,
+        statusText: response.statusMessage || '',
+        ok: status >= 200 && status < 300,
+        headers: response.headers,
+        contentType: contentTypeHeader.split(';')[0].trim().toLowerCase(),
+        body: ''
+      };
+
+      if (!result.ok) {
+        response.resume();
+        return result;
+      }
+
+      if (!config.allowedContentTypes.includes(result.contentType)) {
+        response.destroy();
+        throw new SafeFetchError(
+          'unsupported_content_type',
+          `Unsupported content type: ${result.contentType || 'unknown'}`
+        );
+      }
+
+      result.body = decodeBody(await readBody(response, config.maxBytes), contentTypeHeader);
+      return result;
+    }
+  } catch (error) {
+    // Hitting the deadline mid-body surfaces as a generic socket error
+    if (controller.signal.aborted && !(error instanceof SafeFetchError && error.errorType !== 'network')) {
+      throw new SafeFetchError('timeout', 'Request timed out');
+    }
+    if (error instanceof SafeFetchError) throw error;
+    if ((error as Error).name === 'AbortError') {
+      throw new SafeFetchError('timeout', 'Request timed out');
+    }
+    throw new SafeFetchError('network', (error as Error).message);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
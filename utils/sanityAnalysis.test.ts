@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CompletionRequest, LLMProvider } from './llmProvider';
+import { AnalysisInput, buildSystemPrompt, buildUserPrompt, requestModelAnalysis } from './sanityAnalysis';
+import { createRedaction } from './sensitiveData';
+
+// Answers with one issue quoting the placeholder and records what it was sent
+function recordingProvider(requests: CompletionRequest[]): LLMProvider {
+  const complete = async (request: CompletionRequest) => {
+    requests.push(request);
+    return {
+      content: JSON.stringify({
+        overallScore: 70,
+        hasIssues: true,
+        issues: [{
+          category: 'other',
+          severity: 'low',
+          problem: 'Check [REDACTED_EMAIL_1]',
+          suggestion: 'Confirm the address',
+          confidence: 0.8,
+          quotes: ['[REDACTED_EMAIL_1]'],
+          fix: null
+        }],
+        summary: 'Mentions [REDACTED_EMAIL_1]'
+      }),
+      model: 'mock',
+      usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 }
+    };
+  };
+  return { name: 'mock', model: 'mock', complete, completeStream: request => complete(request) };
+}
+
+const message = 'Write to jane@acme.com for details.';
+const redactedInput = (promptVersion: string): AnalysisInput =>
+  ({ message, promptVersion, redaction: createRedaction([message]) });
+
+describe('requestModelAnalysis with redaction', () => {
+  it('sends placeholders and restores the values in the result', async () => {
+    const requests: CompletionRequest[] = [];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const { result } = await requestModelAnalysis(redactedInput('v4'), recordingProvider(requests), usage);
+
+    const [system, user] = requests[0].messages;
+    assert.doesNotMatch(user.content, /jane@acme\.com/);
+    assert.match(user.content, /\[REDACTED_EMAIL_1\]/);
+    assert.match(system.content, /REDACTED VALUES:/);
+    assert.equal(result!.summary, 'Mentions jane@acme.com');
+    assert.equal(result!.issues[0].problem, 'Check jane@acme.com');
+    assert.deepEqual(result!.issues[0].spans, [{ start: 9, end: 22, quote: 'jane@acme.com' }]);
+  });
+
+  it('leaves the notice out of earlier versions and unredacted requests', async () => {
+    const requests: CompletionRequest[] = [];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    await requestModelAnalysis(redactedInput('v3'), recordingProvider(requests), usage);
+    await requestModelAnalysis({ message, promptVersion: 'v4' }, recordingProvider(requests), usage);
+    for (const request of requests) {
+      assert.doesNotMatch(request.messages[0].content, /REDACTED VALUES:/);
+    }
+  });
+});
+
+describe('requestModelAnalysis when aborted', () => {
+  it('counts an estimate of the aborted request', async () => {
+    const controller = new AbortController();
+    const provider: LLMProvider = {
+      name: 'mock',
+      model: 'mock',
+      complete: async () => { throw new Error('not streamed'); },
+      completeStream: async (request, onDelta) => {
+        onDelta('{"overallScore": 70, ');
+        controller.abort();
+        throw new Error('Request was aborted.');
+      }
+    };
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    await assert.rejects(
+      requestModelAnalysis({ message, promptVersion: 'v4' }, provider, usage, { signal: controller.signal, onIssue: () => undefined }),
+      /aborted/
+    );
+    assert.ok(usage.promptTokens > 0);
+    assert.equal(usage.completionTokens, 6);
+    assert.equal(usage.totalTokens, usage.promptTokens + usage.completionTokens);
+  });
+
+  it('counts nothing extra when a request fails without an abort', async () => {
+    const provider: LLMProvider = {
+      name: 'mock',
+      model: 'mock',
+      complete: async () => { throw new Error('Server error'); },
+      completeStream: async () => { throw new Error('Server error'); }
+    };
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    await assert.rejects(requestModelAnalysis({ message, promptVersion: 'v4' }, provider, usage), /Server error/);
+    assert.deepEqual(usage, { promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+  });
+});
+
+describe('platform in the prompt', () => {
+  it('names the platform by its label in every version', () => {
+    for (const promptVersion of ['v1', 'v2', 'v3', 'v4']) {
+      const prompt = buildUserPrompt({ message: 'Hi', platform: 'linkedin_inmail', promptVersion }, 'b0undary');
+      assert.match(prompt, /- Platform: LinkedIn InMail/, promptVersion);
+      assert.doesNotMatch(prompt, /linkedin_inmail/, promptVersion);
+    }
+  });
+
+  it('adds the PLATFORM section from v3 on', () => {
+    const system = (promptVersion: string) => buildSystemPrompt({ message: 'Hi', platform: 'slack', promptVersion });
+    assert.doesNotMatch(system('v1'), /PLATFORM:/);
+    assert.doesNotMatch(system('v2'), /PLATFORM:/);
+    assert.match(system('v3'), /PLATFORM:/);
+  });
+});
@@ -0,0 +1,374 @@
+// Message analysis pipeline shared by the sanity-check endpoints
+
+import { MessageContext, MessageLanguage, Platform, SanityIssue, SanityResult, StyleRule } from '../types';
+import type { CacheStatus } from './cacheStore';
+import { buildRulesPrompt, getInstructionRules } from './customRules';
+import { anchorQuote, anchorQuotes } from './issueAnchoring';
+import { isDuplicateIssue, mergeIssues, scoreFromIssues } from './issueMerge';
+import { createIssueStreamParser } from './issueStreamParser';
+import { ChatMessage, CompletionRequest, CompletionUsage, LLMProvider } from './llmProvider';
+import { detectLanguage } from './languageDetection';
+import { buildLanguagePrompt, getDefaultUiLanguage } from './languages';
+import { runLocalChecks } from './localChecks';
+import { buildContextPrompt } from './messageContext';
+import { buildPlatformPrompt, getPlatformProfile } from './platforms';
+import { getPromptTemplate } from './prompts';
+import { createBoundary, RiskAssessment, wrapUntrusted } from './promptSecurity';
+import { ModelIssue, parseSanityResult, validateIssue } from './resultValidation';
+import { applyRedaction, Redaction, restoreRedacted } from './sensitiveData';
+
+// Initial attempt plus repair attempts
+export const MAX_ANALYSIS_ATTEMPTS = 3;
+
+export interface AnalysisInput {
+  message: string;
+  context?: MessageContext;
+  platform?: Platform;
+  // The message exactly as the client submitted it. Issue spans are anchored
+  // against this text; defaults to `message`.
+  originalMessage?: string;
+  // The requesting workspace and its style rules
+  workspace?: string;
+  rules?: StyleRule[];
+  // Defaults to PROMPT_VERSION or the current version
+  promptVersion?: string;
+  // Injection risk of the message and context, from input validation
+  risk?: RiskAssessment;
+  // The language the message is written in; detected when not given
+  language?: string;
+  // The language issues and the summary are written in; defaults to
+  // UI_LANGUAGE or English
+  uiLanguage?: string;
+  // Replace secrets and personal data with placeholders in what the model
+  // sees; runAnalysis fills in `redaction` from it
+  redact?: boolean;
+  redaction?: Redaction;
+}
+
+export interface AnalysisOptions {
+  // Streams the first attempt and reports each valid issue as it arrives.
+  // These are provisional: the returned result is authoritative.
+  onIssue?: (issue: SanityIssue) => void;
+}
+
+export interface AnalysisResult {
+  success: boolean;
+  result?: SanityResult;
+  error?: string;
+  errorCode?: string;
+  httpStatus?: number;
+  validationErrors?: string[];
+  attempts: number;
+  // The configured model, for cost accounting
+  model: string;
+  usage: CompletionUsage;
+  // The prompt template version that was used
+  promptVersion: string;
+  // Set when the analysis went through the result cache
+  cache?: CacheStatus;
+}
+
+function isReply({ context }: AnalysisInput): boolean {
+  return Boolean(context?.thread && context.thread.length > 0);
+}
+
+export function resolveMessageLanguage(input: AnalysisInput): MessageLanguage {
+  if (input.language) return { code: input.language, confidence: 1, source: 'specified' };
+  return { ...detectLanguage(input.originalMessage ?? input.message), source: 'detected' };
+}
+
+// Which language to judge the message by and which to answer in, for the
+// end of the system prompt. Empty for versions without the section.
+export function buildLanguageSection(input: AnalysisInput): string {
+  if (!getPromptTemplate(input.promptVersion).languageSection) return '';
+  return buildLanguagePrompt(resolveMessageLanguage(input).code, input.uiLanguage || getDefaultUiLanguage());
+}
+
+export function buildSystemPrompt(input: AnalysisInput): string {
+  const template = getPromptTemplate(input.promptVersion);
+  return template.system + (isReply(input) ? template.reply : '') + buildRulesPrompt(input.rules || []) +
+    (template.platformSection ? buildPlatformPrompt(input.platform) : '') + buildLanguageSection(input);
+}
+
+// With `boundary`, the message and its context are placed in blocks
+// delimited with it, which the template's isolation notice names
+export function buildUserPrompt({ message, context, platform, promptVersion, redaction }: AnalysisInput, boundary?: string): string {
+  const template = getPromptTemplate(promptVersion);
+  const redact = (text: string) => (redaction ? applyRedaction(text, redaction) : text);
+  const messageText = redact(message);
+  // Every version names the platform by its label, as the UI sent it before
+  // platforms had ids
+  const contextText = redact(buildContextPrompt(context, getPlatformProfile(platform)?.label));
+  const body = boundary
+    ? `${wrapUntrusted('MESSAGE', messageText, boundary)}
+
+${wrapUntrusted('CONTEXT', contextText, boundary)}`
+    : `"""
+${messageText}
+"""
+
+${contextText}`;
+  return `MESSAGE TO CHECK:
+${body}
+
+${template.instruction}`;
+}
+
+function buildRepairPrompt(errors: string[]): string {
+  return `Your previous response did not match the required JSON format:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with only the corrected JSON object, following the format from the instructions exactly.`;
+}
+
+// Puts redacted values back, so quotes anchor and suggestions read as the
+// sender wrote them
+function restoreIssue(issue: ModelIssue, redaction?: Redaction): ModelIssue {
+  if (!redaction || redaction.entries.length === 0) return issue;
+  const restore = (text: string) => restoreRedacted(text, redaction);
+  return {
+    ...issue,
+    problem: restore(issue.problem),
+    suggestion: restore(issue.suggestion),
+    quotes: issue.quotes.map(restore),
+    fix: issue.fix && { quote: restore(issue.fix.quote), replacement: restore(issue.fix.replacement) }
+  };
+}
+
+function toAnchoredIssue(
+  { quotes, fix, ruleId, ...issue }: ModelIssue,
+  text: string,
+  rules: StyleRule[] = []
+): SanityIssue {
+  const anchored: SanityIssue = { ...issue, source: 'model' };
+
+  // The rule decides how a violation is classified; unknown ids are ignored
+  const rule = ruleId ? getInstructionRules(rules).find(r => r.id === ruleId) : undefined;
+  if (rule) {
+    anchored.category = rule.category;
+    anchored.severity = rule.severity;
+    anchored.rule = { id: rule.id, name: rule.name };
+  }
+
+  const spans = anchorQuotes(text, quotes);
+  if (spans.length > 0) {
+    anchored.spans = spans;
+  }
+
+  const fixSpan = fix && anchorQuote(text, fix.quote, { allowFuzzy: false });
+  if (fix && fixSpan) {
+    anchored.replacement = { ...fixSpan, text: fix.replacement };
+    if (!anchored.spans) {
+      anchored.spans = [fixSpan];
+    }
+  }
+
+  return anchored;
+}
+
+export function addUsage(total: CompletionUsage, usage?: CompletionUsage): void {
+  if (!usage) return;
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.totalTokens += usage.totalTokens;
+}
+
+export interface ModelAnalysis {
+  result?: SanityResult;
+  validationErrors: string[];
+  attempts: number;
+}
+
+export interface ModelRequestOptions {
+  // Defaults to the single-pass prompt for the input
+  systemPrompt?: string;
+  maxTokens?: number;
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  onIssue?: (issue: SanityIssue) => void;
+}
+
+// Roughly four characters per token, as in the providers' own guidance
+function estimateUsage(messages: ChatMessage[], completion: string): CompletionUsage {
+  const promptTokens = Math.ceil(messages.reduce((sum, message) => sum + message.content.length, 0) / 4);
+  const completionTokens = Math.ceil(completion.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+// Asks the model for an analysis, re-asking with the validation errors when
+// the output doesn't match the expected shape.
+export async function requestModelAnalysis(
+  input: AnalysisInput,
+  provider: LLMProvider,
+  usage: CompletionUsage,
+  options: ModelRequestOptions = {}
+): Promise<ModelAnalysis> {
+  const { onIssue, signal, maxAttempts = MAX_ANALYSIS_ATTEMPTS } = options;
+  const { isolation, redaction } = getPromptTemplate(input.promptVersion);
+  const boundary = isolation ? createBoundary() : undefined;
+  const redacted = Boolean(input.redaction && input.redaction.entries.length > 0);
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: (options.systemPrompt ?? buildSystemPrompt(input)) +
+        (redacted && redaction ? redaction : '') +
+        (boundary ? isolation!(boundary) : '')
+    },
+    { role: 'user', content: buildUserPrompt(input, boundary) }
+  ];
+  const anchorText = input.originalMessage ?? input.message;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const request: CompletionRequest = {
+      messages: [...messages],
+      temperature: 0.1,
+      maxTokens: options.maxTokens ?? 1000,
+      responseFormat: 'json',
+      signal
+    };
+
+    let completion;
+    let streamed = '';
+    try {
+      if (onIssue && attempt === 1) {
+        const parser = createIssueStreamParser(value => {
+          const { issue } = validateIssue(value);
+          if (issue) onIssue(toAnchoredIssue(restoreIssue(issue, input.redaction), anchorText, input.rules));
+        });
+        completion = await provider.completeStream(request, delta => {
+          streamed += delta;
+          parser.push(delta);
+        });
+      } else {
+        completion = await provider.complete(request);
+      }
+    } catch (error) {
+      // An aborted request is still billed, but the provider never reports
+      // its usage
+      if (signal?.aborted) addUsage(usage, estimateUsage(request.messages, streamed));
+      throw error;
+    }
+    addUsage(usage, completion.usage);
+
+    const validation = parseSanityResult(completion.content);
+    // Echoing the boundary means the model is quoting the prompt structure
+    // rather than analyzing the message
+    if (validation.isValid && boundary && completion.content.includes(boundary)) {
+      validation.isValid = false;
+      validation.errors = ['The response must not contain the id of the input blocks'];
+    }
+    if (validation.isValid) {
+      const result: SanityResult = {
+        ...validation.result!,
+        summary: input.redaction ? restoreRedacted(validation.result!.summary, input.redaction) : validation.result!.summary,
+        issues: validation.result!.issues.map(issue => toAnchoredIssue(restoreIssue(issue, input.redaction), anchorText, input.rules))
+      };
+      return { result, validationErrors: [], attempts: attempt };
+    }
+
+    errors = validation.errors;
+    console.warn(`Analysis attempt ${attempt} returned invalid output:`, errors);
+    // Nobody is waiting for a repair any more
+    if (signal?.aborted) return { validationErrors: errors, attempts: attempt };
+    messages.push(
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: buildRepairPrompt(errors) }
+    );
+  }
+
+  return { validationErrors: errors, attempts: maxAttempts };
+}
+
+export function degradedResult(localIssues: SanityIssue[], reason: string, promptVersion: string): SanityResult {
+  return {
+    overallScore: scoreFromIssues(localIssues),
+    hasIssues: true,
+    issues: localIssues,
+    summary: 'The AI analysis could not be completed, so only the built-in checks were run.',
+    meta: { status: 'degraded', warnings: [reason], promptVersion }
+  };
+}
+
+// Runs the local checks, then the model, and merges the two. Local issues
+// are reported (and kept) first because they are certain. If the model fails
+// but local checks found something, those findings are still returned; a
+// failure with nothing found locally is never reported as a clean result.
+export async function analyzeMessage(
+  input: AnalysisInput,
+  provider: LLMProvider,
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const usage: CompletionUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  // Resolved once so every part of the analysis uses the same version
+  const promptVersion = getPromptTemplate(input.promptVersion).version;
+  input = { ...input, promptVersion };
+  const localIssues = runLocalChecks({
+    message: input.originalMessage ?? input.message,
+    context: input.context,
+    platform: input.platform,
+    rules: input.rules
+  });
+
+  const { onIssue } = options;
+  localIssues.forEach(issue => onIssue?.(issue));
+  const onModelIssue = onIssue && ((issue: SanityIssue) => {
+    if (!localIssues.some(local => isDuplicateIssue(local, issue))) onIssue(issue);
+  });
+
+  let model: ModelAnalysis;
+  try {
+    model = await requestModelAnalysis(input, provider, usage, { onIssue: onModelIssue });
+  } catch (error) {
+    if (localIssues.length === 0) throw error;
+    console.error('LLM provider error, returning local checks only:', error);
+    return {
+      success: true,
+      result: degradedResult(localIssues, 'The AI model is currently unavailable.', promptVersion),
+      attempts: 1,
+      model: provider.model,
+      usage,
+      promptVersion
+    };
+  }
+
+  if (!model.result) {
+    if (localIssues.length > 0) {
+      return {
+        success: true,
+        result: degradedResult(localIssues, 'The AI model returned an unreadable result.', promptVersion),
+        attempts: model.attempts,
+        model: provider.model,
+        usage,
+        promptVersion
+      };
+    }
+    return {
+      success: false,
+      error: 'The analysis could not be completed because the model returned an unreadable result. Please try again.',
+      errorCode: 'ANALYSIS_UNPARSEABLE',
+      httpStatus: 502,
+      validationErrors: model.validationErrors,
+      attempts: model.attempts,
+      model: provider.model,
+      usage,
+      promptVersion
+    };
+  }
+
+  const issues = mergeIssues(localIssues, model.result.issues);
+  return {
+    success: true,
+    result: {
+      ...model.result,
+      overallScore: Math.min(model.result.overallScore, scoreFromIssues(issues)),
+      hasIssues: issues.length > 0,
+      issues,
+      meta: { status: 'complete', promptVersion }
+    },
+    attempts: model.attempts,
+    model: provider.model,
+    usage,
+    promptVersion
+  };
+}
@@ -0,0 +1,176 @@
+// Finds personal data and secrets in text, and swaps them for placeholders
+// before text is sent to the model. Detection is pattern-based with checksum
+// validation where the format has one (cards, IBANs), so it errs towards
+// the common formats rather than catching everything.
+
+export type SensitiveKind = 'secret' | 'credit_card' | 'iban' | 'national_id' | 'email' | 'internal_url' | 'phone';
+
+export interface SensitiveMatch {
+  kind: SensitiveKind;
+  // What was found, e.g. "GitHub token" or "US Social Security number"
+  label: string;
+  start: number;
+  end: number;
+  value: string;
+}
+
+interface SensitivePattern {
+  kind: SensitiveKind;
+  label: string;
+  pattern: RegExp;
+  // Checksum or plausibility test on the matched value
+  isValid?: (value: string) => boolean;
+}
+
+// In priority order: where matches overlap, the earlier pattern wins (a key
+// inside a URL is reported as a key)
+const SENSITIVE_PATTERNS: SensitivePattern[] = [
+  {
+    kind: 'secret',
+    label: 'private key',
+    pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z]+ )*PRIVATE KEY-----|$)/g
+  },
+  { kind: 'secret', label: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'secret', label: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { kind: 'secret', label: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'secret', label: 'Stripe key', pattern: /\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { kind: 'secret', label: 'API key', pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: 'secret', label: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g },
+  { kind: 'secret', label: 'JSON Web Token', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { kind: 'secret', label: 'URL with a password', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:[^\s@/]+@[^\s<>"')\]]+/gi },
+  {
+    kind: 'secret',
+    label: 'password or token',
+    // Only the value after "password:" / "api_key=" and the like
+    pattern: /\b(?:api[_-]?key|api[_-]?token|access[_-]?token|auth[_-]?token|secret(?:[_-]?key)?|client[_-]?secret|password|passwd|pwd)\b["']?\s*[:=]\s*["']?([^\s"',;]{8,})/gi
+  },
+  {
+    kind: 'credit_card',
+    label: 'payment card number',
+    pattern: /\b[2-6]\d{3}(?:[ -]?\d{2,4}){3,4}\b/g,
+    isValid: value => {
+      const digits = value.replace(/\D/g, '');
+      return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+    }
+  },
+  {
+    kind: 'iban',
+    label: 'IBAN',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    isValid: value => isValidIban(value.replace(/ /g, ''))
+  },
+  {
+    kind: 'national_id',
+    label: 'US Social Security number',
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g
+  },
+  {
+    kind: 'national_id',
+    label: 'UK National Insurance number',
+    pattern: /\b(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TY][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g
+  },
+  { kind: 'email', label: 'email address', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  {
+    kind: 'internal_url',
+    label: 'internal link',
+    pattern: /\bhttps?:\/\/(?:localhost|127\.0\.0\.1|10(?:\.\d{1,3}){3}|192\.168(?:\.\d{1,3}){2}|172\.(?:1[6-9]|2\d|3[01])(?:\.\d{1,3}){2}|[a-z0-9.-]+\.(?:internal|local|corp|lan|intranet|intra))(?::\d+)?(?:[/?#][^\s<>"')\]]*)?/gi
+  },
+  {
+    kind: 'phone',
+    label: 'phone number',
+    pattern: /(?:\+|\b00)[1-9][\d ().-]{6,18}\d\b|\(\d{3}\) ?\d{3}[-. ]\d{4}\b|\b\d{3}[-.]\d{3}[-.]\d{4}\b/g,
+    isValid: value => {
+      const digits = value.replace(/\D/g, '').length;
+      return digits >= 8 && digits <= 15;
+    }
+  }
+];
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616: move the country code and check digits to the end, turn
+// letters into numbers and the remainder mod 97 must be 1
+function isValidIban(iban: string): boolean {
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+export function findSensitiveData(text: string): SensitiveMatch[] {
+  const matches: SensitiveMatch[] = [];
+  for (const { kind, label, pattern, isValid } of SENSITIVE_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      // A capture group narrows the match to the sensitive part
+      const value = (match[1] ?? match[0]).replace(/[.,;:!?]+$/, '');
+      const start = match.index + match[0].lastIndexOf(value);
+      const end = start + value.length;
+      if (isValid && !isValid(value)) continue;
+      if (matches.some(other => start < other.end && other.start < end)) continue;
+      matches.push({ kind, label, start, end, value });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+// Values replaced by placeholders in what the model sees. The placeholder
+// for a value is the same wherever it occurs, so the model can still tell
+// that two mentions are the same.
+export interface RedactionEntry {
+  placeholder: string;
+  value: string;
+  kind: SensitiveKind;
+}
+
+export interface Redaction {
+  entries: RedactionEntry[];
+}
+
+export function createRedaction(texts: string[]): Redaction {
+  const entries: RedactionEntry[] = [];
+  const counts: Partial<Record<SensitiveKind, number>> = {};
+  for (const text of texts) {
+    for (const { kind, value } of findSensitiveData(text)) {
+      if (entries.some(entry => entry.value === value)) continue;
+      counts[kind] = (counts[kind] || 0) + 1;
+      entries.push({ placeholder: `[REDACTED_${kind.toUpperCase()}_${counts[kind]}]`, value, kind });
+    }
+  }
+  return { entries };
+}
+
+export function applyRedaction(text: string, { entries }: Redaction): string {
+  // Longest first, so a value containing another is replaced whole
+  return [...entries]
+    .sort((a, b) => b.value.length - a.value.length)
+    .reduce((redacted, { placeholder, value }) => redacted.split(value).join(placeholder), text);
+}
+
+export function restoreRedacted(text: string, { entries }: Redaction): string {
+  return entries.reduce((restored, { placeholder, value }) => restored.split(placeholder).join(value), text);
+}
+
+// `redact: true|false` in the request body, otherwise REDACT_SENSITIVE_DATA
+export function wantsRedaction(body?: any, env: NodeJS.ProcessEnv = process.env): boolean {
+  if (typeof body?.redact === 'boolean') return body.redact;
+  return env.REDACT_SENSITIVE_DATA === 'true';
+}
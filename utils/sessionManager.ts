@@ -1,5 +1,6 @@
 // Session management utilities
 
+import crypto from 'crypto';
 import { NextApiRequest } from 'next';
 
 export interface ClientInfo {
@@ -61,4 +62,21 @@ export function isValidIP(ip: string): boolean {
   const localhostRegex = /^(127\.0\.0\.1|::1|localhost)$/i;
   
   return ipv4Regex.test(ip) || ipv6Regex.test(ip) || localhostRegex.test(ip);
-}
\ No newline at end of file
+}
+
+export function getBearerToken(req: NextApiRequest): string | null {
+  const header = req.headers.authorization;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// Admin endpoints are enabled only when ADMIN_API_TOKEN is configured
+export function isAdminRequest(req: NextApiRequest): boolean {
+  const expected = process.env.ADMIN_API_TOKEN;
+  const provided = getBearerToken(req);
+  if (!expected || !provided) return false;
+
+  const a = crypto.createHash('sha256').update(provided).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
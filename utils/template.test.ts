@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MessageContext } from '../types';
+import { checkTemplate, renderRows, renderTemplate, templateVariables } from './template';
+
+const TEMPLATE = 'Hi {{first_name}}, I loved {{ Company }}\'s work on {{project}}. Thanks, {{sender}}';
+
+describe('templateVariables', () => {
+  it('lists each variable once in order of first use, ignoring case', () => {
+    assert.deepEqual(templateVariables(TEMPLATE), ['first_name', 'Company', 'project', 'sender']);
+    assert.deepEqual(templateVariables('{{name}} and {{NAME}}'), ['name']);
+    assert.deepEqual(templateVariables('No variables here'), []);
+  });
+});
+
+describe('checkTemplate', () => {
+  it('reports missing variables and unused columns', () => {
+    const report = checkTemplate(TEMPLATE, ['First_Name', 'company', 'project', 'hobby', 'url', 'title']);
+    assert.deepEqual(report.missing, ['sender']);
+    // url is a context column and title a recipient column
+    assert.deepEqual(report.unused, ['hobby']);
+    assert.deepEqual(report.malformed, []);
+  });
+
+  it('reports braces that are not valid variables', () => {
+    const report = checkTemplate('Hi {{first_name}, welcome to {company} and {{ role }}', ['first_name', 'company', 'role']);
+    assert.deepEqual(report.malformed, ['{{first_name}', '{company}']);
+    assert.deepEqual(report.variables, ['role']);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills values by lower-case column and keeps empty ones as placeholders', () => {
+    const { text, emptyVariables } = renderTemplate(TEMPLATE, {
+      first_name: ' Jane ',
+      company: 'Acme',
+      project: '',
+      sender: 'Sam'
+    });
+    assert.equal(text, 'Hi Jane, I loved Acme\'s work on {{project}}. Thanks, Sam');
+    assert.deepEqual(emptyVariables, ['project']);
+  });
+});
+
+describe('renderRows', () => {
+  const context = (value: MessageContext | string | undefined) => JSON.parse(JSON.stringify(value ?? null));
+
+  it('renders one batch item per row with its id, platform and url', () => {
+    const rows = renderRows('Hi {{first_name}}', [
+      { id: 'lead-1', first_name: 'Jane', platform: 'slack', url: ' https://acme.com/jobs/1 ' },
+      { first_name: '' }
+    ], 'email');
+    assert.deepEqual(rows.map(row => [row.item.id, row.item.message, row.item.platform, row.url, row.emptyVariables]), [
+      ['lead-1', 'Hi Jane', 'slack', 'https://acme.com/jobs/1', []],
+      ['row 2', 'Hi {{first_name}}', 'email', undefined, ['first_name']]
+    ]);
+  });
+
+  it('infers the recipient from common columns', () => {
+    const [row] = renderRows('Hi', [{ first_name: 'Jane', last_name: 'Doe', title: 'CTO', company_name: 'Acme' }]);
+    assert.deepEqual(context(row.item.context), { recipient: { name: 'Jane Doe', role: 'CTO', company: 'Acme' } });
+  });
+
+  it('lets recipient_* columns override the inferred values', () => {
+    const [row] = renderRows('Hi', [{ name: 'Jane', company: 'Acme', recipient_company: 'Acme Corp', relationship: 'recruiter' }]);
+    assert.deepEqual(context(row.item.context), {
+      recipient: { name: 'Jane', company: 'Acme Corp' },
+      relationship: 'recruiter'
+    });
+  });
+
+  it('keeps a free-text context as notes next to the inferred recipient', () => {
+    const [row] = renderRows('Hi', [{ name: 'Jane', context: 'Met at the meetup' }]);
+    assert.deepEqual(context(row.item.context), { recipient: { name: 'Jane' }, notes: 'Met at the meetup' });
+  });
+});
@@ -0,0 +1,131 @@
+// Mail-merge templates: "Hi {{first_name}}, I loved {{company}}'s work on..."
+// filled in from one CSV row per recipient. Runs in the browser; every
+// rendered variant is then checked as a batch item against its own row.
+
+import { BatchItem, MessageContext } from '../types';
+import { CONTEXT_COLUMNS, rowToContext } from './batchFormat';
+
+// {{ name }}; names are matched case-insensitively against the CSV header
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+// Columns read by impliedContext, so never reported as unused
+const RECIPIENT_COLUMNS = [
+  'name', 'full_name', 'first_name', 'last_name', 'title', 'role', 'job_title', 'company', 'company_name', 'organization'
+];
+
+export interface TemplateReport {
+  // Every variable the template uses, in order of first use
+  variables: string[];
+  // Used by the template but not a column of the CSV
+  missing: string[];
+  // Columns the template never uses (context and recipient columns excluded)
+  unused: string[];
+  // Braces that are not a valid {{variable}}, e.g. "{{first_name}" or "{company}"
+  malformed: string[];
+}
+
+export interface RenderedRow {
+  index: number;
+  item: BatchItem;
+  // The row's URL, to be extracted and added as a context source
+  url?: string;
+  // Variables the template uses that are empty in this row
+  emptyVariables: string[];
+}
+
+export function templateVariables(template: string): string[] {
+  const names: string[] = [];
+  template.replace(VARIABLE_PATTERN, (placeholder, variable: string) => {
+    if (!names.some(name => name.toLowerCase() === variable.toLowerCase())) names.push(variable);
+    return placeholder;
+  });
+  return names;
+}
+
+function findMalformed(template: string): string[] {
+  const leftover = template.replace(VARIABLE_PATTERN, '');
+  const fragments = leftover.match(/\{\{[^{}\n]{0,40}\}?|\{[^{}\n]{0,40}\}\}|\{\s*[A-Za-z_][\w.-]*\s*\}/g) || [];
+  return Array.from(new Set(fragments.map(fragment => fragment.trim())));
+}
+
+export function checkTemplate(template: string, columns: string[]): TemplateReport {
+  const variables = templateVariables(template);
+  const known = new Set(columns.map(column => column.toLowerCase()));
+  const used = new Set(variables.map(name => name.toLowerCase()));
+
+  return {
+    variables,
+    missing: variables.filter(name => !known.has(name.toLowerCase())),
+    unused: columns.filter(column => {
+      const name = column.toLowerCase();
+      return !used.has(name) && !CONTEXT_COLUMNS.includes(name) && !RECIPIENT_COLUMNS.includes(name);
+    }),
+    malformed: findMalformed(template)
+  };
+}
+
+export function renderTemplate(
+  template: string,
+  values: Record<string, string>
+): { text: string; emptyVariables: string[] } {
+  const emptyVariables: string[] = [];
+  const text = template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = (values[name.toLowerCase()] ?? '').trim();
+    if (!value) {
+      if (!emptyVariables.includes(name)) emptyVariables.push(name);
+      return placeholder;
+    }
+    return value;
+  });
+  return { text, emptyVariables };
+}
+
+// Common variable names also say who the recipient is, which lets the
+// entity and greeting checks compare each variant with its own row
+function impliedContext(row: Record<string, string>): MessageContext {
+  const value = (...keys: string[]) => keys.map(key => (row[key] || '').trim()).find(Boolean);
+  const name = value('name', 'full_name') ||
+    [value('first_name'), value('last_name')].filter(Boolean).join(' ') || undefined;
+  const recipient = {
+    name,
+    role: value('title', 'role', 'job_title'),
+    company: value('company', 'company_name', 'organization')
+  };
+  return recipient.name || recipient.role || recipient.company ? { recipient } : {};
+}
+
+function rowContext(row: Record<string, string>): MessageContext | string | undefined {
+  const explicit = rowToContext(row);
+  const implied = impliedContext(row);
+  if (typeof explicit === 'string') return { ...implied, notes: explicit };
+  if (!implied.recipient) return explicit;
+
+  // Explicit recipient_* columns win over the implied values
+  const recipient = { ...implied.recipient };
+  for (const [key, value] of Object.entries(explicit?.recipient || {})) {
+    if (value) recipient[key as keyof typeof recipient] = value;
+  }
+  return { ...explicit, recipient };
+}
+
+export function renderRows(
+  template: string,
+  rows: Array<Record<string, string>>,
+  platform?: string
+): RenderedRow[] {
+  return rows.map((row, index) => {
+    const { text, emptyVariables } = renderTemplate(template, row);
+    const url = (row.url || '').trim() || undefined;
+    return {
+      index,
+      url,
+      emptyVariables,
+      item: {
+        id: (row.id || '').trim() || `row ${index + 1}`,
+        message: text,
+        platform: (row.platform || '').trim() || platform || undefined,
+        context: rowContext(row)
+      }
+    };
+  });
+}
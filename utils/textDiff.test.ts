@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DiffPart, diffWords } from './textDiff';
+
+const side = (parts: DiffPart[], skip: DiffPart['type']) =>
+  parts.filter(part => part.type !== skip).map(part => part.text).join('');
+
+describe('diffWords', () => {
+  it('returns one equal part for identical texts', () => {
+    assert.deepEqual(diffWords('Hi Jane', 'Hi Jane'), [{ type: 'equal', text: 'Hi Jane' }]);
+    assert.deepEqual(diffWords('', ''), []);
+  });
+
+  it('marks a replaced word as a delete and an insert', () => {
+    assert.deepEqual(diffWords('Hi Jane, thanks', 'Hi Janet, thanks'), [
+      { type: 'equal', text: 'Hi ' },
+      { type: 'delete', text: 'Jane,' },
+      { type: 'insert', text: 'Janet,' },
+      { type: 'equal', text: ' thanks' }
+    ]);
+  });
+
+  it('merges neighbouring parts of the same type', () => {
+    assert.deepEqual(diffWords('a b', 'a x y b'), [
+      { type: 'equal', text: 'a ' },
+      { type: 'insert', text: 'x y ' },
+      { type: 'equal', text: 'b' }
+    ]);
+  });
+
+  it('handles texts that only insert or only delete', () => {
+    assert.deepEqual(diffWords('', 'New text'), [{ type: 'insert', text: 'New text' }]);
+    assert.deepEqual(diffWords('Old text', ''), [{ type: 'delete', text: 'Old text' }]);
+  });
+
+  it('reproduces both texts exactly, whitespace included', () => {
+    const original = 'Dear  Mr. Smith,\n\nI am writting about the  role at Acme.\nBest,\nSam';
+    const corrected = 'Dear Dr. Smith,\n\nI am writing about the role at Globex.\n\nBest,\nSam';
+    const parts = diffWords(original, corrected);
+    assert.equal(side(parts, 'insert'), original);
+    assert.equal(side(parts, 'delete'), corrected);
+    assert.ok(parts.some(part => part.type === 'delete' && part.text.includes('writting')));
+  });
+});
@@ -0,0 +1,73 @@
+// Word-level diff for comparing an original and a corrected message
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Words and the whitespace between them are separate tokens so that the
+// diff reproduces both texts exactly.
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string): void {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+export function diffWords(original: string, corrected: string): DiffPart[] {
+  const a = tokenize(original);
+  const b = tokenize(corrected);
+
+  // Trim the common prefix and suffix; edits are usually small
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+
+  // Longest common subsequence table over the differing middle section
+  const lcs: number[][] = Array.from({ length: middleA.length + 1 }, () =>
+    new Array(middleB.length + 1).fill(0)
+  );
+  for (let i = middleA.length - 1; i >= 0; i--) {
+    for (let j = middleB.length - 1; j >= 0; j--) {
+      lcs[i][j] = middleA[i] === middleB[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  if (prefix > 0) pushPart(parts, 'equal', a.slice(0, prefix).join(''));
+
+  let i = 0;
+  let j = 0;
+  while (i < middleA.length || j < middleB.length) {
+    if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+      pushPart(parts, 'equal', middleA[i]);
+      i++;
+      j++;
+    } else if (i < middleA.length && (j === middleB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      pushPart(parts, 'delete', middleA[i]);
+      i++;
+    } else {
+      pushPart(parts, 'insert', middleB[j]);
+      j++;
+    }
+  }
+
+  if (suffix > 0) pushPart(parts, 'equal', a.slice(a.length - suffix).join(''));
+  return parts;
+}
@@ -0,0 +1,27 @@
+// Applying machine-applicable fixes to a message
+
+import { TextReplacement } from '../types';
+
+export function replacementsOverlap(a: TextReplacement, b: TextReplacement): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+// Applies replacements to the text they were anchored against. Replacements
+// that overlap an earlier one in the list are skipped, as are ones whose
+// span no longer matches the text.
+export function applyReplacements(text: string, replacements: TextReplacement[]): string {
+  const accepted: TextReplacement[] = [];
+  for (const replacement of replacements) {
+    if (text.slice(replacement.start, replacement.end) !== replacement.quote) continue;
+    if (accepted.some(other => replacementsOverlap(other, replacement))) continue;
+    accepted.push(replacement);
+  }
+
+  return accepted
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (result, replacement) =>
+        result.slice(0, replacement.start) + replacement.text + result.slice(replacement.end),
+      text
+    );
+}
@@ -16,3 +16,18 @@ export const extractDomain = (url: string): string => {
   }
 };
 
+// Tracking parameters that never change what a page says
+const TRACKING_PARAMS = /^(?:utm_\w+|fbclid|gclid|mc_cid|mc_eid|trk|trackingId)$/i;
+
+// One spelling per page, for cache keys. URL already lowercases the scheme
+// and host and drops default ports; this also drops the fragment and
+// tracking parameters and sorts the query.
+export const canonicalizeUrl = (input: string): string => {
+  const url = new URL(input.trim());
+  url.hash = '';
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => !TRACKING_PARAMS.test(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = new URLSearchParams(params).toString();
+  return url.href;
+};
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { checkBudget, getUsageSummary, UsageRecord } from './usageLedger';
+
+const record = (timestamp: string, clientId: string, costUsd: number | null, latencyMs = 100): UsageRecord => ({
+  id: `${clientId}-${timestamp}`,
+  timestamp,
+  clientId,
+  provider: 'openai',
+  model: 'gpt-4o',
+  promptTokens: 100,
+  completionTokens: 10,
+  totalTokens: 110,
+  costUsd,
+  latencyMs,
+  status: 'complete',
+  streaming: false
+});
+
+const line = (value: UsageRecord) => `${JSON.stringify(value)}\n`;
+
+describe('usage ledger with USAGE_LOG_FILE', () => {
+  let dir: string;
+  let file: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-ledger-'));
+    file = path.join(dir, 'usage.jsonl');
+    process.env.USAGE_LOG_FILE = file;
+    process.env.BUDGET_DAILY_USD = '1';
+    process.env.BUDGET_MONTHLY_USD = '10';
+  });
+
+  after(() => {
+    delete process.env.USAGE_LOG_FILE;
+    delete process.env.BUDGET_DAILY_USD;
+    delete process.env.BUDGET_MONTHLY_USD;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('sums the records by day and client', async () => {
+    fs.writeFileSync(file, [
+      record('2024-05-01T10:00:00.000Z', 'key:a', 0.5, 100),
+      record('2024-05-01T11:00:00.000Z', 'key:a', 0.25, 300),
+      record('2024-05-02T09:00:00.000Z', '10.0.0.1', null, 200),
+      record('2024-04-30T09:00:00.000Z', 'key:a', 4)
+    ].map(line).join(''));
+
+    const summary = await getUsageSummary('2024-05-01', '2024-05-31');
+    assert.equal(summary.totals.requests, 3);
+    assert.equal(summary.totals.costUsd, 0.75);
+    assert.equal(summary.totals.averageLatencyMs, 200);
+    assert.equal(summary.totals.unpricedRequests, 1);
+    assert.deepEqual(summary.byDay.map(day => [day.day, day.requests]), [['2024-05-01', 2], ['2024-05-02', 1]]);
+    assert.deepEqual(summary.byClient.map(client => [client.clientId, client.requests]), [['key:a', 2], ['10.0.0.1', 1]]);
+    assert.equal(summary.byDay[0].averageLatencyMs, 200);
+  });
+
+  it('reads appended lines and leaves a partial line for later', async () => {
+    const next = line(record('2024-05-01T12:00:00.000Z', 'key:b', 0.25));
+    fs.appendFileSync(file, next.slice(0, 20));
+    assert.equal((await getUsageSummary('2024-05-01', '2024-05-01')).totals.requests, 2);
+
+    fs.appendFileSync(file, next.slice(20));
+    const summary = await getUsageSummary('2024-05-01', '2024-05-01');
+    assert.equal(summary.totals.requests, 3);
+    assert.equal(summary.totals.costUsd, 1);
+  });
+
+  it('checks the budget against the day and month', async () => {
+    const status = await checkBudget(new Date('2024-05-01T18:00:00.000Z'));
+    assert.equal(status.allowed, false);
+    assert.equal(status.period, 'daily');
+    assert.deepEqual(status.spentUsd, { daily: 1, monthly: 1 });
+    assert.equal(status.resetsAt, '2024-05-02T00:00:00.000Z');
+
+    assert.equal((await checkBudget(new Date('2024-05-02T18:00:00.000Z'))).allowed, true);
+  });
+
+  it('starts over when the log is rotated', async () => {
+    fs.writeFileSync(file, line(record('2024-06-01T10:00:00.000Z', 'key:c', 0.1)));
+    assert.equal((await getUsageSummary('2024-05-01', '2024-05-31')).totals.requests, 0);
+    assert.equal((await getUsageSummary('2024-06-01', '2024-06-30')).totals.requests, 1);
+  });
+});
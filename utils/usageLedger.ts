@@ -0,0 +1,354 @@
+// Per-request token and cost accounting, with daily/monthly budget ceilings
+
+import crypto from 'crypto';
+import fs from 'fs';
+
+export type UsageStatus = 'complete' | 'partial' | 'degraded' | 'failed';
+
+export interface UsageRecord {
+  id: string;
+  timestamp: string;
+  // The rate-limit identity: `key:<id>` for API keys, otherwise the IP
+  clientId: string;
+  apiKeyId?: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Null when the model has no known price
+  costUsd: number | null;
+  latencyMs: number;
+  status: UsageStatus;
+  streaming: boolean;
+  // Served from the analysis cache without calling the model
+  cached?: boolean;
+  promptVersion?: string;
+}
+
+export type UsageEntry = Omit<UsageRecord, 'id' | 'timestamp' | 'costUsd'>;
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  averageLatencyMs: number;
+  // Requests whose cost could not be estimated
+  unpricedRequests: number;
+  cacheHits: number;
+}
+
+export interface UsageSummary {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byClient: Array<UsageTotals & { clientId: string; apiKeyId?: string }>;
+}
+
+export interface BudgetStatus {
+  allowed: boolean;
+  // The ceiling that was hit, when not allowed
+  period?: 'daily' | 'monthly';
+  limitUsd?: number;
+  spentUsd: { daily: number; monthly: number };
+  resetsAt?: string;
+}
+
+interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// Public list prices; override or extend with LLM_PRICING
+const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  mock: { input: 0, output: 0 }
+};
+
+// Running sums for one client on one day; the average latency is worked out
+// when a report is built
+interface Aggregate {
+  apiKeyId?: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  unpricedRequests: number;
+  cacheHits: number;
+}
+
+// Days older than this before the latest record are dropped, which bounds
+// memory by days and clients rather than by requests
+const RETENTION_DAYS = 400;
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+// Aggregates by UTC day, then client, of the records in memory or those read
+// from USAGE_LOG_FILE so far
+let days = new Map<string, Map<string, Aggregate>>();
+// Bytes of USAGE_LOG_FILE already in `days`
+let logOffset = 0;
+let loadQueue: Promise<unknown> = Promise.resolve();
+
+function getPricing(): Record<string, ModelPrice> {
+  if (!process.env.LLM_PRICING) return MODEL_PRICING;
+  try {
+    return { ...MODEL_PRICING, ...JSON.parse(process.env.LLM_PRICING) };
+  } catch (error) {
+    console.error('Ignoring invalid LLM_PRICING:', error);
+    return MODEL_PRICING;
+  }
+}
+
+// Longest matching prefix, so dated snapshots like "gpt-4o-2024-08-06"
+// use their family's price
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const pricing = getPricing();
+  const name = model.toLowerCase();
+  const match = Object.keys(pricing)
+    .filter(key => name === key || name.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!match) return null;
+
+  const price = pricing[match];
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+// Adds the lines appended to the log since the last read. Other processes
+// (e.g. more server instances) append to the same log, so it is read again
+// on every load rather than once per process. A log that got shorter was
+// rotated and is read from the start.
+async function readNewRecords(file: string): Promise<void> {
+  let handle: fs.promises.FileHandle;
+  try {
+    handle = await fs.promises.open(file, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read usage log:', error);
+      return;
+    }
+    days = new Map();
+    logOffset = 0;
+    return;
+  }
+
+  try {
+    const { size } = await handle.stat();
+    if (size < logOffset) {
+      days = new Map();
+      logOffset = 0;
+    }
+    if (size === logOffset) return;
+
+    // Only the new bytes are read, a chunk at a time, however long the log
+    // has grown
+    let position = logOffset;
+    let partial = Buffer.alloc(0);
+    while (position < size) {
+      const chunk = Buffer.alloc(Math.min(READ_CHUNK_BYTES, size - position));
+      const { bytesRead } = await handle.read(chunk, 0, chunk.length, position);
+      if (bytesRead === 0) break;
+      position += bytesRead;
+      const data = Buffer.concat([partial, chunk.subarray(0, bytesRead)]);
+      // A line that is still being written is read next time
+      const end = data.lastIndexOf(10) + 1;
+      for (const line of data.subarray(0, end).toString('utf8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          addRecord(JSON.parse(line));
+        } catch {
+          // A torn line from a crash shouldn't lose the whole ledger
+        }
+      }
+      logOffset += end;
+      partial = data.subarray(end);
+    }
+  } catch (error) {
+    console.error('Failed to read usage log:', error);
+  } finally {
+    await handle.close();
+  }
+}
+
+// Loads run one at a time so concurrent requests don't add the same lines
+// twice
+function loadAggregates(): Promise<Map<string, Map<string, Aggregate>>> {
+  const result = loadQueue.then(async () => {
+    const file = process.env.USAGE_LOG_FILE;
+    if (file) await readNewRecords(file);
+    return days;
+  });
+  loadQueue = result.catch(() => undefined);
+  return result;
+}
+
+export async function recordAnalysisUsage(entry: UsageEntry): Promise<UsageRecord> {
+  const record: UsageRecord = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+    costUsd: estimateCost(entry.model, entry.promptTokens, entry.completionTokens)
+  };
+
+  const file = process.env.USAGE_LOG_FILE;
+  if (file) {
+    // Appends are atomic for lines this small, so no locking is needed. The
+    // next load reads the record back like any other process's.
+    await fs.promises.appendFile(file, `${JSON.stringify(record)}\n`);
+    return record;
+  }
+
+  addRecord(record);
+  return record;
+}
+
+function emptyAggregate(): Aggregate {
+  return {
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    latencyMs: 0,
+    unpricedRequests: 0,
+    cacheHits: 0
+  };
+}
+
+function addRecord(record: UsageRecord): void {
+  const day = record.timestamp.slice(0, 10);
+  let clients = days.get(day);
+  if (!clients) {
+    clients = new Map();
+    days.set(day, clients);
+    const cutoff = new Date(Date.parse(day) - RETENTION_DAYS * 86_400_000).toISOString().slice(0, 10);
+    Array.from(days.keys()).filter(key => key < cutoff).forEach(key => days.delete(key));
+  }
+  let aggregate = clients.get(record.clientId);
+  if (!aggregate) {
+    aggregate = { ...emptyAggregate(), apiKeyId: record.apiKeyId };
+    clients.set(record.clientId, aggregate);
+  }
+
+  aggregate.requests++;
+  aggregate.promptTokens += record.promptTokens;
+  aggregate.completionTokens += record.completionTokens;
+  aggregate.totalTokens += record.totalTokens;
+  aggregate.latencyMs += record.latencyMs;
+  if (record.cached) aggregate.cacheHits++;
+  if (record.costUsd === null) {
+    aggregate.unpricedRequests++;
+  } else {
+    aggregate.costUsd += record.costUsd;
+  }
+}
+
+function mergeAggregate(total: Aggregate, aggregate: Aggregate): void {
+  total.requests += aggregate.requests;
+  total.promptTokens += aggregate.promptTokens;
+  total.completionTokens += aggregate.completionTokens;
+  total.totalTokens += aggregate.totalTokens;
+  total.costUsd += aggregate.costUsd;
+  total.latencyMs += aggregate.latencyMs;
+  total.unpricedRequests += aggregate.unpricedRequests;
+  total.cacheHits += aggregate.cacheHits;
+}
+
+function toTotals({ apiKeyId, latencyMs, ...aggregate }: Aggregate): UsageTotals {
+  return {
+    ...aggregate,
+    costUsd: Math.round(aggregate.costUsd * 1_000_000) / 1_000_000,
+    averageLatencyMs: aggregate.requests > 0 ? Math.round(latencyMs / aggregate.requests) : 0
+  };
+}
+
+// `from` and `to` are inclusive ISO dates (YYYY-MM-DD)
+export async function getUsageSummary(from: string, to: string): Promise<UsageSummary> {
+  const totals = emptyAggregate();
+  const byDay = new Map<string, Aggregate>();
+  const byClient = new Map<string, Aggregate>();
+
+  (await loadAggregates()).forEach((clients, day) => {
+    if (day < from || day > to) return;
+
+    const dayTotals = emptyAggregate();
+    byDay.set(day, dayTotals);
+    clients.forEach((aggregate, clientId) => {
+      mergeAggregate(totals, aggregate);
+      mergeAggregate(dayTotals, aggregate);
+      if (!byClient.has(clientId)) {
+        byClient.set(clientId, { ...emptyAggregate(), apiKeyId: aggregate.apiKeyId });
+      }
+      mergeAggregate(byClient.get(clientId)!, aggregate);
+    });
+  });
+
+  return {
+    from,
+    to,
+    totals: toTotals(totals),
+    byDay: Array.from(byDay.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, dayTotals]) => ({ day, ...toTotals(dayTotals) })),
+    byClient: Array.from(byClient.entries())
+      .sort(([, a], [, b]) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens)
+      .map(([clientId, clientTotals]) => ({ clientId, apiKeyId: clientTotals.apiKeyId, ...toTotals(clientTotals) }))
+  };
+}
+
+function readCeiling(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+// Compares spend so far (UTC day and month) with BUDGET_DAILY_USD and
+// BUDGET_MONTHLY_USD. With no ceilings configured everything is allowed.
+export async function checkBudget(now: Date = new Date()): Promise<BudgetStatus> {
+  const dailyLimit = readCeiling('BUDGET_DAILY_USD');
+  const monthlyLimit = readCeiling('BUDGET_MONTHLY_USD');
+  const today = now.toISOString().slice(0, 10);
+  const month = today.slice(0, 7);
+
+  const spentUsd = { daily: 0, monthly: 0 };
+  if (dailyLimit !== undefined || monthlyLimit !== undefined) {
+    (await loadAggregates()).forEach((clients, day) => {
+      if (!day.startsWith(month)) return;
+      clients.forEach(aggregate => {
+        spentUsd.monthly += aggregate.costUsd;
+        if (day === today) spentUsd.daily += aggregate.costUsd;
+      });
+    });
+  }
+
+  if (monthlyLimit !== undefined && spentUsd.monthly >= monthlyLimit) {
+    return {
+      allowed: false,
+      period: 'monthly',
+      limitUsd: monthlyLimit,
+      spentUsd,
+      resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString()
+    };
+  }
+  if (dailyLimit !== undefined && spentUsd.daily >= dailyLimit) {
+    return {
+      allowed: false,
+      period: 'daily',
+      limitUsd: dailyLimit,
+      spentUsd,
+      resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString()
+    };
+  }
+  return { allowed: true, spentUsd };
+}